@@ -13,30 +13,56 @@ import Auth from "./pages/Auth";
 import ChatBot from "./pages/ChatBot";
 import NotFound from "./pages/NotFound";
 import PackageDetails from "./pages/PackageDetails";
+import ResetPassword from "./pages/ResetPassword";
+import Admin from "./pages/Admin";
+import Book from "./pages/Book";
+import BookingConfirmation from "./pages/BookingConfirmation";
+import SharedTrip from "./pages/SharedTrip";
+import ItineraryEditor from "./pages/ItineraryEditor";
+import TripExpenses from "./pages/TripExpenses";
+import { AuthProvider } from "./contexts/AuthContext";
+import { ProtectedRoute } from "./components/ProtectedRoute";
+import { useItineraryQueue } from "./hooks/use-itinerary-queue";
 
 const queryClient = new QueryClient();
 
+// Needs the signed-in user, so it lives under AuthProvider
+const ItineraryQueueSync = () => {
+  useItineraryQueue();
+  return null;
+};
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/ai-planner" element={<AIPlanner />} />
-          <Route path="/explore" element={<Explore />} />
-          <Route path="/maps" element={<Maps />} />
-          <Route path="/dashboard" element={<Dashboard />} />
-          <Route path="/about" element={<About />} />
-          <Route path="/auth" element={<Auth />} />
-          <Route path="/chat" element={<ChatBot />} />
-          <Route path="/package/:id" element={<PackageDetails />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <ItineraryQueueSync />
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/ai-planner" element={<AIPlanner />} />
+            <Route path="/explore" element={<Explore />} />
+            <Route path="/maps" element={<Maps />} />
+            <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
+            <Route path="/about" element={<About />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
+            <Route path="/chat" element={<ChatBot />} />
+            <Route path="/package/:id" element={<PackageDetails />} />
+            <Route path="/book/:type/:id" element={<ProtectedRoute><Book /></ProtectedRoute>} />
+            <Route path="/bookings/:id" element={<ProtectedRoute><BookingConfirmation /></ProtectedRoute>} />
+            <Route path="/itineraries/:id/edit" element={<ProtectedRoute><ItineraryEditor /></ProtectedRoute>} />
+            <Route path="/itineraries/:id/expenses" element={<ProtectedRoute><TripExpenses /></ProtectedRoute>} />
+            <Route path="/trip/:slug" element={<SharedTrip />} />
+            <Route path="/admin" element={<ProtectedRoute requireAdmin><Admin /></ProtectedRoute>} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
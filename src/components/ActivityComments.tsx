@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { MessageSquare, Trash2 } from "lucide-react";
+import type { ItineraryComment } from "@/lib/itineraryCollaboration";
+
+interface ActivityCommentsProps {
+  activityName: string;
+  comments: ItineraryComment[];
+  // Resolves with whether the comment was posted
+  onAdd: (body: string) => Promise<boolean>;
+  onDelete: (comment: ItineraryComment) => void;
+  canDelete: (comment: ItineraryComment) => boolean;
+}
+
+// The comment thread on one activity, behind a button showing how many there are
+export const ActivityComments = ({ activityName, comments, onAdd, onDelete, canDelete }: ActivityCommentsProps) => {
+  const [draft, setDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  const handlePost = async () => {
+    if (!draft.trim()) return;
+    setPosting(true);
+    try {
+      if (await onAdd(draft)) setDraft('');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-label={`Comments on ${activityName}`}
+          className="h-7 px-2 text-gray-500 shrink-0"
+        >
+          <MessageSquare size={14} />
+          {comments.length > 0 && <span className="ml-1 text-xs">{comments.length}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3" align="end">
+        <p className="text-sm font-semibold text-gray-900">{activityName}</p>
+        {comments.length === 0 ? (
+          <p className="text-sm text-gray-500">No comments yet. Ask your group what they think.</p>
+        ) : (
+          <ul className="space-y-2 max-h-60 overflow-y-auto">
+            {comments.map(comment => (
+              <li key={comment.id} className="text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium text-gray-900 truncate">{comment.authorName || 'A co-traveller'}</p>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <span className="text-xs text-gray-400">{format(comment.createdAt, 'd MMM, h:mm a')}</span>
+                    {canDelete(comment) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onDelete(comment)}
+                        aria-label="Delete comment"
+                        className="h-6 w-6 p-0 text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 size={12} />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <p className="text-gray-700 whitespace-pre-wrap break-words">{comment.body}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Add a comment..."
+            rows={2}
+            className="rounded-xl text-sm"
+          />
+          <Button size="sm" onClick={handlePost} disabled={posting || !draft.trim()} className="w-full rounded-xl">
+            {posting ? "Posting..." : "Comment"}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
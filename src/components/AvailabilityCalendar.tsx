@@ -0,0 +1,47 @@
+import { format } from "date-fns";
+import { Calendar } from "@/components/ui/calendar";
+import type { useAvailability } from "@/hooks/use-availability";
+
+interface AvailabilityCalendarProps {
+  availability: ReturnType<typeof useAvailability>;
+  selected?: Date;
+  onSelect: (date: Date | undefined) => void;
+}
+
+const startOfToday = () => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+};
+
+export const AvailabilityCalendar = ({ availability, selected, onSelect }: AvailabilityCalendarProps) => {
+  const { isFull, seatsLeft, tracksCapacity } = availability;
+  const selectedSeats = selected ? seatsLeft(selected) : null;
+
+  return (
+    <div>
+      <Calendar
+        mode="single"
+        selected={selected}
+        onSelect={onSelect}
+        disabled={[{ before: startOfToday() }, isFull]}
+        modifiers={{ full: isFull }}
+        modifiersClassNames={{ full: "line-through bg-gray-100 text-gray-400" }}
+        initialFocus
+      />
+      {tracksCapacity && (
+        <div className="px-3 pb-3 space-y-1 text-xs text-gray-500">
+          <p className="flex items-center gap-2">
+            <span className="inline-block h-3 w-3 rounded-sm bg-gray-100 border border-gray-200" />
+            Fully booked
+          </p>
+          {selected && selectedSeats !== null && (
+            <p className="font-medium text-konkan-turquoise-700">
+              {selectedSeats} {selectedSeats === 1 ? 'seat' : 'seats'} left on {format(selected, 'PPP')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
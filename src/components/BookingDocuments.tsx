@@ -0,0 +1,51 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FileText, Receipt, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { downloadBookingDocument, type BookingDocument } from "@/lib/documents";
+
+export const BookingDocuments = ({ bookingId }: { bookingId: string }) => {
+  const [downloading, setDownloading] = useState<BookingDocument | null>(null);
+  const { toast } = useToast();
+
+  const handleDownload = async (document: BookingDocument) => {
+    setDownloading(document);
+    try {
+      await downloadBookingDocument(bookingId, document);
+    } catch (error) {
+      console.error(`Error downloading ${document}:`, error);
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={downloading !== null}
+        onClick={() => handleDownload('voucher')}
+        className="flex-1 rounded-xl"
+      >
+        {downloading === 'voucher' ? <Loader2 size={14} className="mr-1 animate-spin" /> : <FileText size={14} className="mr-1" />}
+        Voucher
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={downloading !== null}
+        onClick={() => handleDownload('invoice')}
+        className="flex-1 rounded-xl"
+      >
+        {downloading === 'invoice' ? <Loader2 size={14} className="mr-1 animate-spin" /> : <Receipt size={14} className="mr-1" />}
+        Invoice
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,15 @@
+import { Badge } from "@/components/ui/badge";
+import { BOOKING_STATUS_LABELS, type BookingStatus } from "@/lib/bookings";
+
+const statusColors: Record<BookingStatus, string> = {
+  pending: 'bg-konkan-orange-500',
+  confirmed: 'bg-konkan-turquoise-500',
+  completed: 'bg-konkan-forest-500',
+  cancelled: 'bg-gray-500'
+};
+
+export const BookingStatusBadge = ({ status }: { status: BookingStatus }) => (
+  <Badge className={`${statusColors[status]} text-white border-0`}>
+    {BOOKING_STATUS_LABELS[status]}
+  </Badge>
+);
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { CalendarPlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { exportItineraryCalendar } from "@/lib/itineraryCalendar";
+import type { Itinerary } from "@/lib/itinerary";
+
+interface CalendarExportButtonProps {
+  itinerary: Itinerary;
+  title: string;
+  calendarId: string;
+  sequence?: number;
+  startDate?: Date | null;
+  // Called with the chosen date before exporting, e.g. to remember it
+  onStartDateChange?: (date: Date) => Promise<void> | void;
+  // Icon-only button, for the dashboard cards
+  compact?: boolean;
+}
+
+const startOfToday = () => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+};
+
+export const CalendarExportButton = ({
+  itinerary,
+  title,
+  calendarId,
+  sequence,
+  startDate,
+  onStartDateChange,
+  compact = false
+}: CalendarExportButtonProps) => {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<Date | undefined>(startDate ?? undefined);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setSelected(startDate ?? undefined);
+    setOpen(next);
+  };
+
+  const handleExport = async () => {
+    if (!selected) return;
+
+    setIsExporting(true);
+    try {
+      if (onStartDateChange && selected.getTime() !== startDate?.getTime()) {
+        await onStartDateChange(selected);
+      }
+      await exportItineraryCalendar(itinerary, { title, startDate: selected, calendarId, sequence });
+      setOpen(false);
+      toast({
+        title: "Calendar File Ready",
+        description: "Open the .ics file to add your trip to your calendar.",
+      });
+    } catch (error) {
+      console.error('Error exporting itinerary calendar:', error);
+      toast({
+        title: "Export Failed",
+        description: "Could not create the calendar file. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {compact ? (
+          <Button variant="outline" size="sm" className="rounded-xl" disabled={itinerary.days.length === 0}>
+            <CalendarPlus size={14} />
+          </Button>
+        ) : (
+          <Button variant="outline" disabled={itinerary.days.length === 0}>
+            <CalendarPlus size={16} className="mr-2" />
+            Add to Calendar
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Add to Calendar</DialogTitle>
+          <DialogDescription>
+            {startDate
+              ? "Edited your plan? Export again and re-import the file to update the events already in your calendar."
+              : "When does your trip start? Each activity becomes an event on the right day."}
+          </DialogDescription>
+        </DialogHeader>
+        <Calendar
+          mode="single"
+          selected={selected}
+          onSelect={setSelected}
+          disabled={{ before: startOfToday() }}
+          defaultMonth={selected}
+          className="mx-auto"
+          initialFocus
+        />
+        {selected && (
+          <p className="text-sm text-center text-gray-600">
+            Day 1 is {format(selected, 'PPPP')}
+          </p>
+        )}
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={!selected || isExporting} className="w-full">
+            {isExporting ? "Preparing..." : "Download .ics File"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  cancelBooking,
+  fetchBooking,
+  fetchCancellationQuote,
+  formatRupees,
+  type Booking,
+  type CancellationQuote
+} from "@/lib/bookings";
+
+interface CancelBookingButtonProps {
+  booking: Booking;
+  onCancelled: (booking: Booking) => void;
+}
+
+export const CancelBookingButton = ({ booking, onCancelled }: CancelBookingButtonProps) => {
+  const [open, setOpen] = useState(false);
+  const [quote, setQuote] = useState<CancellationQuote | null>(null);
+  const [reason, setReason] = useState('');
+  const [cancelling, setCancelling] = useState(false);
+  const { toast } = useToast();
+
+  const openDialog = async () => {
+    setOpen(true);
+    setQuote(null);
+    try {
+      setQuote(await fetchCancellationQuote(booking.id));
+    } catch (error) {
+      console.error('Error fetching cancellation quote:', error);
+      setOpen(false);
+      toast({
+        title: "Cancellation Unavailable",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleCancel = async () => {
+    setCancelling(true);
+    try {
+      const refund = await cancelBooking(booking.id, reason);
+      const updated = await fetchBooking(booking.id);
+      if (updated) onCancelled(updated);
+      setOpen(false);
+      toast({
+        title: "Booking Cancelled",
+        description: refund > 0
+          ? `A refund of ${formatRupees(refund)} is on its way to your original payment method.`
+          : "Your booking has been cancelled.",
+      });
+    } catch (error) {
+      console.error('Error cancelling booking:', error);
+      toast({
+        title: "Cancellation Failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={openDialog} className="w-full text-red-600 hover:bg-red-50 rounded-xl">
+        <XCircle size={16} className="mr-2" />
+        Cancel Booking
+      </Button>
+
+      <AlertDialog open={open} onOpenChange={(next) => !cancelling && setOpen(next)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel this booking?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {quote?.policyTitle ? `This package has the ${quote.policyTitle} cancellation policy.` : 'Cancellations are refunded according to the package policy.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {!quote ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="animate-spin text-konkan-turquoise-500" size={24} />
+            </div>
+          ) : (
+            <div className="space-y-4 text-sm">
+              <div className="bg-konkan-sand-50 border border-konkan-sand-200 rounded-xl p-3 space-y-1">
+                <p>{quote.daysBefore} {quote.daysBefore === 1 ? 'day' : 'days'} before travel</p>
+                <p>Paid so far: {formatRupees(quote.paidAmount)}</p>
+                <p className="font-semibold">
+                  Refund: {formatRupees(quote.refundAmount)}
+                  {quote.paidAmount > 0 && ` (${quote.refundPercent}%)`}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cancel-reason">Reason (optional)</Label>
+                <Textarea
+                  id="cancel-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="rounded-xl"
+                />
+              </div>
+            </div>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={cancelling}>Keep Booking</AlertDialogCancel>
+            <Button onClick={handleCancel} disabled={!quote || cancelling} className="bg-red-600 hover:bg-red-700">
+              {cancelling && <Loader2 className="mr-2 animate-spin" size={16} />}
+              Cancel Booking
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
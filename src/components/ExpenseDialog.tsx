@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  EXPENSE_CATEGORIES,
+  type ExpenseCategory,
+  type ExpenseInput,
+  type TripParticipant
+} from "@/lib/tripExpenses";
+
+interface ExpenseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  participants: TripParticipant[];
+  // What the form starts with: an expense being edited, or a planned cost.
+  // Give the dialog a new key to start it over.
+  initial: Partial<ExpenseInput>;
+  editing: boolean;
+  // Resolves with whether the expense was saved
+  onSubmit: (input: ExpenseInput) => Promise<boolean>;
+}
+
+// Records who paid for something and who shares the cost
+export const ExpenseDialog = ({ open, onOpenChange, participants, initial, editing, onSubmit }: ExpenseDialogProps) => {
+  const [description, setDescription] = useState(initial.description ?? '');
+  const [amount, setAmount] = useState(initial.amount ? String(initial.amount) : '');
+  const [category, setCategory] = useState<ExpenseCategory>(initial.category ?? 'other');
+  const [paidBy, setPaidBy] = useState(initial.paidBy ?? participants[0]?.id ?? '');
+  const [splitAmong, setSplitAmong] = useState<string[]>(initial.splitAmong ?? participants.map(person => person.id));
+  const [spentOn, setSpentOn] = useState(initial.spentOn ? format(initial.spentOn, 'yyyy-MM-dd') : '');
+  const [saving, setSaving] = useState(false);
+
+  const value = Number(amount);
+  const valid = description.trim() !== '' && value > 0 && paidBy !== '' && splitAmong.length > 0;
+
+  const toggle = (id: string, checked: boolean) =>
+    setSplitAmong(current => (checked ? [...current, id] : current.filter(item => item !== id)));
+
+  const handleSubmit = async () => {
+    if (!valid) return;
+    setSaving(true);
+    try {
+      const saved = await onSubmit({
+        description,
+        amount: value,
+        category,
+        paidBy,
+        // Keep the group's order, so leftover paise land predictably
+        splitAmong: participants.map(person => person.id).filter(id => splitAmong.includes(id)),
+        activityName: initial.activityName ?? null,
+        spentOn: spentOn ? parseISO(spentOn) : null
+      });
+      if (saved) onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{editing ? "Edit Expense" : "Add Expense"}</DialogTitle>
+          <DialogDescription>
+            {initial.activityName
+              ? `Recording what "${initial.activityName}" actually cost.`
+              : "Split equally among the people you tick."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="expense-description">What was it for?</Label>
+            <Input
+              id="expense-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Dinner at the beach shack"
+              className="rounded-xl"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="expense-amount">Amount (₹)</Label>
+              <Input
+                id="expense-amount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="rounded-xl"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expense-date">Date</Label>
+              <Input
+                id="expense-date"
+                type="date"
+                value={spentOn}
+                onChange={(e) => setSpentOn(e.target.value)}
+                className="rounded-xl"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={(next) => setCategory(next as ExpenseCategory)}>
+                <SelectTrigger className="rounded-xl">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPENSE_CATEGORIES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Paid by</Label>
+              <Select value={paidBy} onValueChange={setPaidBy}>
+                <SelectTrigger className="rounded-xl">
+                  <SelectValue placeholder="Who paid?" />
+                </SelectTrigger>
+                <SelectContent>
+                  {participants.map(person => (
+                    <SelectItem key={person.id} value={person.id}>{person.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Split among</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {participants.map(person => (
+                <label key={person.id} className="flex items-center gap-2 text-sm text-gray-700">
+                  <Checkbox
+                    checked={splitAmong.includes(person.id)}
+                    onCheckedChange={(checked) => toggle(person.id, checked === true)}
+                  />
+                  <span className="truncate">{person.name}</span>
+                </label>
+              ))}
+            </div>
+            {value > 0 && splitAmong.length > 0 && (
+              <p className="text-xs text-gray-500">
+                About ₹{(value / splitAmong.length).toLocaleString('en-IN', { maximumFractionDigits: 2 })} each
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="rounded-xl">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={saving || !valid}
+            className="bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 text-white rounded-xl"
+          >
+            {saving ? "Saving..." : editing ? "Save Expense" : "Add Expense"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
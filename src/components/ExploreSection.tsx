@@ -10,6 +10,7 @@ import { useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import { ReviewModal } from "./ReviewModal";
 import { FavoriteButton } from "./FavoriteButton";
+import { isBookableId } from "@/lib/bookings";
 
 interface ExploreSectionProps {
   title?: string;
@@ -426,6 +427,18 @@ export const ExploreSection = ({
                             </div>
                             
                             <div className="flex gap-2">
+                              {isBookableId(pkg.id) && (
+                                <Button
+                                  variant="outline"
+                                  className="flex-1 border-konkan-orange-200 text-konkan-orange-600 hover:bg-konkan-orange-50 rounded-xl transition-all duration-300"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    navigate(`/book/${pkg.type || 'package'}/${pkg.id}`);
+                                  }}
+                                >
+                                  Book Now
+                                </Button>
+                              )}
                               {hasCoords && (
                                 <Button
                                   variant="outline"
@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Link2, Trash2, UserPlus, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AlreadyInvitedError,
+  fetchMembers,
+  inviteMember,
+  removeMember,
+  updateMemberRole,
+  type ItineraryMember,
+  type MemberRole
+} from "@/lib/itineraryCollaboration";
+
+interface ItineraryCollaboratorsProps {
+  itineraryId: string;
+  title: string;
+  // Icon-only button, for the dashboard cards
+  compact?: boolean;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Lets an itinerary's owner invite co-travellers and decide who can edit
+export const ItineraryCollaborators = ({ itineraryId, title, compact = false }: ItineraryCollaboratorsProps) => {
+  const [open, setOpen] = useState(false);
+  const [members, setMembers] = useState<ItineraryMember[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<MemberRole>('editor');
+  const [inviting, setInviting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    fetchMembers(itineraryId)
+      .then(setMembers)
+      .catch(error => console.error('Error fetching itinerary members:', error));
+  }, [open, itineraryId]);
+
+  const handleInvite = async () => {
+    if (!EMAIL_PATTERN.test(email.trim())) {
+      toast({
+        title: "Invalid Email",
+        description: "Please enter the email address your co-traveller signs in with.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setInviting(true);
+    try {
+      const member = await inviteMember(itineraryId, email, role);
+      setMembers(current => [...current, member]);
+      setEmail('');
+      toast({
+        title: "Invite Added",
+        description: `${member.email} will find "${title}" on their dashboard once they sign in with that email.`,
+      });
+    } catch (error) {
+      console.error('Error inviting to itinerary:', error);
+      toast({
+        title: "Invite Failed",
+        description: error instanceof AlreadyInvitedError ? error.message : "Failed to send the invite. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: ItineraryMember, next: MemberRole) => {
+    try {
+      await updateMemberRole(member.id, next);
+      setMembers(current => current.map(item => (item.id === member.id ? { ...item, role: next } : item)));
+    } catch (error) {
+      console.error('Error updating itinerary member:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to change what this person can do. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRemove = async (member: ItineraryMember) => {
+    try {
+      await removeMember(member.id);
+      setMembers(current => current.filter(item => item.id !== member.id));
+    } catch (error) {
+      console.error('Error removing itinerary member:', error);
+      toast({
+        title: "Remove Failed",
+        description: "Failed to remove this person. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(`${window.location.origin}/itineraries/${itineraryId}/edit`);
+    toast({
+      title: "Link Copied",
+      description: "Send it to the people you invited. It only opens for them once they sign in.",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {compact ? (
+          <Button variant="outline" size="sm" className="rounded-xl" title="Plan together">
+            <Users size={14} />
+          </Button>
+        ) : (
+          <Button variant="outline" className="rounded-xl">
+            <Users size={16} className="mr-2" />
+            Plan Together
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Plan Together</DialogTitle>
+          <DialogDescription>
+            Invite your group to "{title}". Editors can change the plan; everyone can comment on activities.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleInvite()}
+            placeholder="friend@example.com"
+            className="rounded-xl"
+          />
+          <Select value={role} onValueChange={(value) => setRole(value as MemberRole)}>
+            <SelectTrigger className="w-28 rounded-xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="editor">Can edit</SelectItem>
+              <SelectItem value="viewer">Can view</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={handleInvite} disabled={inviting || !email.trim()} className="rounded-xl" aria-label="Invite">
+            <UserPlus size={16} />
+          </Button>
+        </div>
+
+        {members.length > 0 && (
+          <ul className="space-y-2">
+            {members.map(member => (
+              <li key={member.id} className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900 truncate">{member.email}</p>
+                  {!member.userId && <Badge variant="outline" className="text-xs">Invited</Badge>}
+                </div>
+                <Select value={member.role} onValueChange={(value) => handleRoleChange(member, value as MemberRole)}>
+                  <SelectTrigger className="w-28 h-8 rounded-xl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="editor">Can edit</SelectItem>
+                    <SelectItem value="viewer">Can view</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(member)}
+                  aria-label={`Remove ${member.email}`}
+                  className="h-8 w-8 p-0 text-red-600 hover:bg-red-50"
+                >
+                  <Trash2 size={14} />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Button variant="outline" onClick={copyLink} className="rounded-xl">
+          <Link2 size={16} className="mr-2" />
+          Copy Link for Invitees
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
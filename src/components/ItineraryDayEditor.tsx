@@ -0,0 +1,213 @@
+import { useState, type ReactNode } from "react";
+import { useDroppable } from "@dnd-kit/core";
+import { SortableContext, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Car, Clock, GripVertical, MapPin, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { activitiesCost } from "@/lib/itinerary";
+import {
+  dayDropId,
+  formatDriveTime,
+  travelLegs,
+  type EditableActivity,
+  type EditableDay,
+  type EditorDestination,
+  type TravelLeg
+} from "@/lib/itineraryEditing";
+
+interface ItineraryDayEditorProps {
+  day: EditableDay;
+  dayIndex: number;
+  destinations: EditorDestination[];
+  onChange: (key: string, changes: Partial<EditableActivity>) => void;
+  onRemove: (key: string) => void;
+  onAdd: (destination: EditorDestination) => void;
+  // For collaborators who can view but not edit
+  readOnly?: boolean;
+  // Shown next to each activity, e.g. its comment thread
+  renderExtras?: (activity: EditableActivity) => ReactNode;
+}
+
+const formatLeg = (leg: TravelLeg) => `${formatDriveTime(leg.minutes)} drive · ${leg.km.toFixed(1)} km`;
+
+const SortableActivity = ({
+  activity,
+  onChange,
+  onRemove,
+  readOnly,
+  extras
+}: {
+  activity: EditableActivity;
+  onChange: (changes: Partial<EditableActivity>) => void;
+  onRemove: () => void;
+  readOnly: boolean;
+  extras?: ReactNode;
+}) => {
+  const { attributes, listeners, setNodeRef, setActivatorNodeRef, transform, transition, isDragging } = useSortable({
+    id: activity.key,
+    disabled: readOnly
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={cn("bg-white border rounded-xl p-3 flex gap-2", isDragging && "opacity-50 shadow-lg")}
+    >
+      {!readOnly && (
+        <button
+          ref={setActivatorNodeRef}
+          {...attributes}
+          {...listeners}
+          type="button"
+          aria-label={`Move ${activity.name}`}
+          className="text-gray-400 hover:text-gray-600 cursor-grab active:cursor-grabbing touch-none self-start mt-1"
+        >
+          <GripVertical size={18} />
+        </button>
+      )}
+      <div className="flex-1 space-y-2 min-w-0">
+        <div className="flex items-start justify-between gap-2">
+          <p className="font-medium text-gray-900 truncate">{activity.name}</p>
+          <div className="flex items-center shrink-0">
+            {extras}
+            {!readOnly && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onRemove}
+                aria-label={`Remove ${activity.name}`}
+                className="h-7 w-7 p-0 text-red-600 hover:bg-red-50"
+              >
+                <Trash2 size={14} />
+              </Button>
+            )}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Clock size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+            <Input
+              value={activity.time}
+              onChange={(e) => onChange({ time: e.target.value })}
+              disabled={readOnly}
+              aria-label="Time"
+              className="h-8 pl-7 text-sm rounded-lg"
+            />
+          </div>
+          <div className="relative w-28">
+            <span className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400 text-sm">₹</span>
+            <Input
+              type="number"
+              min={0}
+              step={50}
+              value={activity.cost}
+              onChange={(e) => onChange({ cost: Math.max(0, Number(e.target.value) || 0) })}
+              disabled={readOnly}
+              aria-label="Cost"
+              className="h-8 pl-6 text-sm rounded-lg"
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AddPlace = ({ destinations, onAdd }: { destinations: EditorDestination[]; onAdd: (destination: EditorDestination) => void }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full rounded-xl border-dashed">
+          <Plus size={14} className="mr-1" />
+          Add a place
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="p-0 w-72" align="start">
+        <Command>
+          <CommandInput placeholder="Search destinations..." />
+          <CommandList>
+            <CommandEmpty>No destinations found.</CommandEmpty>
+            <CommandGroup>
+              {destinations.map(destination => (
+                <CommandItem
+                  key={destination.id}
+                  value={`${destination.name} ${destination.category ?? ''}`}
+                  onSelect={() => {
+                    onAdd(destination);
+                    setOpen(false);
+                  }}
+                >
+                  <MapPin size={14} className="mr-2 text-konkan-turquoise-500" />
+                  <span className="flex-1">{destination.name}</span>
+                  {destination.category && <span className="text-xs text-gray-400 capitalize">{destination.category}</span>}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export const ItineraryDayEditor = ({
+  day,
+  dayIndex,
+  destinations,
+  onChange,
+  onRemove,
+  onAdd,
+  readOnly = false,
+  renderExtras
+}: ItineraryDayEditorProps) => {
+  const { setNodeRef, isOver } = useDroppable({ id: dayDropId(dayIndex), disabled: readOnly });
+  const legs = travelLegs(day);
+  const driveMinutes = legs.reduce((sum, leg) => sum + (leg?.minutes ?? 0), 0);
+
+  return (
+    <Card className={cn("glass-card border-0 shadow-lg transition-colors", isOver && "ring-2 ring-konkan-turquoise-300")}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">Day {dayIndex + 1}: {day.title}</CardTitle>
+        <p className="text-sm text-gray-600">
+          ₹{activitiesCost(day.activities).toLocaleString('en-IN')} in activities
+          {driveMinutes > 0 && ` · about ${formatDriveTime(driveMinutes)} on the road`}
+        </p>
+      </CardHeader>
+      <CardContent ref={setNodeRef} className="space-y-2 min-h-16">
+        <SortableContext items={day.activities.map(activity => activity.key)} strategy={verticalListSortingStrategy}>
+          {day.activities.map((activity, index) => (
+            <div key={activity.key}>
+              {index > 0 && legs[index - 1] && (
+                <p className="flex items-center gap-1 text-xs text-gray-500 pl-8 pb-2">
+                  <Car size={12} />
+                  {formatLeg(legs[index - 1]!)}
+                </p>
+              )}
+              <SortableActivity
+                activity={activity}
+                onChange={(changes) => onChange(activity.key, changes)}
+                onRemove={() => onRemove(activity.key)}
+                readOnly={readOnly}
+                extras={renderExtras?.(activity)}
+              />
+            </div>
+          ))}
+        </SortableContext>
+        {day.activities.length === 0 && (
+          <p className="text-sm text-gray-400 text-center py-4">
+            {readOnly ? "Nothing planned for this day yet." : "Drag activities here or add a place."}
+          </p>
+        )}
+        {!readOnly && <AddPlace destinations={destinations} onAdd={onAdd} />}
+      </CardContent>
+    </Card>
+  );
+};
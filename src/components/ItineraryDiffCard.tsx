@@ -0,0 +1,87 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowRightLeft, Check, Minus, Pencil, Plus, X } from "lucide-react";
+import { applyItineraryDiff, describeItineraryDiff, type ItineraryDiff, type ItineraryEdit } from "@/lib/itineraryDiff";
+import type { Itinerary } from "@/lib/itinerary";
+
+export type ItineraryDiffStatus = 'pending' | 'accepted' | 'dismissed';
+
+interface ItineraryDiffCardProps {
+  plan: Itinerary;
+  edits: ItineraryDiff;
+  status: ItineraryDiffStatus;
+  // The itinerary changed after these still pending edits were suggested
+  stale: boolean;
+  accepting: boolean;
+  onAccept: () => void;
+  onDismiss: () => void;
+}
+
+const editIcon = (edit: ItineraryEdit) => {
+  switch (edit.type) {
+    case 'move_activity':
+      return <ArrowRightLeft size={14} className="text-konkan-turquoise-600" />;
+    case 'add_activity':
+    case 'add_restaurant':
+      return <Plus size={14} className="text-green-600" />;
+    case 'remove_activity':
+    case 'remove_restaurant':
+      return <Minus size={14} className="text-red-600" />;
+    case 'update_activity':
+      return <Pencil size={14} className="text-konkan-orange-600" />;
+  }
+};
+
+// Changes the chat assistant suggested for an itinerary, for the traveller to accept or dismiss
+export const ItineraryDiffCard = ({ plan, edits, status, stale, accepting, onAccept, onDismiss }: ItineraryDiffCardProps) => {
+  let lines: string[] | null = null;
+  let total = plan.totalEstimatedCost;
+  if (!stale) {
+    lines = describeItineraryDiff(plan, edits);
+    total = applyItineraryDiff(plan, edits).totalEstimatedCost;
+  }
+
+  return (
+    <div className="mt-3 rounded-xl border border-konkan-turquoise-200 bg-konkan-turquoise-50/60 p-3 text-gray-800">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <p className="text-sm font-semibold">Suggested changes</p>
+        {status === 'accepted' && <Badge className="bg-green-100 text-green-700 border-0">Applied</Badge>}
+        {status === 'dismissed' && <Badge variant="outline">Dismissed</Badge>}
+      </div>
+
+      {lines ? (
+        <ul className="space-y-1">
+          {edits.map((edit, index) => (
+            <li key={index} className="flex items-start gap-2 text-sm">
+              <span className="mt-0.5">{editIcon(edit)}</span>
+              <span>{lines![index]}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-600">
+          Your itinerary has changed since these were suggested. Ask again to get changes for the current plan.
+        </p>
+      )}
+
+      {status === 'pending' && !stale && (
+        <>
+          <p className="text-xs text-gray-600 mt-2">
+            New estimated total: ₹{total.toLocaleString('en-IN')}
+            {total !== plan.totalEstimatedCost && ` (was ₹${plan.totalEstimatedCost.toLocaleString('en-IN')})`}
+          </p>
+          <div className="flex gap-2 mt-3">
+            <Button size="sm" onClick={onAccept} disabled={accepting} className="rounded-xl bg-konkan-turquoise-500 hover:bg-konkan-turquoise-600 text-white">
+              <Check size={14} className="mr-1" />
+              {accepting ? 'Applying...' : 'Apply to itinerary'}
+            </Button>
+            <Button size="sm" variant="outline" onClick={onDismiss} disabled={accepting} className="rounded-xl">
+              <X size={14} className="mr-1" />
+              Dismiss
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,30 +1,277 @@
-
+import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { MapPin, Clock, Users, DollarSign, Heart, Share2, Download, Sparkles } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MapPin, Clock, Users, DollarSign, Heart, Share2, Download, Sparkles, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { fetchItinerary, NotSignedInError, pendingItineraries, saveItinerary, shareItinerary, updateItinerary, type SaveResult } from "@/lib/itineraryStore";
+import { exportItineraryPdf } from "@/lib/itineraryPdf";
+import { regenerateItineraryPart, type RegenerationTarget } from "@/lib/itineraryGeneration";
+import { CalendarExportButton } from "@/components/CalendarExportButton";
+import type { Itinerary } from "@/lib/itinerary";
 import type { ItineraryData } from "@/pages/AIPlanner";
 
+const regenerationKey = ({ day, activity }: RegenerationTarget) => (activity === undefined ? `${day}` : `${day}-${activity}`);
+
+// Unsaved plans get an id of their own, so exporting one twice doesn't duplicate events
+const draftCalendarIds = new WeakMap<Itinerary, string>();
+const draftCalendarId = (plan: Itinerary) => {
+  if (!draftCalendarIds.has(plan)) draftCalendarIds.set(plan, crypto.randomUUID());
+  return draftCalendarIds.get(plan)!;
+};
+
 interface ItineraryDisplayProps {
   itinerary: ItineraryData | null;
   isGenerating: boolean;
+  // Shown instead of the default heading, e.g. the name of a shared trip
+  title?: string;
+  // Hides saving and sharing, for the public trip page
+  readOnly?: boolean;
+  // Keeps calendar events stable across exports; defaults to the saved itinerary's id
+  calendarId?: string;
+  // Enables regenerating single days and activities
+  onPlanChange?: (plan: Itinerary) => void;
 }
 
-export const ItineraryDisplay = ({ itinerary, isGenerating }: ItineraryDisplayProps) => {
+export const ItineraryDisplay = ({ itinerary, isGenerating, title, readOnly = false, calendarId, onPlanChange }: ItineraryDisplayProps) => {
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [saveTitle, setSaveTitle] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  // Set once this plan is saved, so it can be shared. Regenerating parts keeps
+  // the same saved itinerary; `storedPlan` is the plan last written to it.
+  const [saved, setSaved] = useState<{
+    plan: ItineraryData['generatedPlan'];
+    storedPlan: ItineraryData['generatedPlan'];
+    id: string;
+    result: SaveResult;
+  } | null>(null);
+  const [shareAfterSave, setShareAfterSave] = useState(false);
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  // The day or activity being regenerated, as "day" or "day-activity"
+  const [regenerating, setRegenerating] = useState<string | null>(null);
   const { toast } = useToast();
 
-  const handleSaveItinerary = () => {
-    toast({
-      title: "Saved to Favorites",
-      description: "Your itinerary has been saved to your favorites.",
-    });
+  const savedId = saved && saved.plan === itinerary?.generatedPlan ? saved.id : null;
+
+  const openSaveDialog = () => {
+    if (!itinerary) return;
+    setSaveTitle(`${itinerary.days}-Day Konkan ${itinerary.exploreType.length === 1 ? itinerary.exploreType[0] : 'Trip'}`);
+    setShowSaveDialog(true);
+  };
+
+  // Writes regenerated parts to the saved itinerary. 'queued' while the save
+  // is still waiting offline, as there is no row to update yet.
+  const writeSavedChanges = async (): Promise<SaveResult> => {
+    if (!saved) throw new Error('Nothing saved yet');
+    if (saved.result === 'queued' && (await pendingItineraries()).some(item => item.id === saved.id)) {
+      return 'queued';
+    }
+    if (saved.plan && saved.storedPlan !== saved.plan) {
+      await updateItinerary(await fetchItinerary(saved.id), { plan: saved.plan });
+    }
+    setSaved(current => current && { ...current, storedPlan: saved.plan, result: 'saved' });
+    return 'saved';
+  };
+
+  const copyShareLink = async (id: string) => {
+    setIsSharing(true);
+    try {
+      const url = await shareItinerary(id);
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Share Link Copied",
+        description: "Anyone with the link can view this itinerary. You can stop sharing from your dashboard.",
+      });
+    } catch (error) {
+      console.error('Error sharing itinerary:', error);
+      toast({
+        title: "Share Failed",
+        description: "Could not create a share link. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSharing(false);
+    }
   };
 
-  const handleShareItinerary = () => {
+  const canRegenerate = !readOnly && !!onPlanChange;
+
+  const handleRegenerate = async (target: RegenerationTarget) => {
+    if (!itinerary?.generatedPlan || !onPlanChange) return;
+
+    const { generatedPlan, ...preferences } = itinerary;
+    setRegenerating(regenerationKey(target));
+    try {
+      const plan = await regenerateItineraryPart(preferences, generatedPlan, target);
+      onPlanChange(plan);
+      setSaved(current => current && current.plan === generatedPlan ? { ...current, plan } : current);
+    } catch (error) {
+      console.error('Error regenerating itinerary:', error);
+      toast({
+        title: "Regeneration Failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const handleSaveClick = () => {
+    if (savedId) {
+      handleSaveChanges();
+      return;
+    }
+    setShareAfterSave(false);
+    openSaveDialog();
+  };
+
+  const handleSaveChanges = async () => {
+    if (!saved) return;
+    const hasChanges = saved.storedPlan !== saved.plan;
+
+    setIsSaving(true);
+    try {
+      const result = await writeSavedChanges();
+      toast(result === 'saved'
+        ? {
+            title: "Itinerary Saved",
+            description: "Find it any time in your dashboard.",
+          }
+        : hasChanges
+          ? {
+              title: "Not Synced Yet",
+              description: "Your itinerary will sync once you're back online. Save again then to keep your changes.",
+            }
+          : {
+              title: "Saved Offline",
+              description: "You're offline. Your itinerary will sync to your dashboard once you're back online.",
+            });
+    } catch (error) {
+      console.error('Error saving itinerary changes:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save your changes. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveItinerary = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!itinerary?.generatedPlan) return;
+
+    if (!saveTitle.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please give your itinerary a name.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const { generatedPlan, ...preferences } = itinerary;
+      const { id, result } = await saveItinerary(saveTitle.trim(), preferences, generatedPlan);
+      setSaved({ plan: generatedPlan, storedPlan: generatedPlan, id, result });
+
+      setShowSaveDialog(false);
+      if (shareAfterSave && result === 'saved') {
+        await copyShareLink(id);
+        return;
+      }
+      toast(result === 'saved'
+        ? {
+            title: "Itinerary Saved",
+            description: "Find it any time in your dashboard.",
+          }
+        : {
+            title: "Saved Offline",
+            description: "You're offline. Your itinerary will sync to your dashboard once you're back online.",
+          });
+    } catch (error) {
+      if (error instanceof NotSignedInError) {
+        toast({
+          title: "Authentication Required",
+          description: "Please log in to save itineraries.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      console.error('Error saving itinerary:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save your itinerary. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!itinerary?.generatedPlan) return;
+
+    setIsExporting(true);
+    try {
+      await exportItineraryPdf(itinerary.generatedPlan, {
+        title: title ?? `${itinerary.days}-Day Konkan Itinerary`,
+        days: itinerary.days,
+        groupType: itinerary.groupType,
+        budget: itinerary.budgetRange,
+        interests: itinerary.exploreType
+      });
+    } catch (error) {
+      console.error('Error exporting itinerary PDF:', error);
+      toast({
+        title: "Download Failed",
+        description: "Could not create the PDF. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Only saved itineraries can be shared, so unsaved ones are saved first and
+  // regenerated parts are written before the link goes out
+  const handleShareItinerary = async () => {
+    if (!savedId) {
+      setShareAfterSave(true);
+      openSaveDialog();
+      return;
+    }
+
+    let result: SaveResult;
+    try {
+      result = await writeSavedChanges();
+    } catch (error) {
+      console.error('Error saving itinerary changes:', error);
+      toast({
+        title: "Share Failed",
+        description: "Could not save your changes. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (result === 'saved') {
+      await copyShareLink(savedId);
+      return;
+    }
     toast({
-      title: "Share Link Copied",
-      description: "Itinerary share link copied to clipboard.",
+      title: "Not Synced Yet",
+      description: "Your itinerary will sync once you're back online. Share it from your dashboard then.",
     });
   };
 
@@ -59,22 +306,24 @@ export const ItineraryDisplay = ({ itinerary, isGenerating }: ItineraryDisplayPr
           <div className="flex justify-between items-start">
             <div>
               <CardTitle className="text-2xl font-bold text-gray-900">
-                Your Konkan Itinerary
+                {title ?? "Your Konkan Itinerary"}
               </CardTitle>
               <CardDescription className="mt-2">
-                AI-generated travel plan tailored to your preferences
+                {readOnly ? "A Konkan trip shared from KonkanBliss" : "AI-generated travel plan tailored to your preferences"}
               </CardDescription>
             </div>
-            <div className="flex gap-2">
-              <Button variant="outline" size="sm" onClick={handleSaveItinerary}>
-                <Heart size={16} className="mr-1" />
-                Save
-              </Button>
-              <Button variant="outline" size="sm" onClick={handleShareItinerary}>
-                <Share2 size={16} className="mr-1" />
-                Share
-              </Button>
-            </div>
+            {!readOnly && (
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleSaveClick} disabled={!itinerary.generatedPlan || isSaving}>
+                  <Heart size={16} className="mr-1" />
+                  Save
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleShareItinerary} disabled={!itinerary.generatedPlan || isSharing}>
+                  <Share2 size={16} className="mr-1" />
+                  Share
+                </Button>
+              </div>
+            )}
           </div>
           
           <div className="flex flex-wrap gap-2 mt-4">
@@ -88,7 +337,7 @@ export const ItineraryDisplay = ({ itinerary, isGenerating }: ItineraryDisplayPr
             </Badge>
             <Badge variant="secondary" className="flex items-center gap-1">
               <MapPin size={12} />
-              {itinerary.exploreType}
+              {itinerary.exploreType.join(", ")}
             </Badge>
             <Badge variant="secondary" className="flex items-center gap-1">
               <DollarSign size={12} />
@@ -100,13 +349,30 @@ export const ItineraryDisplay = ({ itinerary, isGenerating }: ItineraryDisplayPr
         <CardContent>
           {itinerary.generatedPlan ? (
             <div className="space-y-6">
-              {itinerary.generatedPlan.days?.map((day: any, index: number) => (
+              {itinerary.generatedPlan.summary && (
+                <p className="text-gray-700">{itinerary.generatedPlan.summary}</p>
+              )}
+              {itinerary.generatedPlan.days.map((day, index) => (
                 <div key={index} className="border-l-4 border-orange-500 pl-4">
-                  <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                    Day {index + 1}: {day.title}
-                  </h3>
+                  <div className="flex items-start justify-between gap-2 mb-2">
+                    <h3 className="text-lg font-semibold text-gray-900">
+                      Day {index + 1}: {day.title}
+                    </h3>
+                    {canRegenerate && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRegenerate({ day: index })}
+                        disabled={regenerating !== null}
+                        className="shrink-0 text-gray-600"
+                      >
+                        <RefreshCw size={14} className={`mr-1 ${regenerating === regenerationKey({ day: index }) ? 'animate-spin' : ''}`} />
+                        New day
+                      </Button>
+                    )}
+                  </div>
                   <div className="space-y-3">
-                    {day.activities?.map((activity: any, actIndex: number) => (
+                    {day.activities.map((activity, actIndex) => (
                       <div key={actIndex} className="bg-gray-50 p-4 rounded-lg">
                         <div className="flex items-start justify-between">
                           <div>
@@ -119,18 +385,33 @@ export const ItineraryDisplay = ({ itinerary, isGenerating }: ItineraryDisplayPr
                               </p>
                             )}
                           </div>
-                          {activity.cost && (
-                            <Badge variant="outline">₹{activity.cost}</Badge>
-                          )}
+                          <div className="flex items-center gap-1 shrink-0">
+                            {activity.cost > 0 && (
+                              <Badge variant="outline">₹{activity.cost}</Badge>
+                            )}
+                            {canRegenerate && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRegenerate({ day: index, activity: actIndex })}
+                                disabled={regenerating !== null}
+                                aria-label={`Suggest something instead of ${activity.name}`}
+                                title="Suggest something else"
+                                className="h-7 w-7 p-0 text-gray-500"
+                              >
+                                <RefreshCw size={14} className={regenerating === regenerationKey({ day: index, activity: actIndex }) ? 'animate-spin' : ''} />
+                              </Button>
+                            )}
+                          </div>
                         </div>
                       </div>
                     ))}
                   </div>
-                  {day.restaurants && (
+                  {day.restaurants.length > 0 && (
                     <div className="mt-4">
                       <h4 className="font-medium text-gray-700 mb-2">Recommended Restaurants:</h4>
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                        {day.restaurants.map((restaurant: any, restIndex: number) => (
+                        {day.restaurants.map((restaurant, restIndex) => (
                           <div key={restIndex} className="bg-blue-50 p-3 rounded-lg text-sm">
                             <p className="font-medium">{restaurant.name}</p>
                             <p className="text-gray-600">{restaurant.cuisine}</p>
@@ -157,11 +438,52 @@ export const ItineraryDisplay = ({ itinerary, isGenerating }: ItineraryDisplayPr
         </CardContent>
       </Card>
 
+      <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save Itinerary</DialogTitle>
+            <DialogDescription>
+              {shareAfterSave
+                ? "Save your trip to get a link you can share."
+                : "Name your trip so you can find it later in your dashboard."}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveItinerary} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="itinerary-title">Itinerary Name</Label>
+              <Input
+                id="itinerary-title"
+                value={saveTitle}
+                onChange={(e) => setSaveTitle(e.target.value)}
+                placeholder="e.g., Monsoon weekend in Amboli"
+                className="rounded-xl"
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={isSaving} className="w-full">
+                {isSaving ? "Saving..." : "Save Itinerary"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       {itinerary.generatedPlan && (
-        <div className="text-center">
-          <Button className="bg-gradient-to-r from-orange-500 to-pink-500 hover:from-orange-600 hover:to-pink-600">
+        <div className="flex flex-wrap justify-center gap-3">
+          <CalendarExportButton
+            itinerary={itinerary.generatedPlan}
+            title={title ?? `${itinerary.days}-Day Konkan Itinerary`}
+            calendarId={calendarId ?? savedId ?? draftCalendarId(itinerary.generatedPlan)}
+            startDate={startDate}
+            onStartDateChange={setStartDate}
+          />
+          <Button
+            onClick={handleDownloadPdf}
+            disabled={isExporting}
+            className="bg-gradient-to-r from-orange-500 to-pink-500 hover:from-orange-600 hover:to-pink-600"
+          >
             <Download size={16} className="mr-2" />
-            Download Itinerary PDF
+            {isExporting ? "Preparing PDF..." : "Download Itinerary PDF"}
           </Button>
         </div>
       )}
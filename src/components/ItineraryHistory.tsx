@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { compareVersions } from "@/lib/itineraryHistory";
+import {
+  fetchItineraryVersions,
+  restoreItineraryVersion,
+  type ItineraryVersion,
+  type StoredItinerary
+} from "@/lib/itineraryStore";
+
+interface ItineraryHistoryProps {
+  itinerary: StoredItinerary | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Every saved version of an itinerary, newest first, with what changed in
+// each and a way back to any of them
+export const ItineraryHistory = ({ itinerary, onOpenChange }: ItineraryHistoryProps) => {
+  const [history, setHistory] = useState<{ itineraryId: string; versions: ItineraryVersion[] } | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const itineraryId = itinerary?.id;
+  // Reloads after every save, including restores and edits from other devices
+  const revision = itinerary?.revision;
+
+  useEffect(() => {
+    if (!itineraryId) return;
+    fetchItineraryVersions(itineraryId)
+      .then(versions => setHistory({ itineraryId, versions }))
+      .catch(error => {
+        console.error('Error fetching itinerary history:', error);
+        setHistory({ itineraryId, versions: [] });
+      });
+  }, [itineraryId, revision]);
+
+  // Only the history of the itinerary being shown
+  const versions = history?.itineraryId === itineraryId ? history.versions : null;
+
+  const handleRestore = async (version: ItineraryVersion) => {
+    if (!itinerary) return;
+
+    setRestoringId(version.id);
+    try {
+      const { overwritten } = await restoreItineraryVersion(itinerary, version);
+
+      if (overwritten.length > 0) {
+        toast({
+          title: "Updated Elsewhere",
+          description: `Newer changes to ${overwritten.join(', ')} from another device were kept. The rest of revision ${version.revision} was restored.`,
+        });
+        return;
+      }
+
+      toast({
+        title: "Version Restored",
+        description: `"${version.title}" is back to revision ${version.revision}. You can undo this from the history too.`,
+      });
+    } catch (error) {
+      console.error('Error restoring itinerary version:', error);
+      toast({
+        title: "Restore Failed",
+        description: "Failed to restore this version. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Sheet open={itinerary !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History size={18} />
+            Version History
+          </SheetTitle>
+          <SheetDescription>
+            {itinerary?.title}: every save is kept, so you can go back to any earlier version.
+          </SheetDescription>
+        </SheetHeader>
+
+        {!versions ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="animate-spin text-konkan-turquoise-500" size={32} />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-12">No saved versions yet.</p>
+        ) : (
+          <ol className="mt-6 space-y-4">
+            {versions.map((version, index) => {
+              const changes = compareVersions(versions[index + 1] ?? null, version);
+              const isCurrent = index === 0;
+
+              return (
+                <li key={version.id} className="border rounded-xl p-4 bg-white">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium text-gray-900 flex items-center gap-2">
+                        Revision {version.revision}
+                        {isCurrent && <Badge className="bg-konkan-turquoise-100 text-konkan-turquoise-700 border-0">Current</Badge>}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {format(version.createdAt, 'd MMM yyyy, h:mm a')} · {version.changedBy === user?.id ? 'You' : 'Someone else'}
+                      </p>
+                    </div>
+                    {!isCurrent && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(version)}
+                        disabled={restoringId !== null}
+                        className="rounded-xl shrink-0"
+                      >
+                        <RotateCcw size={14} className={`mr-1 ${restoringId === version.id ? 'animate-spin' : ''}`} />
+                        {index === 1 ? 'Undo to here' : 'Restore'}
+                      </Button>
+                    )}
+                  </div>
+                  <ul className="mt-3 space-y-1 text-sm text-gray-700">
+                    {changes.length > 0
+                      ? changes.map((change, changeIndex) => <li key={changeIndex}>• {change}</li>)
+                      : <li className="text-gray-500">• Changed {version.changedFields?.join(', ') || 'details'}</li>}
+                  </ul>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,403 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle2, Loader2, Plus, Sparkles, ThumbsDown, ThumbsUp, Trash2, Vote } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import type { EditorDestination } from "@/lib/itineraryEditing";
+import {
+  castVote,
+  closePoll,
+  createPoll,
+  deletePoll,
+  fetchPolls,
+  groupVotesFromPolls,
+  isPollOpen,
+  lockPoll,
+  pollWinners,
+  proposeOption,
+  removeOption,
+  type GroupVotes,
+  type ItineraryPoll,
+  type NewPollOption,
+  type PollOption,
+  type VoteValue
+} from "@/lib/itineraryPolls";
+
+interface ItineraryPollsProps {
+  itineraryId: string;
+  // Owners and editors run polls; everyone votes
+  canManage: boolean;
+  dayCount: number;
+  destinations: EditorDestination[];
+  // Puts a poll's winners into the plan being edited
+  onLockIn: (dayIndex: number, winners: PollOption[]) => void;
+  // Replans a day with everything the group has voted on
+  onReplanDay: (dayIndex: number, votes: GroupVotes) => Promise<void>;
+}
+
+const ANY_DAY = 'any';
+
+// Polls where the group votes on places and activities before they go into the plan
+export const ItineraryPolls = ({ itineraryId, canManage, dayCount, destinations, onLockIn, onReplanDay }: ItineraryPollsProps) => {
+  const [polls, setPolls] = useState<ItineraryPoll[]>([]);
+  const [question, setQuestion] = useState('');
+  const [day, setDay] = useState(ANY_DAY);
+  const [deadline, setDeadline] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [replanning, setReplanning] = useState<string | null>(null);
+  // Re-rendered every minute so polls close on screen when their deadline passes
+  const [now, setNow] = useState(() => new Date());
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  const loadPolls = useCallback(() =>
+    fetchPolls(itineraryId, userId)
+      .then(setPolls)
+      .catch(error => console.error('Error fetching polls:', error)),
+  [itineraryId, userId]);
+
+  useEffect(() => {
+    loadPolls();
+
+    const filter = `itinerary_id=eq.${itineraryId}`;
+    const channel = supabase
+      .channel(`itinerary-polls-${itineraryId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'itinerary_polls', filter }, () => loadPolls())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'itinerary_poll_options', filter }, () => loadPolls())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'itinerary_poll_votes', filter }, () => loadPolls())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [itineraryId, loadPolls]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Runs a poll action, reporting failures and refreshing the tally
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+      await loadPolls();
+      return true;
+    } catch (error) {
+      console.error('Error updating poll:', error);
+      toast({
+        title: "Poll Update Failed",
+        description: failure,
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const handleCreate = async () => {
+    const closesAt = deadline ? new Date(deadline) : null;
+    if (closesAt && closesAt <= new Date()) {
+      toast({
+        title: "Invalid Deadline",
+        description: "Pick a voting deadline in the future.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setCreating(true);
+    const created = await run(
+      () => createPoll(itineraryId, { question, dayIndex: day === ANY_DAY ? null : Number(day), closesAt }),
+      "Failed to start the poll. Please try again."
+    );
+    setCreating(false);
+    if (created) {
+      setQuestion('');
+      setDeadline('');
+    }
+  };
+
+  const handleLockIn = async (poll: ItineraryPoll) => {
+    if (poll.dayIndex === null) return;
+    const winners = pollWinners(poll);
+    const locked = await run(() => lockPoll(poll.id), "Failed to lock in the winners. Please try again.");
+    if (!locked) return;
+    onLockIn(poll.dayIndex, winners);
+  };
+
+  const handleReplan = async (poll: ItineraryPoll) => {
+    if (poll.dayIndex === null) return;
+    setReplanning(poll.id);
+    try {
+      await onReplanDay(poll.dayIndex, groupVotesFromPolls(polls));
+    } finally {
+      setReplanning(null);
+    }
+  };
+
+  return (
+    <Card className="glass-card border-0 shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Vote size={18} />
+          Group Polls
+        </CardTitle>
+        <CardDescription>
+          Vote on places and activities before they go into the plan. Replanning a day takes everyone's votes into account.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {polls.length === 0 && (
+          <p className="text-sm text-gray-500">
+            {canManage ? "No polls yet. Ask the group where they'd like to go." : "No polls yet."}
+          </p>
+        )}
+
+        {polls.map(poll => (
+          <PollCard
+            key={poll.id}
+            poll={poll}
+            open={isPollOpen(poll, now)}
+            canManage={canManage}
+            userId={userId}
+            destinations={destinations}
+            replanning={replanning === poll.id}
+            onVote={(option, value) => run(() => castVote(poll, option, value), "Failed to record your vote. Please try again.")}
+            onPropose={(option) => run(() => proposeOption(poll, option), "Failed to add the suggestion. Please try again.")}
+            onRemoveOption={(option) => run(() => removeOption(option.id), "Failed to remove the suggestion. Please try again.")}
+            onClose={() => run(() => closePoll(poll.id), "Failed to close voting. Please try again.")}
+            onDelete={() => run(() => deletePoll(poll.id), "Failed to delete the poll. Please try again.")}
+            onLockIn={() => handleLockIn(poll)}
+            onReplan={() => handleReplan(poll)}
+          />
+        ))}
+
+        {canManage && (
+          <div className="space-y-3 border-t pt-4">
+            <Label htmlFor="poll-question">New poll</Label>
+            <Input
+              id="poll-question"
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              placeholder="Where should we spend the afternoon?"
+              className="rounded-xl"
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              <Select value={day} onValueChange={setDay}>
+                <SelectTrigger className="rounded-xl">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_DAY}>Any day</SelectItem>
+                  {Array.from({ length: dayCount }, (_, index) => (
+                    <SelectItem key={index} value={String(index)}>For day {index + 1}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="datetime-local"
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+                aria-label="Voting deadline"
+                className="rounded-xl"
+              />
+              <Button onClick={handleCreate} disabled={creating || !question.trim()} className="rounded-xl">
+                <Plus size={16} className="mr-1" />
+                Start Poll
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+interface PollCardProps {
+  poll: ItineraryPoll;
+  open: boolean;
+  canManage: boolean;
+  userId: string | null;
+  destinations: EditorDestination[];
+  replanning: boolean;
+  onVote: (option: PollOption, value: VoteValue | null) => Promise<boolean>;
+  onPropose: (option: NewPollOption) => Promise<boolean>;
+  onRemoveOption: (option: PollOption) => Promise<boolean>;
+  onClose: () => void;
+  onDelete: () => void;
+  onLockIn: () => void;
+  onReplan: () => void;
+}
+
+const PollCard = ({
+  poll,
+  open,
+  canManage,
+  userId,
+  destinations,
+  replanning,
+  onVote,
+  onPropose,
+  onRemoveOption,
+  onClose,
+  onDelete,
+  onLockIn,
+  onReplan
+}: PollCardProps) => {
+  const [activity, setActivity] = useState('');
+  const proposed = new Set(poll.options.map(option => option.destinationId).filter(Boolean));
+  const winners = pollWinners(poll);
+
+  const status = poll.lockedAt
+    ? "Locked in"
+    : open
+      ? poll.closesAt ? `Open until ${format(poll.closesAt, 'd MMM, h:mm a')}` : "Open"
+      : "Voting closed";
+
+  const proposeDestination = (destinationId: string) => {
+    const destination = destinations.find(item => item.id === destinationId);
+    if (destination) onPropose({ kind: 'destination', label: destination.name, destinationId: destination.id });
+  };
+
+  const proposeActivity = async () => {
+    if (!activity.trim()) return;
+    if (await onPropose({ kind: 'activity', label: activity, destinationId: null })) setActivity('');
+  };
+
+  return (
+    <div className="rounded-xl border bg-white/60 p-4 space-y-3">
+      <div className="flex items-start gap-2">
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold text-gray-900">{poll.question}</p>
+          <div className="flex flex-wrap items-center gap-2 mt-1">
+            <Badge variant={open ? "default" : "secondary"} className="text-xs">{status}</Badge>
+            {poll.dayIndex !== null && <span className="text-xs text-gray-500">For day {poll.dayIndex + 1}</span>}
+          </div>
+        </div>
+        {canManage && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onDelete}
+            aria-label="Delete poll"
+            className="h-8 w-8 p-0 text-gray-400 hover:text-red-600"
+          >
+            <Trash2 size={14} />
+          </Button>
+        )}
+      </div>
+
+      {poll.options.length === 0 ? (
+        <p className="text-sm text-gray-500">No suggestions yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {poll.options.map(option => (
+            <li key={option.id} className="flex items-center gap-2">
+              <span className="flex-1 min-w-0 text-sm text-gray-800 truncate">
+                {option.label}
+                {option.kind === 'activity' && <span className="text-xs text-gray-400"> · activity</span>}
+              </span>
+              <Button
+                variant={option.myVote === 1 ? "default" : "outline"}
+                size="sm"
+                disabled={!open}
+                onClick={() => onVote(option, option.myVote === 1 ? null : 1)}
+                aria-label={`Vote for ${option.label}`}
+                className="h-8 px-2 rounded-xl"
+              >
+                <ThumbsUp size={14} className="mr-1" />
+                {option.up}
+              </Button>
+              <Button
+                variant={option.myVote === -1 ? "default" : "outline"}
+                size="sm"
+                disabled={!open}
+                onClick={() => onVote(option, option.myVote === -1 ? null : -1)}
+                aria-label={`Vote against ${option.label}`}
+                className="h-8 px-2 rounded-xl"
+              >
+                <ThumbsDown size={14} className="mr-1" />
+                {option.down}
+              </Button>
+              {open && (canManage || option.proposedBy === userId) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRemoveOption(option)}
+                  aria-label={`Remove ${option.label}`}
+                  className="h-8 w-8 p-0 text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 size={12} />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {open && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <Select value="" onValueChange={proposeDestination}>
+            <SelectTrigger className="rounded-xl">
+              <SelectValue placeholder="Suggest a place..." />
+            </SelectTrigger>
+            <SelectContent>
+              {destinations
+                .filter(destination => !proposed.has(destination.id))
+                .map(destination => (
+                  <SelectItem key={destination.id} value={destination.id}>{destination.name}</SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <div className="flex gap-2">
+            <Input
+              value={activity}
+              onChange={(e) => setActivity(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && proposeActivity()}
+              placeholder="...or an activity"
+              className="rounded-xl"
+            />
+            <Button onClick={proposeActivity} disabled={!activity.trim()} aria-label="Suggest activity" className="rounded-xl">
+              <Plus size={16} />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {canManage && !poll.lockedAt && (
+        <div className="flex flex-wrap gap-2">
+          {open && (
+            <Button variant="outline" size="sm" onClick={onClose} className="rounded-xl">
+              Close Voting
+            </Button>
+          )}
+          {!open && poll.dayIndex !== null && (
+            <>
+              <Button
+                size="sm"
+                onClick={onLockIn}
+                disabled={winners.length === 0}
+                className="bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 text-white rounded-xl"
+              >
+                <CheckCircle2 size={14} className="mr-1" />
+                Add {winners.length === 1 ? 'Winner' : 'Winners'} to Day {poll.dayIndex + 1}
+              </Button>
+              <Button variant="outline" size="sm" onClick={onReplan} disabled={replanning} className="rounded-xl">
+                {replanning ? <Loader2 size={14} className="mr-1 animate-spin" /> : <Sparkles size={14} className="mr-1" />}
+                Replan Day {poll.dayIndex + 1} Around the Votes
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { BookingStatusBadge } from "@/components/BookingStatusBadge";
+import { BookingDocuments } from "@/components/BookingDocuments";
+import { Calendar, Users, Ticket } from "lucide-react";
+import { motion } from "framer-motion";
+import { fetchMyBookings, formatRupees, type Booking } from "@/lib/bookings";
+
+export const MyBookings = ({ userId }: { userId: string }) => {
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchMyBookings(userId)
+      .then(setBookings)
+      .catch(error => console.error('Error fetching bookings:', error))
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  if (!loading && bookings.length === 0) {
+    return (
+      <Card className="glass-card border-0 shadow-xl">
+        <CardContent className="text-center py-12">
+          <Ticket className="mx-auto text-gray-400 mb-4" size={48} />
+          <h3 className="text-xl font-semibold text-gray-600 mb-2">No Bookings Yet</h3>
+          <p className="text-gray-500 mb-6">Find a package you love and book your Konkan getaway!</p>
+          <Link to="/explore">
+            <Button className="bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 text-white rounded-xl">
+              Explore Packages
+            </Button>
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      {bookings.map((booking, index) => (
+        <motion.div
+          key={booking.id}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: index * 0.1 }}
+        >
+          <Card className="glass-card border-0 shadow-xl hover:shadow-2xl transition-all duration-300 floating-card">
+            <CardHeader>
+              <div className="flex justify-between items-start gap-2">
+                <div>
+                  <CardTitle className="text-lg font-semibold">{booking.item.title}</CardTitle>
+                  <CardDescription className="font-mono text-xs mt-1">
+                    #{booking.id.slice(0, 8).toUpperCase()}
+                  </CardDescription>
+                </div>
+                <BookingStatusBadge status={booking.status} />
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="text-sm text-gray-600 space-y-1">
+                <p className="flex items-center gap-2"><Calendar size={14} />{format(booking.bookingDate, 'PPP')}</p>
+                <p className="flex items-center gap-2">
+                  <Users size={14} />
+                  {booking.numberOfPeople} {booking.numberOfPeople === 1 ? 'traveller' : 'travellers'}
+                </p>
+                <p><strong>Total:</strong> {formatRupees(booking.totalAmount)}</p>
+              </div>
+              {(booking.status === 'confirmed' || booking.status === 'completed') && (
+                <BookingDocuments bookingId={booking.id} />
+              )}
+              <Link to={`/bookings/${booking.id}`}>
+                <Button variant="outline" size="sm" className="w-full rounded-xl">
+                  {booking.status === 'pending' ? 'Complete Payment' : 'View Details'}
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </motion.div>
+      ))}
+    </div>
+  );
+};
@@ -1,12 +1,36 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Menu, X, Map, Heart, MessageCircle, User, Sparkles, Compass, Calendar } from "lucide-react";
-import { Link, useLocation } from "react-router-dom";
+import { Menu, X, Map, Heart, MessageCircle, User, Sparkles, Compass, Calendar, LogOut, Shield } from "lucide-react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
+import { useAuth, displayName } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
 
 export const Navigation = () => {
   const [isOpen, setIsOpen] = useState(false);
   const location = useLocation();
+  const navigate = useNavigate();
+  const { user, profile, isAdmin, signOut } = useAuth();
+  const { toast } = useToast();
+
+  const handleSignOut = async () => {
+    setIsOpen(false);
+    try {
+      await signOut();
+      navigate('/');
+      toast({
+        title: "Signed Out",
+        description: "See you again soon!",
+      });
+    } catch (error) {
+      console.error('Error signing out:', error);
+      toast({
+        title: "Sign Out Failed",
+        description: "Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
 
   const isActive = (path: string) => location.pathname === path;
 
@@ -84,15 +108,41 @@ export const Navigation = () => {
                 Dashboard
               </Button>
             </Link>
-            <Link to="/auth">
-              <Button 
-                size="sm" 
-                className="bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 hover:from-konkan-turquoise-600 hover:to-konkan-orange-600 text-white rounded-xl shadow-lg hover-lift"
-              >
-                <User size={16} className="mr-2" />
-                Login
-              </Button>
-            </Link>
+            {isAdmin && (
+              <Link to="/admin">
+                <Button variant="ghost" size="sm" className="hover:bg-konkan-forest-50 hover:text-konkan-forest-600 rounded-xl">
+                  <Shield size={16} className="mr-2" />
+                  Admin
+                </Button>
+              </Link>
+            )}
+            {user ? (
+              <>
+                <span className="flex items-center gap-2 text-sm font-medium text-gray-700 max-w-[160px]">
+                  <User size={16} className="shrink-0" />
+                  <span className="truncate">{displayName(user, profile)}</span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleSignOut}
+                  className="hover:bg-konkan-turquoise-50 hover:text-konkan-turquoise-600 rounded-xl"
+                >
+                  <LogOut size={16} className="mr-2" />
+                  Sign Out
+                </Button>
+              </>
+            ) : (
+              <Link to="/auth">
+                <Button 
+                  size="sm" 
+                  className="bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 hover:from-konkan-turquoise-600 hover:to-konkan-orange-600 text-white rounded-xl shadow-lg hover-lift"
+                >
+                  <User size={16} className="mr-2" />
+                  Login
+                </Button>
+              </Link>
+            )}
           </motion.div>
 
           {/* Mobile menu button */}
@@ -150,15 +200,41 @@ export const Navigation = () => {
                     Dashboard
                   </Button>
                 </Link>
-                <Link to="/auth" onClick={() => setIsOpen(false)}>
-                  <Button 
-                    size="sm" 
-                    className="w-full bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 text-white rounded-xl"
-                  >
-                    <User size={16} className="mr-2" />
-                    Login
-                  </Button>
-                </Link>
+                {isAdmin && (
+                  <Link to="/admin" onClick={() => setIsOpen(false)}>
+                    <Button variant="ghost" size="sm" className="w-full justify-start hover:bg-konkan-forest-50 rounded-xl">
+                      <Shield size={16} className="mr-2" />
+                      Admin
+                    </Button>
+                  </Link>
+                )}
+                {user ? (
+                  <>
+                    <p className="px-3 py-2 text-sm font-medium text-gray-700 flex items-center gap-2">
+                      <User size={16} />
+                      <span className="truncate">{displayName(user, profile)}</span>
+                    </p>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleSignOut}
+                      className="w-full justify-start hover:bg-konkan-turquoise-50 rounded-xl"
+                    >
+                      <LogOut size={16} className="mr-2" />
+                      Sign Out
+                    </Button>
+                  </>
+                ) : (
+                  <Link to="/auth" onClick={() => setIsOpen(false)}>
+                    <Button 
+                      size="sm" 
+                      className="w-full bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 text-white rounded-xl"
+                    >
+                      <User size={16} className="mr-2" />
+                      Login
+                    </Button>
+                  </Link>
+                )}
               </div>
             </div>
           </motion.div>
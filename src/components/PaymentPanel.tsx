@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CreditCard, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { fetchBooking, formatRupees, type Booking } from "@/lib/bookings";
+import { createPaymentOrder, openRazorpayCheckout, simulatePayment, type PaymentOrder } from "@/lib/payments";
+
+const POLL_INTERVAL_MS = 2000;
+const POLL_ATTEMPTS = 15;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface PaymentPanelProps {
+  booking: Booking;
+  onConfirmed: (booking: Booking) => void;
+}
+
+export const PaymentPanel = ({ booking, onConfirmed }: PaymentPanelProps) => {
+  const [busy, setBusy] = useState(false);
+  const [sandboxOrder, setSandboxOrder] = useState<PaymentOrder | null>(null);
+  const { toast } = useToast();
+
+  // The webhook confirms the booking, which may land a moment after checkout closes
+  const waitForConfirmation = async () => {
+    for (let attempt = 0; attempt < POLL_ATTEMPTS; attempt++) {
+      const latest = await fetchBooking(booking.id);
+      if (latest && latest.status !== 'pending') {
+        onConfirmed(latest);
+        toast({
+          title: "Payment Received",
+          description: "Your booking is confirmed. See you in the Konkan!",
+        });
+        return;
+      }
+      await wait(POLL_INTERVAL_MS);
+    }
+
+    toast({
+      title: "Payment Processing",
+      description: "We're waiting for the payment to clear. Your booking will update shortly.",
+    });
+  };
+
+  const handleError = (error: unknown) => {
+    console.error('Error taking payment:', error);
+    toast({
+      title: "Payment Failed",
+      description: error instanceof Error ? error.message : "Please try again.",
+      variant: "destructive"
+    });
+  };
+
+  const handlePay = async () => {
+    setBusy(true);
+    try {
+      const order = await createPaymentOrder(booking.id);
+      if (order.gateway === 'fake') {
+        setSandboxOrder(order);
+        return;
+      }
+
+      await openRazorpayCheckout(order, booking.item.title, {
+        email: booking.contactEmail ?? undefined,
+        contact: booking.contactPhone ?? undefined
+      });
+      await waitForConfirmation();
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSandbox = async (succeed: boolean) => {
+    if (!sandboxOrder) return;
+    setBusy(true);
+    try {
+      const { status } = await simulatePayment(sandboxOrder.orderId, succeed);
+      setSandboxOrder(null);
+      if (status === 'failed') throw new Error('The sandbox declined this payment.');
+      await waitForConfirmation();
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 bg-konkan-sand-50 border border-konkan-sand-200 rounded-xl p-4">
+      <p className="text-sm text-gray-600">
+        Your seats are held as pending. Pay now to confirm the booking.
+      </p>
+      <Button
+        onClick={handlePay}
+        disabled={busy}
+        className="w-full bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 hover:from-konkan-turquoise-600 hover:to-konkan-orange-600 text-white rounded-xl"
+      >
+        {busy ? <Loader2 className="mr-2 animate-spin" size={16} /> : <CreditCard className="mr-2" size={16} />}
+        Pay {formatRupees(booking.totalAmount)}
+      </Button>
+
+      <Dialog open={!!sandboxOrder} onOpenChange={(open) => !open && !busy && setSandboxOrder(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Sandbox Payment</DialogTitle>
+            <DialogDescription>
+              Payments are running against the local fake gateway. No money will be charged.
+            </DialogDescription>
+          </DialogHeader>
+          {sandboxOrder && (
+            <div className="text-sm space-y-1">
+              <p><strong>Order:</strong> <span className="font-mono">{sandboxOrder.orderId}</span></p>
+              <p><strong>Amount:</strong> {formatRupees(sandboxOrder.amount / 100)}</p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" disabled={busy} onClick={() => handleSandbox(false)} className="rounded-xl">
+              Decline
+            </Button>
+            <Button disabled={busy} onClick={() => handleSandbox(true)} className="rounded-xl">
+              {busy && <Loader2 className="mr-2 animate-spin" size={16} />}
+              Pay Successfully
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
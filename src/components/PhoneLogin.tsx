@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Phone, ArrowRight, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+
+const OTP_LENGTH = 6;
+const RESEND_COOLDOWN_SECONDS = 30;
+
+// Accepts "+91 98765 43210", "098765 43210" or a bare 10 digit Indian mobile
+// number and returns it in E.164 form, or null if it doesn't look like one.
+const normalisePhone = (input: string): string | null => {
+  const digits = input.replace(/[^\d+]/g, '');
+  if (/^\+\d{8,15}$/.test(digits)) return digits;
+
+  const local = digits.replace(/^0/, '');
+  if (/^[6-9]\d{9}$/.test(local)) return `+91${local}`;
+  return null;
+};
+
+interface PhoneLoginProps {
+  onSignedIn: () => void;
+}
+
+export const PhoneLogin = ({ onSignedIn }: PhoneLoginProps) => {
+  const [phone, setPhone] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [cooldown, setCooldown] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown(cooldown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const sendCode = async (number: string) => {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.auth.signInWithOtp({ phone: number });
+      if (error) throw error;
+
+      setSentTo(number);
+      setCode('');
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+      toast({
+        title: "Code Sent",
+        description: `We've sent a ${OTP_LENGTH}-digit code to ${number}.`,
+      });
+    } catch (error) {
+      console.error('Error sending login code:', error);
+      toast({
+        title: "Could Not Send Code",
+        description: error instanceof Error ? error.message : "Please try again in a moment.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSendCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    const number = normalisePhone(phone);
+    if (!number) {
+      toast({
+        title: "Invalid Phone Number",
+        description: "Enter a mobile number like +91 98765 43210.",
+        variant: "destructive"
+      });
+      return;
+    }
+    sendCode(number);
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sentTo || code.length !== OTP_LENGTH) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.auth.verifyOtp({ phone: sentTo, token: code, type: 'sms' });
+      if (error) throw error;
+
+      toast({
+        title: "Login Successful!",
+        description: "Welcome to KonkanBliss!",
+      });
+      onSignedIn();
+    } catch (error) {
+      console.error('Error verifying login code:', error);
+      setCode('');
+      toast({
+        title: "Verification Failed",
+        description: error instanceof Error ? error.message : "The code is incorrect or has expired.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!sentTo) {
+    return (
+      <form onSubmit={handleSendCode} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="otp-phone">Mobile Number</Label>
+          <div className="relative">
+            <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
+            <Input
+              id="otp-phone"
+              type="tel"
+              placeholder="+91 98765 43210"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              className="pl-10 rounded-xl"
+            />
+          </div>
+          <p className="text-xs text-gray-500">We'll text you a one-time code. New numbers get an account automatically.</p>
+        </div>
+
+        <Button
+          type="submit"
+          disabled={submitting}
+          className="w-full bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 hover:from-konkan-turquoise-600 hover:to-konkan-orange-600 text-white rounded-xl hover-lift"
+        >
+          {submitting ? <Loader2 className="mr-2 animate-spin" size={16} /> : <ArrowRight className="mr-2" size={16} />}
+          Send Code
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <form onSubmit={handleVerify} className="space-y-4">
+      <div className="space-y-2 text-center">
+        <Label htmlFor="otp-code">Enter the code sent to {sentTo}</Label>
+        <div className="flex justify-center">
+          <InputOTP id="otp-code" maxLength={OTP_LENGTH} value={code} onChange={setCode} disabled={submitting}>
+            <InputOTPGroup>
+              {Array.from({ length: OTP_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      </div>
+
+      <Button
+        type="submit"
+        disabled={submitting || code.length !== OTP_LENGTH}
+        className="w-full bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 hover:from-konkan-turquoise-600 hover:to-konkan-orange-600 text-white rounded-xl hover-lift"
+      >
+        {submitting ? <Loader2 className="mr-2 animate-spin" size={16} /> : <ArrowRight className="mr-2" size={16} />}
+        Verify & Login
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => setSentTo(null)}
+          className="text-gray-500 hover:text-gray-700"
+        >
+          Change number
+        </button>
+        <button
+          type="button"
+          onClick={() => sendCode(sentTo)}
+          disabled={submitting || cooldown > 0}
+          className="text-konkan-turquoise-600 hover:text-konkan-turquoise-700 disabled:text-gray-400"
+        >
+          {cooldown > 0 ? `Resend code in ${cooldown}s` : 'Resend code'}
+        </button>
+      </div>
+    </form>
+  );
+};
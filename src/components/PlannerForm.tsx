@@ -10,6 +10,7 @@ import { Badge } from "@/components/ui/badge";
 import { Sparkles, MapPin, Users, Calendar, DollarSign, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { migrateItinerary } from "@/lib/itinerary";
 import type { ItineraryData } from "@/pages/AIPlanner";
 
 interface PlannerFormProps {
@@ -82,12 +83,16 @@ export const PlannerForm = ({ onPlanGenerated, onGenerating }: PlannerFormProps)
 
       if (error) throw error;
 
+      const generatedPlan = migrateItinerary(data?.itinerary);
+      if (!generatedPlan) throw new Error('Received an itinerary in an unknown format');
+
       const planData: ItineraryData = {
         days: parseInt(formData.days),
         groupType: formData.groupType,
-        exploreType: formData.exploreType.join(", "),
+        exploreType: formData.exploreType,
         budgetRange: formData.budgetRange,
-        generatedPlan: data.itinerary
+        specialRequests: formData.specialRequests || undefined,
+        generatedPlan
       };
 
       onPlanGenerated(planData);
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RefreshCw, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+type AuditEntry = Tables<'audit_log'>;
+
+const PAGE_SIZE = 50;
+
+const actionColors: Record<string, string> = {
+  INSERT: 'bg-konkan-forest-500',
+  UPDATE: 'bg-konkan-turquoise-500',
+  DELETE: 'bg-red-500'
+};
+
+// What the changed row was called, from whichever snapshot is available
+const recordLabel = (entry: AuditEntry) => {
+  const data = (entry.new_data ?? entry.old_data) as Record<string, unknown> | null;
+  const label = data?.title ?? data?.name ?? data?.caption ?? data?.booking_date;
+  return label ? String(label) : entry.record_id?.slice(0, 8) ?? '';
+};
+
+const describeChange = (entry: AuditEntry) => {
+  if (entry.action === 'INSERT') return 'Created';
+  if (entry.action === 'DELETE') return 'Deleted';
+
+  const oldData = entry.old_data as Record<string, unknown> | null;
+  const newData = entry.new_data as Record<string, unknown> | null;
+  return (entry.changed_fields || [])
+    .map(field => `${field}: ${JSON.stringify(oldData?.[field])} → ${JSON.stringify(newData?.[field])}`)
+    .join('; ');
+};
+
+export const AuditLog = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [actors, setActors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('audit_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (error) throw error;
+      setEntries(data || []);
+
+      const actorIds = [...new Set((data || []).map(entry => entry.actor_id).filter(Boolean))];
+      if (actorIds.length > 0) {
+        const { data: profiles } = await supabase.from('profiles').select('id, full_name').in('id', actorIds);
+        setActors(Object.fromEntries((profiles || []).map(profile => [profile.id, profile.full_name || profile.id.slice(0, 8)])));
+      }
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  return (
+    <Card className="glass-card border-0 shadow-xl">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Audit Trail</CardTitle>
+          <CardDescription>The latest {PAGE_SIZE} changes to the catalogue and bookings</CardDescription>
+        </div>
+        <Button variant="outline" onClick={loadEntries} className="rounded-xl">
+          <RefreshCw size={16} className="mr-2" />
+          Refresh
+        </Button>
+      </CardHeader>
+
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="animate-spin text-konkan-turquoise-500" size={32} />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No changes recorded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Who</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Table</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                  <TableCell>{entry.actor_id ? actors[entry.actor_id] || entry.actor_id.slice(0, 8) : 'System'}</TableCell>
+                  <TableCell>
+                    <Badge className={`${actionColors[entry.action] || 'bg-gray-500'} text-white border-0`}>
+                      {entry.action.toLowerCase()}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{entry.table_name.replace(/_/g, ' ')}</TableCell>
+                  <TableCell className="max-w-[180px] truncate">{recordLabel(entry)}</TableCell>
+                  <TableCell className="max-w-[360px] text-xs text-gray-600 break-words">{describeChange(entry)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
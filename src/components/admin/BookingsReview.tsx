@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Check, X, CheckCheck, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { BookingStatusBadge } from "@/components/BookingStatusBadge";
+import { cancelBooking, formatRupees, fromDateColumn, type BookingStatus } from "@/lib/bookings";
+
+type Booking = Tables<'bookings'>;
+
+// Titles and names looked up by id, since the booking rows only hold ids
+const loadNames = async (bookings: Booking[]) => {
+  const ids = (key: keyof Booking) => [...new Set(bookings.map(booking => booking[key] as string | null).filter(Boolean))];
+
+  const [packages, tourPackages, profiles] = await Promise.all([
+    supabase.from('packages').select('id, title').in('id', ids('package_id')),
+    supabase.from('tour_packages').select('id, title').in('id', ids('tour_package_id')),
+    supabase.from('profiles').select('id, full_name').in('id', ids('user_id'))
+  ]);
+
+  const names: Record<string, string> = {};
+  [...(packages.data || []), ...(tourPackages.data || [])].forEach(item => { names[item.id] = item.title; });
+  (profiles.data || []).forEach(profile => { if (profile.full_name) names[profile.id] = profile.full_name; });
+  return names;
+};
+
+export const BookingsReview = () => {
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [statusFilter, setStatusFilter] = useState<BookingStatus | 'all'>('pending');
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadBookings = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('bookings')
+        .select('*')
+        .order('booking_date', { ascending: true });
+
+      if (statusFilter !== 'all') query = query.eq('status', statusFilter);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setBookings(data || []);
+      setNames(await loadNames(data || []));
+    } catch (error) {
+      console.error('Error fetching bookings:', error);
+      toast({
+        title: "Load Failed",
+        description: "Could not load bookings.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, toast]);
+
+  useEffect(() => {
+    loadBookings();
+  }, [loadBookings]);
+
+  const setStatus = async (booking: Booking, status: BookingStatus) => {
+    setUpdating(booking.id);
+    try {
+      if (status === 'cancelled') {
+        // Cancelled on our side, so the customer gets everything back
+        await cancelBooking(booking.id, 'Cancelled by KonkanBliss', true);
+      } else {
+        const { error } = await supabase
+          .from('bookings')
+          .update({ status, updated_at: new Date().toISOString() })
+          .eq('id', booking.id);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Booking Updated",
+        description: `Booking marked as ${status}.`,
+      });
+      loadBookings();
+    } catch (error) {
+      console.error('Error updating booking:', error);
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  return (
+    <Card className="glass-card border-0 shadow-xl">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Bookings</CardTitle>
+          <CardDescription>Confirm, complete or cancel customer bookings</CardDescription>
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as BookingStatus | 'all')}>
+          <SelectTrigger className="w-[160px] rounded-xl">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All bookings</SelectItem>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="confirmed">Confirmed</SelectItem>
+            <SelectItem value="completed">Completed</SelectItem>
+            <SelectItem value="cancelled">Cancelled</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="animate-spin text-konkan-turquoise-500" size={32} />
+          </div>
+        ) : bookings.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No bookings to show.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Package</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>People</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {bookings.map(booking => {
+                const status = (booking.status || 'pending') as BookingStatus;
+                const packageId = booking.package_id || booking.tour_package_id;
+                return (
+                  <TableRow key={booking.id}>
+                    <TableCell>{fromDateColumn(booking.booking_date).toLocaleDateString()}</TableCell>
+                    <TableCell>{names[packageId] || 'Unknown package'}</TableCell>
+                    <TableCell>
+                      <p>{names[booking.user_id] || booking.contact_email || 'Unknown'}</p>
+                      {booking.contact_phone && <p className="text-xs text-gray-500">{booking.contact_phone}</p>}
+                    </TableCell>
+                    <TableCell>{booking.number_of_people}</TableCell>
+                    <TableCell>
+                      {booking.total_amount !== null ? formatRupees(Number(booking.total_amount)) : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <BookingStatusBadge status={status} />
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {status === 'pending' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={updating === booking.id}
+                          onClick={() => setStatus(booking, 'confirmed')}
+                          className="rounded-xl mr-2"
+                        >
+                          <Check size={14} className="mr-1" />
+                          Confirm
+                        </Button>
+                      )}
+                      {status === 'confirmed' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={updating === booking.id}
+                          onClick={() => setStatus(booking, 'completed')}
+                          className="rounded-xl mr-2"
+                        >
+                          <CheckCheck size={14} className="mr-1" />
+                          Complete
+                        </Button>
+                      )}
+                      {(status === 'pending' || status === 'confirmed') && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={updating === booking.id}
+                          onClick={() => setStatus(booking, 'cancelled')}
+                          className="text-red-600 hover:bg-red-50 rounded-xl"
+                        >
+                          <X size={14} className="mr-1" />
+                          Cancel
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
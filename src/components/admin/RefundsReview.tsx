@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatRupees } from "@/lib/bookings";
+import { issueRefund } from "@/lib/payments";
+
+type Refund = Tables<'refunds'>;
+type RefundStatus = 'pending' | 'processing' | 'processed' | 'failed';
+
+const statusColors: Record<RefundStatus, string> = {
+  pending: 'bg-konkan-orange-500',
+  processing: 'bg-konkan-turquoise-500',
+  processed: 'bg-konkan-forest-500',
+  failed: 'bg-red-500'
+};
+
+export const RefundsReview = () => {
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [customers, setCustomers] = useState<Record<string, string>>({});
+  const [statusFilter, setStatusFilter] = useState<RefundStatus | 'all'>('pending');
+  const [loading, setLoading] = useState(true);
+  const [issuing, setIssuing] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadRefunds = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('refunds')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (statusFilter !== 'all') query = query.eq('status', statusFilter);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setRefunds(data || []);
+
+      const userIds = [...new Set((data || []).map(refund => refund.user_id))];
+      if (userIds.length > 0) {
+        const { data: profiles } = await supabase.from('profiles').select('id, full_name').in('id', userIds);
+        setCustomers(Object.fromEntries((profiles || []).map(profile => [profile.id, profile.full_name || profile.id.slice(0, 8)])));
+      }
+    } catch (error) {
+      console.error('Error fetching refunds:', error);
+      toast({
+        title: "Load Failed",
+        description: "Could not load refunds.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, toast]);
+
+  useEffect(() => {
+    loadRefunds();
+  }, [loadRefunds]);
+
+  const handleIssue = async (refund: Refund) => {
+    setIssuing(refund.id);
+    try {
+      await issueRefund(refund.id);
+      toast({
+        title: "Refund Issued",
+        description: `${formatRupees(refund.amount / 100)} is on its way back to the customer.`,
+      });
+    } catch (error) {
+      console.error('Error issuing refund:', error);
+      toast({
+        title: "Refund Failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIssuing(null);
+      loadRefunds();
+    }
+  };
+
+  return (
+    <Card className="glass-card border-0 shadow-xl">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Refunds</CardTitle>
+          <CardDescription>Refunds owed for cancelled bookings, worked out from each package's cancellation policy</CardDescription>
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as RefundStatus | 'all')}>
+          <SelectTrigger className="w-[160px] rounded-xl">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All refunds</SelectItem>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="processing">Processing</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+            <SelectItem value="processed">Processed</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="animate-spin text-konkan-turquoise-500" size={32} />
+          </div>
+        ) : refunds.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No refunds to show.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Requested</TableHead>
+                <TableHead>Booking</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {refunds.map(refund => {
+                const status = refund.status as RefundStatus;
+                return (
+                  <TableRow key={refund.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(refund.created_at).toLocaleDateString()}</TableCell>
+                    <TableCell className="font-mono text-xs">#{refund.booking_id.slice(0, 8).toUpperCase()}</TableCell>
+                    <TableCell>{customers[refund.user_id] || refund.user_id.slice(0, 8)}</TableCell>
+                    <TableCell>
+                      {formatRupees(refund.amount / 100)}
+                      <span className="text-xs text-gray-500 ml-1">({refund.refund_percent}%)</span>
+                    </TableCell>
+                    <TableCell className="max-w-[240px] truncate">{refund.reason || '—'}</TableCell>
+                    <TableCell>
+                      <Badge className={`${statusColors[status] || 'bg-gray-500'} text-white border-0 capitalize`}>
+                        {status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {(status === 'pending' || status === 'failed') && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={issuing === refund.id}
+                          onClick={() => handleIssue(refund)}
+                          className="rounded-xl"
+                        >
+                          {issuing === refund.id
+                            ? <Loader2 size={14} className="mr-1 animate-spin" />
+                            : <Undo2 size={14} className="mr-1" />}
+                          {status === 'failed' ? 'Retry' : 'Issue Refund'}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
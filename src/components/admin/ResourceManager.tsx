@@ -0,0 +1,330 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { Plus, Edit, Trash2, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { toColumns, toFormValues, type AdminField, type AdminResource, type FormValues } from "./resources";
+
+type Row = Record<string, unknown> & { id: string };
+
+// Select items cannot have an empty value, so "none" stands in for null
+const NONE = '__none__';
+
+const formatCell = (value: unknown) => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join(', ');
+  if (value === null || value === undefined) return '—';
+  return String(value);
+};
+
+interface FieldInputProps {
+  field: AdminField;
+  value: string | boolean;
+  references: Record<string, { id: string; title: string }[]>;
+  onChange: (value: string | boolean) => void;
+}
+
+const FieldInput = ({ field, value, references, onChange }: FieldInputProps) => {
+  const id = `admin-${field.name}`;
+
+  if (field.type === 'boolean') {
+    return (
+      <div className="flex items-center justify-between">
+        <Label htmlFor={id}>{field.label}</Label>
+        <Switch id={id} checked={value === true} onCheckedChange={onChange} />
+      </div>
+    );
+  }
+
+  const label = <Label htmlFor={id}>{field.label}{field.required && ' *'}</Label>;
+
+  if (field.type === 'select' || field.type === 'reference') {
+    const options = field.type === 'select'
+      ? (field.options ?? []).map(option => ({ value: option, label: option.replace('_', ' ') }))
+      : (references[field.references ?? ''] ?? []).map(option => ({ value: option.id, label: option.title }));
+
+    return (
+      <div className="space-y-2">
+        {label}
+        <Select value={String(value) || NONE} onValueChange={(selected) => onChange(selected === NONE ? '' : selected)}>
+          <SelectTrigger id={id} className="rounded-xl capitalize">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {!field.required && <SelectItem value={NONE}>None</SelectItem>}
+            {options.map(option => (
+              <SelectItem key={option.value} value={option.value} className="capitalize">
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {label}
+      {field.type === 'textarea' ? (
+        <Textarea id={id} value={String(value)} onChange={(e) => onChange(e.target.value)} className="rounded-xl" />
+      ) : (
+        <Input
+          id={id}
+          type={field.type === 'number' ? 'number' : 'text'}
+          step="any"
+          value={String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.type === 'list' ? 'Comma separated' : undefined}
+          className="rounded-xl"
+        />
+      )}
+    </div>
+  );
+};
+
+export const ResourceManager = ({ resource }: { resource: AdminResource }) => {
+  const [rows, setRows] = useState<Row[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [references, setReferences] = useState<Record<string, { id: string; title: string }[]>>({});
+  // undefined: dialog closed, null: creating a new row
+  const [editing, setEditing] = useState<Row | null | undefined>(undefined);
+  const [values, setValues] = useState<FormValues>({});
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState<Row | null>(null);
+  const { toast } = useToast();
+
+  const loadRows = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from(resource.table)
+        .select('*')
+        .order(resource.orderBy, { ascending: resource.orderBy !== 'created_at' });
+
+      if (error) throw error;
+      setRows((data || []) as unknown as Row[]);
+    } catch (error) {
+      console.error(`Error fetching ${resource.table}:`, error);
+      toast({
+        title: "Load Failed",
+        description: `Could not load ${resource.label.toLowerCase()}.`,
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [resource, toast]);
+
+  useEffect(() => {
+    loadRows();
+  }, [loadRows]);
+
+  // Options for fields that point at another table
+  useEffect(() => {
+    const tables = [...new Set(resource.fields.map(field => field.references).filter(Boolean))];
+    tables.forEach(async table => {
+      const { data, error } = await supabase.from(table).select('id, title').order('title');
+      if (error) {
+        console.error(`Error fetching ${table}:`, error);
+        return;
+      }
+      setReferences(current => ({ ...current, [table]: data || [] }));
+    });
+  }, [resource]);
+
+  const openEditor = (row: Row | null) => {
+    setEditing(row);
+    setValues(toFormValues(resource.fields, row));
+  };
+
+  const handleSave = async () => {
+    let columns: Record<string, unknown>;
+    try {
+      columns = toColumns(resource.fields, values);
+    } catch (error) {
+      toast({
+        title: "Check the Form",
+        description: error instanceof Error ? error.message : "Some fields are invalid.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = editing
+        ? await supabase.from(resource.table).update(columns as never).eq('id', editing.id)
+        : await supabase.from(resource.table).insert(columns as never);
+
+      if (error) throw error;
+
+      toast({
+        title: editing ? `${resource.singular} Updated` : `${resource.singular} Created`,
+        description: "Your changes have been saved.",
+      });
+      setEditing(undefined);
+      loadRows();
+    } catch (error) {
+      console.error(`Error saving ${resource.table}:`, error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      const { error } = await supabase.from(resource.table).delete().eq('id', deleting.id);
+      if (error) throw error;
+
+      toast({
+        title: `${resource.singular} Deleted`,
+        description: "The item has been removed.",
+      });
+      loadRows();
+    } catch (error) {
+      console.error(`Error deleting from ${resource.table}:`, error);
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <Card className="glass-card border-0 shadow-xl">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>{resource.label}</CardTitle>
+          <CardDescription>{rows.length} {rows.length === 1 ? 'item' : 'items'}</CardDescription>
+        </div>
+        <Button
+          onClick={() => openEditor(null)}
+          className="bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 text-white rounded-xl"
+        >
+          <Plus className="mr-2" size={16} />
+          Add {resource.singular}
+        </Button>
+      </CardHeader>
+
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="animate-spin text-konkan-turquoise-500" size={32} />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {resource.columns.map(column => (
+                  <TableHead key={column} className="capitalize">{column.replace(/_/g, ' ')}</TableHead>
+                ))}
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.id}>
+                  {resource.columns.map(column => (
+                    <TableCell key={column} className="max-w-[240px] truncate">
+                      {typeof row[column] === 'boolean'
+                        ? row[column] && <Badge className="bg-konkan-forest-500 text-white border-0">Yes</Badge>
+                        : formatCell(row[column])}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="outline" size="sm" onClick={() => openEditor(row)} className="rounded-xl mr-2">
+                      <Edit size={14} />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDeleting(row)}
+                      className="text-red-600 hover:bg-red-50 rounded-xl"
+                    >
+                      <Trash2 size={14} />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== undefined} onOpenChange={(open) => !open && setEditing(undefined)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${resource.singular}` : `New ${resource.singular}`}</DialogTitle>
+            <DialogDescription>Fields marked * are required.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {resource.fields.map(field => (
+              <FieldInput
+                key={field.name}
+                field={field}
+                value={values[field.name] ?? ''}
+                references={references}
+                onChange={(value) => setValues({ ...values, [field.name]: value })}
+              />
+            ))}
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="w-full bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 text-white rounded-xl"
+            >
+              {saving && <Loader2 className="mr-2 animate-spin" size={16} />}
+              Save {resource.singular}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this {resource.singular.toLowerCase()}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This cannot be undone. The deleted row stays visible in the audit log.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -0,0 +1,156 @@
+import type { Database } from "@/integrations/supabase/types";
+
+// Describes the catalogue tables the admin console can edit. ResourceManager
+// renders the table and the create/edit form from these definitions.
+
+export type AdminTable = 'packages' | 'tour_packages' | 'destinations' | 'package_images' | 'cancellation_policies';
+
+export type AdminFieldType = 'text' | 'textarea' | 'number' | 'list' | 'boolean' | 'select' | 'reference';
+
+export interface AdminField {
+  name: string;
+  label: string;
+  type: AdminFieldType;
+  required?: boolean;
+  // Choices for `select` fields
+  options?: readonly string[];
+  // Table whose rows a `reference` field points at, listed by title
+  references?: 'packages' | 'tour_packages' | 'cancellation_policies';
+}
+
+export interface AdminResource {
+  table: AdminTable;
+  label: string;
+  singular: string;
+  // Columns shown in the list, in order
+  columns: string[];
+  fields: AdminField[];
+  orderBy: string;
+}
+
+const seasons: readonly Database["public"]["Enums"]["package_season"][] = ['summer', 'monsoon', 'winter', 'year_round'];
+const themes: readonly Database["public"]["Enums"]["package_theme"][] = ['adventure', 'nature', 'heritage', 'beach', 'spiritual', 'family'];
+
+export const adminResources: AdminResource[] = [
+  {
+    table: 'packages',
+    label: 'Packages',
+    singular: 'Package',
+    columns: ['title', 'duration', 'price'],
+    orderBy: 'created_at',
+    fields: [
+      { name: 'title', label: 'Title', type: 'text', required: true },
+      { name: 'description', label: 'Description', type: 'textarea', required: true },
+      { name: 'duration', label: 'Duration', type: 'text', required: true },
+      { name: 'price', label: 'Price (₹)', type: 'number', required: true },
+      { name: 'image_url', label: 'Image URL', type: 'text' },
+      { name: 'highlights', label: 'Highlights', type: 'list' },
+      { name: 'places_included', label: 'Places Included', type: 'list' },
+      { name: 'cancellation_policy_id', label: 'Cancellation Policy', type: 'reference', references: 'cancellation_policies' }
+    ]
+  },
+  {
+    table: 'tour_packages',
+    label: 'Tour Packages',
+    singular: 'Tour Package',
+    columns: ['title', 'theme', 'season', 'price', 'is_featured'],
+    orderBy: 'created_at',
+    fields: [
+      { name: 'title', label: 'Title', type: 'text', required: true },
+      { name: 'description', label: 'Description', type: 'textarea', required: true },
+      { name: 'duration', label: 'Duration', type: 'text', required: true },
+      { name: 'price', label: 'Price (₹)', type: 'number', required: true },
+      { name: 'theme', label: 'Theme', type: 'select', options: themes, required: true },
+      { name: 'season', label: 'Season', type: 'select', options: seasons, required: true },
+      { name: 'destinations', label: 'Destinations', type: 'list', required: true },
+      { name: 'activities', label: 'Activities', type: 'list', required: true },
+      { name: 'attractions', label: 'Attractions', type: 'list' },
+      { name: 'images', label: 'Image URLs', type: 'list' },
+      { name: 'max_participants', label: 'Max Participants', type: 'number' },
+      { name: 'is_featured', label: 'Featured', type: 'boolean' },
+      { name: 'cancellation_policy_id', label: 'Cancellation Policy', type: 'reference', references: 'cancellation_policies' }
+    ]
+  },
+  {
+    table: 'destinations',
+    label: 'Destinations',
+    singular: 'Destination',
+    columns: ['name', 'category', 'latitude', 'longitude', 'featured'],
+    orderBy: 'name',
+    fields: [
+      { name: 'name', label: 'Name', type: 'text', required: true },
+      { name: 'description', label: 'Description', type: 'textarea' },
+      { name: 'category', label: 'Category', type: 'select', options: ['beach', 'heritage', 'nature', 'general'], required: true },
+      { name: 'latitude', label: 'Latitude', type: 'number' },
+      { name: 'longitude', label: 'Longitude', type: 'number' },
+      { name: 'image_url', label: 'Image URL', type: 'text' },
+      { name: 'featured', label: 'Featured', type: 'boolean' }
+    ]
+  },
+  {
+    table: 'package_images',
+    label: 'Package Images',
+    singular: 'Package Image',
+    columns: ['image_url', 'caption', 'is_primary', 'display_order'],
+    orderBy: 'display_order',
+    fields: [
+      { name: 'package_id', label: 'Package', type: 'reference', references: 'packages' },
+      { name: 'tour_package_id', label: 'Tour Package', type: 'reference', references: 'tour_packages' },
+      { name: 'image_url', label: 'Image URL', type: 'text', required: true },
+      { name: 'caption', label: 'Caption', type: 'text' },
+      { name: 'is_primary', label: 'Primary Image', type: 'boolean' },
+      { name: 'display_order', label: 'Display Order', type: 'number' }
+    ]
+  },
+  {
+    // Packages without a policy of their own use the default one
+    table: 'cancellation_policies',
+    label: 'Cancellation Policies',
+    singular: 'Cancellation Policy',
+    columns: ['title', 'full_refund_min_days', 'partial_refund_min_days', 'partial_refund_percent', 'is_default'],
+    orderBy: 'title',
+    fields: [
+      { name: 'title', label: 'Title', type: 'text', required: true },
+      { name: 'description', label: 'Description', type: 'textarea' },
+      { name: 'full_refund_min_days', label: 'Full Refund From (days before travel)', type: 'number', required: true },
+      { name: 'partial_refund_min_days', label: 'Partial Refund From (days before travel)', type: 'number', required: true },
+      { name: 'partial_refund_percent', label: 'Partial Refund (%)', type: 'number', required: true },
+      { name: 'is_default', label: 'Default Policy', type: 'boolean' }
+    ]
+  }
+];
+
+export type FormValues = Record<string, string | boolean>;
+
+// Row values as the form edits them: lists become comma separated text
+export const toFormValues = (fields: AdminField[], row: Record<string, unknown> | null): FormValues =>
+  Object.fromEntries(fields.map(field => {
+    const value = row?.[field.name];
+    if (field.type === 'boolean') return [field.name, value === true];
+    if (field.type === 'list') return [field.name, Array.isArray(value) ? value.join(', ') : ''];
+    return [field.name, value === null || value === undefined ? '' : String(value)];
+  }));
+
+// Turns form values back into column values. Throws with a readable message
+// when a required field is empty or a number does not parse.
+export const toColumns = (fields: AdminField[], values: FormValues): Record<string, unknown> =>
+  Object.fromEntries(fields.map(field => {
+    const value = values[field.name];
+    if (field.type === 'boolean') return [field.name, value === true];
+
+    const text = String(value ?? '').trim();
+    if (!text) {
+      if (field.required) throw new Error(`${field.label} is required.`);
+      return [field.name, field.type === 'list' ? [] : null];
+    }
+
+    if (field.type === 'number') {
+      const number = Number(text);
+      if (Number.isNaN(number)) throw new Error(`${field.label} must be a number.`);
+      return [field.name, number];
+    }
+    if (field.type === 'list') {
+      return [field.name, text.split(',').map(item => item.trim()).filter(item => item)];
+    }
+    return [field.name, text];
+  }));
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useState, type ReactNode } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext, type Profile } from "@/hooks/use-auth";
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  // Remembers which user the role was checked for, so a stale answer is never used
+  const [role, setRole] = useState<{ userId: string; isAdmin: boolean } | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
+
+  const user = session?.user ?? null;
+
+  const loadProfile = useCallback(async (userId: string) => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching profile:', error);
+      return;
+    }
+    setProfile(data);
+  }, []);
+
+  useEffect(() => {
+    // Subscribe first so a sign-in that completes while the session is being
+    // read (e.g. from an email link) is not missed
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+      setSessionLoading(false);
+    });
+
+    supabase.auth.getSession().then(({ data: { session: storedSession } }) => {
+      setSession(storedSession);
+      setSessionLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setProfile(null);
+      setRole(null);
+      return;
+    }
+
+    loadProfile(userId);
+    supabase.rpc('is_admin', { user_id: userId }).then(({ data, error }) => {
+      if (error) console.error('Error checking admin role:', error);
+      setRole({ userId, isAdmin: data === true });
+    });
+  }, [userId, loadProfile]);
+
+  const refreshProfile = useCallback(async () => {
+    if (user) await loadProfile(user.id);
+  }, [user, loadProfile]);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  }, []);
+
+  const roleLoaded = !userId || role?.userId === userId;
+  const isAdmin = roleLoaded && role?.isAdmin === true;
+  const loading = sessionLoading || !roleLoaded;
+
+  return (
+    <AuthContext.Provider value={{ user, session, profile, isAdmin, loading, refreshProfile, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -0,0 +1,31 @@
+import { createContext, useContext } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Profile = Tables<'profiles'>;
+
+export interface AuthContextValue {
+  user: User | null;
+  session: Session | null;
+  profile: Profile | null;
+  // Whether the user has the admin role (see is_admin in the database)
+  isAdmin: boolean;
+  // True until the stored session and the user's role have been read
+  loading: boolean;
+  refreshProfile: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
+
+// Name to greet the user with: their profile name, falling back to how they signed in
+export const displayName = (user: User | null, profile: Profile | null) =>
+  profile?.full_name || (user?.user_metadata?.full_name as string | undefined) || user?.email || user?.phone || '';
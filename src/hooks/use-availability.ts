@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from "react";
+import { addDays } from "date-fns";
+import { fetchSeatsLeft, toDateColumn, type Bookable } from "@/lib/bookings";
+
+// How far ahead departures can be booked
+const BOOKING_WINDOW_DAYS = 365;
+
+// Per-date availability for a tour package with a capacity. Packages without
+// one are never full, so `seatsLeft` returns null for them.
+export const useAvailability = (item: Pick<Bookable, 'type' | 'id' | 'maxParticipants'> | null) => {
+  const [seatsLeftByDate, setSeatsLeftByDate] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(false);
+
+  const tourPackageId = item?.type === 'tour_package' && item.maxParticipants ? item.id : null;
+  const capacity = item?.maxParticipants ?? null;
+
+  const refresh = useCallback(async () => {
+    if (!tourPackageId) {
+      setSeatsLeftByDate({});
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const today = new Date();
+      setSeatsLeftByDate(await fetchSeatsLeft(tourPackageId, today, addDays(today, BOOKING_WINDOW_DAYS)));
+    } catch (error) {
+      console.error('Error fetching availability:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [tourPackageId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const seatsLeft = useCallback((date: Date) => {
+    if (!tourPackageId || !capacity) return null;
+    return seatsLeftByDate[toDateColumn(date)] ?? capacity;
+  }, [tourPackageId, capacity, seatsLeftByDate]);
+
+  const isFull = useCallback((date: Date) => seatsLeft(date) === 0, [seatsLeft]);
+
+  return { seatsLeft, isFull, loading, refresh, tracksCapacity: tourPackageId !== null };
+};
@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { displayName, useAuth } from "@/hooks/use-auth";
+
+export interface PresentUser {
+  userId: string;
+  name: string;
+}
+
+// Who else has the itinerary open right now, via Supabase realtime presence.
+// Leaves out the signed-in user.
+export function useItineraryPresence(itineraryId: string | undefined): PresentUser[] {
+  const { user, profile } = useAuth();
+  const [present, setPresent] = useState<PresentUser[]>([]);
+  const userId = user?.id;
+  const name = displayName(user, profile) || 'A co-traveller';
+
+  useEffect(() => {
+    if (!itineraryId || !userId) return;
+
+    const channel = supabase.channel(`itinerary-presence-${itineraryId}`, {
+      config: { presence: { key: userId } }
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresentUser>();
+        setPresent(
+          Object.entries(state)
+            .filter(([key]) => key !== userId)
+            .map(([key, entries]) => ({ userId: key, name: entries[0]?.name || 'A co-traveller' }))
+        );
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') await channel.track({ userId, name });
+      });
+
+    return () => {
+      setPresent([]);
+      supabase.removeChannel(channel);
+    };
+  }, [itineraryId, userId, name]);
+
+  return present;
+}
@@ -0,0 +1,34 @@
+import { useEffect } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { flushItineraryQueue } from "@/lib/itineraryStore";
+
+// Writes itineraries saved while offline as soon as the app starts, the
+// browser reconnects or their owner signs in. Must be used under AuthProvider.
+export function useItineraryQueue() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const flush = async () => {
+      try {
+        const written = await flushItineraryQueue();
+        if (written > 0) {
+          toast({
+            title: "Itineraries Synced",
+            description: `${written} ${written === 1 ? 'itinerary' : 'itineraries'} saved while offline ${written === 1 ? 'is' : 'are'} now in your dashboard.`,
+          });
+        }
+      } catch (error) {
+        console.error('Error syncing offline itineraries:', error);
+      }
+    };
+
+    flush();
+    window.addEventListener('online', flush);
+    return () => window.removeEventListener('online', flush);
+  }, [toast, userId]);
+}
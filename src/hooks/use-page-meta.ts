@@ -0,0 +1,60 @@
+import { useEffect } from "react";
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  image?: string;
+}
+
+// Points the document title and Open Graph / Twitter tags at the current page,
+// putting back the site-wide values from index.html on unmount. Link previews
+// that render JavaScript pick these up.
+export const usePageMeta = (meta: PageMeta | null) => {
+  const title = meta?.title;
+  const description = meta?.description;
+  const image = meta?.image;
+
+  useEffect(() => {
+    if (!title || !description) return;
+
+    const tags: Record<string, string | undefined> = {
+      'meta[name="description"]': description,
+      'meta[property="og:title"]': title,
+      'meta[property="og:description"]': description,
+      'meta[property="og:image"]': image,
+      'meta[property="og:url"]': window.location.href,
+      'meta[name="twitter:title"]': title,
+      'meta[name="twitter:description"]': description,
+      'meta[name="twitter:image"]': image
+    };
+
+    const previousTitle = document.title;
+    const restore: (() => void)[] = [];
+
+    Object.entries(tags).forEach(([selector, content]) => {
+      if (!content) return;
+
+      let tag = document.head.querySelector<HTMLMetaElement>(selector);
+      if (!tag) {
+        // og:url isn't in index.html, so it is added and removed again
+        tag = document.createElement('meta');
+        const [, attribute, value] = selector.match(/\[(\w+)="(.+)"\]/)!;
+        tag.setAttribute(attribute, value);
+        document.head.appendChild(tag);
+        const added = tag;
+        restore.push(() => added.remove());
+      } else {
+        const existing = tag;
+        const previous = existing.content;
+        restore.push(() => { existing.content = previous; });
+      }
+      tag.content = content;
+    });
+    document.title = title;
+
+    return () => {
+      document.title = previousTitle;
+      restore.forEach(undo => undo());
+    };
+  }, [title, description, image]);
+};
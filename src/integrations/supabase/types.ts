@@ -9,6 +9,42 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          changed_fields: string[] | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
       blogs: {
         Row: {
           author: string
@@ -39,6 +75,90 @@ export type Database = {
         }
         Relationships: []
       }
+      bookings: {
+        Row: {
+          booking_date: string
+          contact_email: string | null
+          contact_phone: string | null
+          created_at: string | null
+          id: string
+          number_of_people: number
+          package_id: string | null
+          special_requests: string | null
+          status: string | null
+          total_amount: number | null
+          tour_package_id: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          booking_date: string
+          contact_email?: string | null
+          contact_phone?: string | null
+          created_at?: string | null
+          id?: string
+          number_of_people?: number
+          package_id?: string | null
+          special_requests?: string | null
+          status?: string | null
+          total_amount?: number | null
+          tour_package_id?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          booking_date?: string
+          contact_email?: string | null
+          contact_phone?: string | null
+          created_at?: string | null
+          id?: string
+          number_of_people?: number
+          package_id?: string | null
+          special_requests?: string | null
+          status?: string | null
+          total_amount?: number | null
+          tour_package_id?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      cancellation_policies: {
+        Row: {
+          created_at: string
+          description: string | null
+          full_refund_min_days: number
+          id: string
+          is_default: boolean
+          partial_refund_min_days: number
+          partial_refund_percent: number
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          full_refund_min_days: number
+          id?: string
+          is_default?: boolean
+          partial_refund_min_days: number
+          partial_refund_percent?: number
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          full_refund_min_days?: number
+          id?: string
+          is_default?: boolean
+          partial_refund_min_days?: number
+          partial_refund_percent?: number
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       chat_logs: {
         Row: {
           created_at: string
@@ -93,44 +213,444 @@ export type Database = {
         }
         Relationships: []
       }
+      destinations: {
+        Row: {
+          category: string | null
+          created_at: string | null
+          description: string | null
+          featured: boolean | null
+          id: string
+          image_url: string | null
+          latitude: number | null
+          longitude: number | null
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string | null
+          description?: string | null
+          featured?: boolean | null
+          id?: string
+          image_url?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          category?: string | null
+          created_at?: string | null
+          description?: string | null
+          featured?: boolean | null
+          id?: string
+          image_url?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      experiences: {
+        Row: {
+          created_at: string
+          description: string | null
+          experience_date: string
+          id: string
+          legacy_id: string | null
+          location: string
+          photos: string[] | null
+          rating: number
+          revision: number
+          tags: string[] | null
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          experience_date?: string
+          id?: string
+          legacy_id?: string | null
+          location: string
+          photos?: string[] | null
+          rating?: number
+          revision?: number
+          tags?: string[] | null
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          experience_date?: string
+          id?: string
+          legacy_id?: string | null
+          location?: string
+          photos?: string[] | null
+          rating?: number
+          revision?: number
+          tags?: string[] | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          booking_id: string
+          cgst_amount: number
+          gst_rate: number
+          id: string
+          invoice_number: string
+          issued_at: string
+          place_of_supply: string
+          sac_code: string
+          sgst_amount: number
+          taxable_amount: number
+          total_amount: number
+          user_id: string
+        }
+        Insert: {
+          booking_id: string
+          cgst_amount: number
+          gst_rate: number
+          id?: string
+          invoice_number: string
+          issued_at?: string
+          place_of_supply?: string
+          sac_code?: string
+          sgst_amount: number
+          taxable_amount: number
+          total_amount: number
+          user_id: string
+        }
+        Update: {
+          booking_id?: string
+          cgst_amount?: number
+          gst_rate?: number
+          id?: string
+          invoice_number?: string
+          issued_at?: string
+          place_of_supply?: string
+          sac_code?: string
+          sgst_amount?: number
+          taxable_amount?: number
+          total_amount?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       itineraries: {
         Row: {
           budget: string
           created_at: string
           duration: string
-          generated_plan: string
+          generated_plan: Json
           group_type: string
           id: string
           interests: string[]
+          legacy_id: string | null
+          plan_version: number
+          revision: number
+          share_slug: string | null
+          shared_at: string | null
+          start_date: string | null
+          status: string
           title: string
+          updated_at: string
           user_id: string
         }
         Insert: {
           budget: string
           created_at?: string
           duration: string
-          generated_plan: string
+          generated_plan: Json
           group_type: string
           id?: string
           interests: string[]
+          legacy_id?: string | null
+          plan_version?: number
+          revision?: number
+          share_slug?: string | null
+          shared_at?: string | null
+          start_date?: string | null
+          status?: string
           title: string
+          updated_at?: string
           user_id: string
         }
         Update: {
           budget?: string
           created_at?: string
           duration?: string
-          generated_plan?: string
+          generated_plan?: Json
           group_type?: string
           id?: string
           interests?: string[]
+          legacy_id?: string | null
+          plan_version?: number
+          revision?: number
+          share_slug?: string | null
+          shared_at?: string | null
+          start_date?: string | null
+          status?: string
           title?: string
+          updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      itinerary_comments: {
+        Row: {
+          activity_name: string
+          author_name: string
+          body: string
+          created_at: string
+          id: string
+          itinerary_id: string
+          user_id: string
+        }
+        Insert: {
+          activity_name: string
+          author_name?: string
+          body: string
+          created_at?: string
+          id?: string
+          itinerary_id: string
+          user_id?: string
+        }
+        Update: {
+          activity_name?: string
+          author_name?: string
+          body?: string
+          created_at?: string
+          id?: string
+          itinerary_id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      itinerary_members: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          itinerary_id: string
+          role: string
+          user_id: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          itinerary_id: string
+          role?: string
+          user_id?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          itinerary_id?: string
+          role?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      itinerary_poll_options: {
+        Row: {
+          created_at: string
+          destination_id: string | null
+          id: string
+          itinerary_id: string
+          kind: string
+          label: string
+          poll_id: string
+          proposed_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          destination_id?: string | null
+          id?: string
+          itinerary_id: string
+          kind?: string
+          label: string
+          poll_id: string
+          proposed_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          destination_id?: string | null
+          id?: string
+          itinerary_id?: string
+          kind?: string
+          label?: string
+          poll_id?: string
+          proposed_by?: string | null
+        }
+        Relationships: []
+      }
+      itinerary_poll_votes: {
+        Row: {
+          created_at: string
+          itinerary_id: string
+          option_id: string
+          poll_id: string
+          user_id: string
+          value: number
+        }
+        Insert: {
+          created_at?: string
+          itinerary_id: string
+          option_id: string
+          poll_id: string
+          user_id?: string
+          value: number
+        }
+        Update: {
+          created_at?: string
+          itinerary_id?: string
+          option_id?: string
+          poll_id?: string
+          user_id?: string
+          value?: number
+        }
+        Relationships: []
+      }
+      itinerary_polls: {
+        Row: {
+          closes_at: string | null
+          created_at: string
+          created_by: string | null
+          day_index: number | null
+          id: string
+          itinerary_id: string
+          locked_at: string | null
+          question: string
+        }
+        Insert: {
+          closes_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          day_index?: number | null
+          id?: string
+          itinerary_id: string
+          locked_at?: string | null
+          question: string
+        }
+        Update: {
+          closes_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          day_index?: number | null
+          id?: string
+          itinerary_id?: string
+          locked_at?: string | null
+          question?: string
+        }
+        Relationships: []
+      }
+      itinerary_versions: {
+        Row: {
+          budget: string
+          changed_by: string | null
+          changed_fields: string[] | null
+          created_at: string
+          duration: string
+          generated_plan: Json
+          group_type: string
+          id: string
+          interests: string[]
+          itinerary_id: string
+          plan_version: number
+          revision: number
+          start_date: string | null
+          status: string
+          title: string
+        }
+        Insert: {
+          budget: string
+          changed_by?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          duration: string
+          generated_plan: Json
+          group_type: string
+          id?: string
+          interests?: string[]
+          itinerary_id: string
+          plan_version: number
+          revision: number
+          start_date?: string | null
+          status: string
+          title: string
+        }
+        Update: {
+          budget?: string
+          changed_by?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          duration?: string
+          generated_plan?: Json
+          group_type?: string
+          id?: string
+          interests?: string[]
+          itinerary_id?: string
+          plan_version?: number
+          revision?: number
+          start_date?: string | null
+          status?: string
+          title?: string
+        }
+        Relationships: []
+      }
+      package_images: {
+        Row: {
+          caption: string | null
+          created_at: string | null
+          display_order: number | null
+          id: string
+          image_url: string
+          is_primary: boolean | null
+          package_id: string | null
+          tour_package_id: string | null
+        }
+        Insert: {
+          caption?: string | null
+          created_at?: string | null
+          display_order?: number | null
+          id?: string
+          image_url: string
+          is_primary?: boolean | null
+          package_id?: string | null
+          tour_package_id?: string | null
+        }
+        Update: {
+          caption?: string | null
+          created_at?: string | null
+          display_order?: number | null
+          id?: string
+          image_url?: string
+          is_primary?: boolean | null
+          package_id?: string | null
+          tour_package_id?: string | null
+        }
+        Relationships: []
+      }
       packages: {
         Row: {
+          cancellation_policy_id: string | null
           created_at: string
           description: string
           duration: string
@@ -142,6 +662,7 @@ export type Database = {
           title: string
         }
         Insert: {
+          cancellation_policy_id?: string | null
           created_at?: string
           description: string
           duration: string
@@ -153,6 +674,7 @@ export type Database = {
           title: string
         }
         Update: {
+          cancellation_policy_id?: string | null
           created_at?: string
           description?: string
           duration?: string
@@ -165,6 +687,51 @@ export type Database = {
         }
         Relationships: []
       }
+      payments: {
+        Row: {
+          amount: number
+          booking_id: string
+          created_at: string
+          currency: string
+          failure_reason: string | null
+          gateway: string
+          gateway_order_id: string
+          gateway_payment_id: string | null
+          id: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          booking_id: string
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          gateway: string
+          gateway_order_id: string
+          gateway_payment_id?: string | null
+          id?: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          booking_id?: string
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          gateway?: string
+          gateway_order_id?: string
+          gateway_payment_id?: string | null
+          id?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -189,10 +756,59 @@ export type Database = {
         }
         Relationships: []
       }
+      refunds: {
+        Row: {
+          amount: number
+          booking_id: string
+          created_at: string
+          gateway_refund_id: string | null
+          id: string
+          payment_id: string
+          processed_at: string | null
+          processed_by: string | null
+          reason: string | null
+          refund_percent: number
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          booking_id: string
+          created_at?: string
+          gateway_refund_id?: string | null
+          id?: string
+          payment_id: string
+          processed_at?: string | null
+          processed_by?: string | null
+          reason?: string | null
+          refund_percent: number
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          booking_id?: string
+          created_at?: string
+          gateway_refund_id?: string | null
+          id?: string
+          payment_id?: string
+          processed_at?: string | null
+          processed_by?: string | null
+          reason?: string | null
+          refund_percent?: number
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       tour_packages: {
         Row: {
           activities: string[]
           attractions: string[] | null
+          cancellation_policy_id: string | null
           coordinates: Json | null
           created_at: string
           created_by: string | null
@@ -213,6 +829,7 @@ export type Database = {
         Insert: {
           activities: string[]
           attractions?: string[] | null
+          cancellation_policy_id?: string | null
           coordinates?: Json | null
           created_at?: string
           created_by?: string | null
@@ -233,6 +850,7 @@ export type Database = {
         Update: {
           activities?: string[]
           attractions?: string[] | null
+          cancellation_policy_id?: string | null
           coordinates?: Json | null
           created_at?: string
           created_by?: string | null
@@ -252,6 +870,72 @@ export type Database = {
         }
         Relationships: []
       }
+      trip_expenses: {
+        Row: {
+          activity_name: string | null
+          amount: number
+          category: string
+          created_at: string
+          created_by: string | null
+          description: string
+          id: string
+          itinerary_id: string
+          paid_by: string
+          spent_on: string | null
+          split_among: string[]
+          updated_at: string
+        }
+        Insert: {
+          activity_name?: string | null
+          amount: number
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          description: string
+          id?: string
+          itinerary_id: string
+          paid_by: string
+          spent_on?: string | null
+          split_among: string[]
+          updated_at?: string
+        }
+        Update: {
+          activity_name?: string | null
+          amount?: number
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          id?: string
+          itinerary_id?: string
+          paid_by?: string
+          spent_on?: string | null
+          split_among?: string[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      trip_participants: {
+        Row: {
+          created_at: string
+          id: string
+          itinerary_id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          itinerary_id: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          itinerary_id?: string
+          name?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -278,10 +962,72 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_itinerary_invites: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      booking_cancellation_quote: {
+        Args: { booking_id: string }
+        Returns: {
+          policy_title: string | null
+          days_before: number
+          refund_percent: number
+          paid_amount: number
+          refund_amount: number
+        }[]
+      }
+      can_edit_itinerary: {
+        Args: { itinerary_id: string }
+        Returns: boolean
+      }
+      can_view_itinerary: {
+        Args: { itinerary_id: string }
+        Returns: boolean
+      }
+      cancel_booking: {
+        Args: { booking_id: string; reason?: string; full_refund?: boolean }
+        Returns: {
+          refund_percent: number
+          refund_amount: number
+        }[]
+      }
       is_admin: {
         Args: { user_id: string }
         Returns: boolean
       }
+      poll_is_open: {
+        Args: { poll_id: string }
+        Returns: boolean
+      }
+      revoke_itinerary_share: {
+        Args: { itinerary_id: string }
+        Returns: undefined
+      }
+      share_itinerary: {
+        Args: { itinerary_id: string }
+        Returns: string
+      }
+      shared_itinerary: {
+        Args: { slug: string }
+        Returns: {
+          title: string
+          duration: string
+          budget: string
+          group_type: string
+          interests: string[]
+          generated_plan: Json
+          plan_version: number
+          updated_at: string
+        }[]
+      }
+      tour_package_availability: {
+        Args: { tour_package_id: string; from_date: string; to_date: string }
+        Returns: {
+          booking_date: string
+          seats_taken: number
+          seats_left: number
+        }[]
+      }
     }
     Enums: {
       package_season: "summer" | "monsoon" | "winter" | "year_round"
@@ -0,0 +1,243 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+// Bookings can be made for either a `packages` row or a `tour_packages` row;
+// the bookings table has one foreign key column for each.
+
+export type BookableType = 'package' | 'tour_package';
+
+export type BookingStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed';
+
+export interface Bookable {
+  type: BookableType;
+  id: string;
+  title: string;
+  description: string;
+  duration: string;
+  // Price per person in rupees
+  price: number;
+  imageUrl: string | null;
+  maxParticipants: number | null;
+}
+
+export interface Booking {
+  id: string;
+  item: Pick<Bookable, 'type' | 'id' | 'title'>;
+  bookingDate: Date;
+  numberOfPeople: number;
+  totalAmount: number;
+  status: BookingStatus;
+  specialRequests: string | null;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  createdAt: Date;
+}
+
+export interface BookingInput {
+  item: Bookable;
+  bookingDate: Date;
+  numberOfPeople: number;
+  contactEmail: string;
+  contactPhone: string;
+  specialRequests?: string;
+}
+
+export const MAX_PARTY_SIZE = 20;
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  cancelled: 'Cancelled',
+  completed: 'Completed'
+};
+
+// uuids only; the demo packages in ExploreSection use short ids and can't be booked
+export const isBookableId = (id: string) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
+
+export const calculateTotal = (pricePerPerson: number, numberOfPeople: number) =>
+  Math.round(pricePerPerson * numberOfPeople * 100) / 100;
+
+// Dates are stored without a time zone, so build the column from local parts
+export const toDateColumn = (date: Date) =>
+  [date.getFullYear(), String(date.getMonth() + 1).padStart(2, '0'), String(date.getDate()).padStart(2, '0')].join('-');
+
+export const fromDateColumn = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const formatRupees = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+export const fetchBookable = async (type: BookableType, id: string): Promise<Bookable | null> => {
+  if (type === 'package') {
+    const { data, error } = await supabase.from('packages').select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data && {
+      type,
+      id: data.id,
+      title: data.title,
+      description: data.description,
+      duration: data.duration,
+      price: Number(data.price),
+      imageUrl: data.image_url,
+      maxParticipants: null
+    };
+  }
+
+  const { data, error } = await supabase.from('tour_packages').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data && {
+    type,
+    id: data.id,
+    title: data.title,
+    description: data.description,
+    duration: data.duration,
+    price: Number(data.price),
+    imageUrl: data.images?.[0] ?? null,
+    maxParticipants: data.max_participants
+  };
+};
+
+const fromRow = (row: Tables<'bookings'>, titles: Record<string, string>): Booking => {
+  const type: BookableType = row.package_id ? 'package' : 'tour_package';
+  const itemId = row.package_id ?? row.tour_package_id;
+  return {
+    id: row.id,
+    item: { type, id: itemId, title: titles[itemId] ?? 'Package' },
+    bookingDate: fromDateColumn(row.booking_date),
+    numberOfPeople: row.number_of_people,
+    totalAmount: Number(row.total_amount ?? 0),
+    status: (row.status || 'pending') as BookingStatus,
+    specialRequests: row.special_requests,
+    contactEmail: row.contact_email,
+    contactPhone: row.contact_phone,
+    createdAt: new Date(row.created_at)
+  };
+};
+
+const loadTitles = async (rows: Tables<'bookings'>[]) => {
+  const packageIds = rows.map(row => row.package_id).filter(Boolean);
+  const tourPackageIds = rows.map(row => row.tour_package_id).filter(Boolean);
+
+  const [packages, tourPackages] = await Promise.all([
+    packageIds.length > 0 ? supabase.from('packages').select('id, title').in('id', packageIds) : { data: [] },
+    tourPackageIds.length > 0 ? supabase.from('tour_packages').select('id, title').in('id', tourPackageIds) : { data: [] }
+  ]);
+
+  return Object.fromEntries(
+    [...(packages.data || []), ...(tourPackages.data || [])].map(item => [item.id, item.title])
+  );
+};
+
+export const createBooking = async (userId: string, input: BookingInput): Promise<Booking> => {
+  const { data, error } = await supabase
+    .from('bookings')
+    .insert({
+      user_id: userId,
+      package_id: input.item.type === 'package' ? input.item.id : null,
+      tour_package_id: input.item.type === 'tour_package' ? input.item.id : null,
+      booking_date: toDateColumn(input.bookingDate),
+      number_of_people: input.numberOfPeople,
+      total_amount: calculateTotal(input.item.price, input.numberOfPeople),
+      status: 'pending',
+      special_requests: input.specialRequests || null,
+      contact_email: input.contactEmail || null,
+      contact_phone: input.contactPhone || null
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return fromRow(data, { [input.item.id]: input.item.title });
+};
+
+export const fetchBooking = async (id: string): Promise<Booking | null> => {
+  const { data, error } = await supabase.from('bookings').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  return fromRow(data, await loadTitles([data]));
+};
+
+export const fetchMyBookings = async (userId: string): Promise<Booking[]> => {
+  const { data, error } = await supabase
+    .from('bookings')
+    .select('*')
+    .eq('user_id', userId)
+    .order('booking_date', { ascending: false });
+
+  if (error) throw error;
+  const titles = await loadTitles(data || []);
+  return (data || []).map(row => fromRow(row, titles));
+};
+
+// Seats left per date column, only for dates that already have confirmed
+// bookings; any date missing from the map has the package's full capacity
+export const fetchSeatsLeft = async (tourPackageId: string, from: Date, to: Date): Promise<Record<string, number>> => {
+  const { data, error } = await supabase.rpc('tour_package_availability', {
+    tour_package_id: tourPackageId,
+    from_date: toDateColumn(from),
+    to_date: toDateColumn(to)
+  });
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(day => [day.booking_date, day.seats_left]));
+};
+
+export interface CancellationQuote {
+  policyTitle: string | null;
+  daysBefore: number;
+  refundPercent: number;
+  // In rupees
+  paidAmount: number;
+  refundAmount: number;
+}
+
+// What cancelling now would refund, worked out by the database from the
+// package's cancellation policy and what has actually been paid
+export const fetchCancellationQuote = async (bookingId: string): Promise<CancellationQuote> => {
+  const { data, error } = await supabase.rpc('booking_cancellation_quote', { booking_id: bookingId });
+  if (error) throw error;
+
+  const [quote] = data;
+  return {
+    policyTitle: quote.policy_title,
+    daysBefore: quote.days_before,
+    refundPercent: quote.refund_percent,
+    paidAmount: quote.paid_amount / 100,
+    refundAmount: quote.refund_amount / 100
+  };
+};
+
+// Returns the refund in rupees; the refund itself is paid out by an admin
+export const cancelBooking = async (bookingId: string, reason?: string, fullRefund = false) => {
+  const { data, error } = await supabase.rpc('cancel_booking', {
+    booking_id: bookingId,
+    reason: reason || undefined,
+    full_refund: fullRefund
+  });
+  if (error) throw error;
+  return data[0].refund_amount / 100;
+};
+
+export const describeCancellationPolicy = (policy: Tables<'cancellation_policies'>) => [
+  `Full refund when cancelled ${policy.full_refund_min_days} or more days before travel`,
+  policy.partial_refund_percent > 0 && policy.partial_refund_min_days < policy.full_refund_min_days
+    ? `${policy.partial_refund_percent}% refund from ${policy.partial_refund_min_days} days before`
+    : null,
+  'no refund after that'
+].filter(Boolean).join('; ') + '.';
+
+export const fetchCancellationPolicy = async (item: Pick<Bookable, 'type' | 'id'>) => {
+  const { data: row } = item.type === 'package'
+    ? await supabase.from('packages').select('cancellation_policy_id').eq('id', item.id).maybeSingle()
+    : await supabase.from('tour_packages').select('cancellation_policy_id').eq('id', item.id).maybeSingle();
+
+  const query = supabase.from('cancellation_policies').select('*');
+  const { data, error } = await (row?.cancellation_policy_id
+    ? query.eq('id', row.cancellation_policy_id)
+    : query.eq('is_default', true)
+  ).maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
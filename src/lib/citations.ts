@@ -0,0 +1,2 @@
+// Shared with gemini-chat, which cites the records it answered from.
+export * from "../../supabase/functions/_shared/citations.ts";
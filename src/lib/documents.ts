@@ -0,0 +1,24 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Vouchers and GST invoices are rendered by the `booking-documents` edge
+// function, so what customers download matches what gets emailed to them.
+
+export type BookingDocument = 'voucher' | 'invoice';
+
+export const downloadBookingDocument = async (bookingId: string, document: BookingDocument) => {
+  const { data, error } = await supabase.functions.invoke('booking-documents', {
+    body: { bookingId, document }
+  });
+
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+
+  const url = URL.createObjectURL(new Blob([data], { type: 'application/pdf' }));
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = `konkanbliss-${document}-${bookingId.slice(0, 8).toUpperCase()}.pdf`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
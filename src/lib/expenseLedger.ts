@@ -0,0 +1,126 @@
+import type { Itinerary } from "@/lib/itinerary";
+import type { TripExpense, TripParticipant } from "@/lib/tripExpenses";
+
+// Working out who owes whom from a trip's expenses. Sums are done in paise so
+// shares always add up to exactly what was paid.
+
+export interface Balance {
+  participantId: string;
+  // In rupees
+  paid: number;
+  owed: number;
+  // Positive when the group owes this person
+  net: number;
+}
+
+export interface Settlement {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+export interface PlannedCost {
+  activityName: string;
+  dayIndex: number;
+  // For the whole group, like `spent`
+  estimated: number;
+  spent: number;
+}
+
+const toPaise = (rupees: number) => Math.round(rupees * 100);
+
+const toRupees = (paise: number) => paise / 100;
+
+export const activityKey = (name: string) => name.trim().toLowerCase();
+
+// Equal shares of an expense, in paise. Leftover paise go to the first people
+// in the split.
+export function splitShares(expense: Pick<TripExpense, 'amount' | 'splitAmong'>): Map<string, number> {
+  const shares = new Map<string, number>();
+  const people = [...new Set(expense.splitAmong)];
+  if (people.length === 0) return shares;
+
+  const total = toPaise(expense.amount);
+  const base = Math.floor(total / people.length);
+  people.forEach((id, index) => shares.set(id, base + (index < total - base * people.length ? 1 : 0)));
+  return shares;
+}
+
+// Everyone's paid and owed totals, in participant order. People who are no
+// longer participants but still appear in an expense are added at the end.
+export function computeBalances(participants: TripParticipant[], expenses: TripExpense[]): Balance[] {
+  const paid = new Map<string, number>(participants.map(person => [person.id, 0]));
+  const owed = new Map<string, number>(participants.map(person => [person.id, 0]));
+
+  expenses.forEach(expense => {
+    paid.set(expense.paidBy, (paid.get(expense.paidBy) ?? 0) + toPaise(expense.amount));
+    if (!owed.has(expense.paidBy)) owed.set(expense.paidBy, 0);
+    splitShares(expense).forEach((share, id) => {
+      owed.set(id, (owed.get(id) ?? 0) + share);
+      if (!paid.has(id)) paid.set(id, 0);
+    });
+  });
+
+  return [...paid.keys()].map(id => {
+    const paidPaise = paid.get(id) ?? 0;
+    const owedPaise = owed.get(id) ?? 0;
+    return {
+      participantId: id,
+      paid: toRupees(paidPaise),
+      owed: toRupees(owedPaise),
+      net: toRupees(paidPaise - owedPaise)
+    };
+  });
+}
+
+// The payments that settle everyone up. The biggest debtor pays the biggest
+// creditor until one of them is square, which needs at most one payment fewer
+// than there are people with a balance. (Finding the fewest possible payments
+// in general is NP-hard; this is the usual greedy answer.)
+export function settleUp(balances: Balance[]): Settlement[] {
+  const creditors = balances
+    .map(balance => ({ id: balance.participantId, paise: toPaise(balance.net) }))
+    .filter(entry => entry.paise > 0)
+    .sort((a, b) => b.paise - a.paise);
+  const debtors = balances
+    .map(balance => ({ id: balance.participantId, paise: -toPaise(balance.net) }))
+    .filter(entry => entry.paise > 0)
+    .sort((a, b) => b.paise - a.paise);
+
+  const settlements: Settlement[] = [];
+  let creditor = 0;
+  let debtor = 0;
+  while (creditor < creditors.length && debtor < debtors.length) {
+    const amount = Math.min(creditors[creditor].paise, debtors[debtor].paise);
+    settlements.push({ from: debtors[debtor].id, to: creditors[creditor].id, amount: toRupees(amount) });
+    creditors[creditor].paise -= amount;
+    debtors[debtor].paise -= amount;
+    if (creditors[creditor].paise === 0) creditor++;
+    if (debtors[debtor].paise === 0) debtor++;
+  }
+  return settlements;
+}
+
+// The itinerary's estimated activity costs next to what has been recorded
+// against each activity so far. Plans are priced per person, so estimates are
+// multiplied by the number of travellers.
+export function plannedCosts(itinerary: Itinerary, expenses: TripExpense[], travellers: number): PlannedCost[] {
+  const people = Math.max(1, travellers);
+  const spent = new Map<string, number>();
+  expenses.forEach(expense => {
+    if (!expense.activityName) return;
+    const key = activityKey(expense.activityName);
+    spent.set(key, (spent.get(key) ?? 0) + toPaise(expense.amount));
+  });
+
+  return itinerary.days.flatMap((day, dayIndex) =>
+    day.activities
+      .filter(activity => activity.cost > 0)
+      .map(activity => ({
+        activityName: activity.name,
+        dayIndex,
+        estimated: activity.cost * people,
+        spent: toRupees(spent.get(activityKey(activity.name)) ?? 0)
+      }))
+  );
+}
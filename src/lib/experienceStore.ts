@@ -0,0 +1,115 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { updateWithConflictResolution, type MergeResult, type Revisioned } from "@/lib/sync";
+
+// Travel experiences shared from the dashboard, stored in the `experiences` table.
+
+export interface Experience extends Revisioned {
+  id: string;
+  title: string;
+  location: string;
+  date: Date;
+  rating: number;
+  photos: string[];
+  description: string;
+  tags: string[];
+}
+
+export type ExperienceInput = Pick<Experience, 'title' | 'location' | 'rating' | 'description' | 'tags'> & {
+  date?: Date;
+  photos?: string[];
+};
+
+const toDateColumn = (date: Date) => date.toISOString().slice(0, 10);
+
+const fromRow = (row: Tables<'experiences'>): Experience => ({
+  id: row.id,
+  title: row.title,
+  location: row.location,
+  date: new Date(row.experience_date),
+  rating: row.rating,
+  photos: row.photos || [],
+  description: row.description || '',
+  tags: row.tags || [],
+  revision: row.revision,
+  updatedAt: new Date(row.updated_at)
+});
+
+const toColumns = (changes: Partial<Experience>) => {
+  const columns: Partial<Tables<'experiences'>> = {};
+  if (changes.title !== undefined) columns.title = changes.title;
+  if (changes.location !== undefined) columns.location = changes.location;
+  if (changes.date !== undefined) columns.experience_date = toDateColumn(changes.date);
+  if (changes.rating !== undefined) columns.rating = changes.rating;
+  if (changes.photos !== undefined) columns.photos = changes.photos;
+  if (changes.description !== undefined) columns.description = changes.description;
+  if (changes.tags !== undefined) columns.tags = changes.tags;
+  return columns;
+};
+
+export const fetchExperiences = async (userId: string): Promise<Experience[]> => {
+  const { data, error } = await supabase
+    .from('experiences')
+    .select('*')
+    .eq('user_id', userId)
+    .order('experience_date', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(fromRow);
+};
+
+export const createExperience = async (userId: string, input: ExperienceInput): Promise<Experience> => {
+  const { data, error } = await supabase
+    .from('experiences')
+    .insert({
+      user_id: userId,
+      title: input.title,
+      location: input.location,
+      experience_date: toDateColumn(input.date ?? new Date()),
+      rating: input.rating,
+      photos: input.photos ?? [],
+      description: input.description,
+      tags: input.tags
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return fromRow(data);
+};
+
+export const updateExperience = (
+  base: Experience,
+  changes: Partial<Experience>
+): Promise<MergeResult<Experience>> =>
+  updateWithConflictResolution({
+    base,
+    changes,
+    write: async (pending, expectedRevision) => {
+      const { data, error } = await supabase
+        .from('experiences')
+        .update(toColumns(pending))
+        .eq('id', base.id)
+        .eq('revision', expectedRevision)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? fromRow(data) : null;
+    },
+    fetchLatest: async () => {
+      const { data, error } = await supabase
+        .from('experiences')
+        .select('*')
+        .eq('id', base.id)
+        .single();
+
+      if (error) throw error;
+      return fromRow(data);
+    }
+  });
+
+export const deleteExperience = async (id: string) => {
+  const { error } = await supabase.from('experiences').delete().eq('id', id);
+  if (error) throw error;
+};
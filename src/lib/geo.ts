@@ -0,0 +1,3 @@
+// Shared with the itinerary planner so the editor's drive times match the
+// ones in generated plans.
+export * from "../../supabase/functions/_shared/geo.ts";
@@ -0,0 +1,3 @@
+// The itinerary model lives next to the edge functions so both sides of the
+// app validate plans with the same schema.
+export * from "../../supabase/functions/_shared/itinerary.ts";
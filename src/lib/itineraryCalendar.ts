@@ -0,0 +1,244 @@
+import { addDays, format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { parseActivityTime, type Itinerary, type ItineraryActivity } from "@/lib/itinerary";
+
+// Turns an itinerary into an iCalendar (.ics) file with one event per
+// activity, so a trip can be imported into phone calendars.
+//
+// Activities only say "9:00 AM - 12:00 PM", so the traveller picks the date of
+// day 1 and each day follows on. Times are Konkan (IST) times wherever the
+// traveller's phone is. Every event's UID is derived from the itinerary, the
+// day and the activity's destination (or name), and SEQUENCE from the
+// itinerary's revision, so importing a re-export of an edited plan updates
+// the events already in the calendar instead of adding copies. Each export
+// is remembered in this browser, and activities removed since the last one
+// are sent as cancelled so they drop out of the calendar too.
+
+export interface CalendarExportOptions {
+  title: string;
+  startDate: Date;
+  // Stable id for the trip, normally the saved itinerary's id
+  calendarId: string;
+  // Higher numbers replace older exports of the same trip
+  sequence?: number;
+}
+
+// What an earlier export put in the calendar, enough to cancel it later
+interface ExportedEvent {
+  uid: string;
+  summary: string;
+  // DTSTART and DTEND lines as exported
+  times: string[];
+}
+
+interface Location {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+const TIME_ZONE = 'Asia/Kolkata';
+
+const EXPORTS_KEY_PREFIX = 'konkanbliss-calendar-export-';
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines may be at most 75 octets; longer ones continue on lines
+// starting with a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let length = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (length + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      length = 0;
+    }
+    current += char;
+    length += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const localDateTime = (date: Date, minutes: number) =>
+  `${format(date, 'yyyyMMdd')}T${String(Math.floor(minutes / 60)).padStart(2, '0')}${String(minutes % 60).padStart(2, '0')}00`;
+
+const utcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+// Stays the same when activities are added, removed or reordered around it
+const activityKey = (activity: ItineraryActivity) =>
+  (activity.destinationId ?? nameKey(activity.name)).replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'activity';
+
+const readExportedEvents = (calendarId: string): ExportedEvent[] => {
+  try {
+    return JSON.parse(localStorage.getItem(EXPORTS_KEY_PREFIX + calendarId) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeExportedEvents = (calendarId: string, events: ExportedEvent[]) => {
+  localStorage.setItem(EXPORTS_KEY_PREFIX + calendarId, JSON.stringify(events));
+};
+
+// Coordinates for activities that don't carry their own, from the
+// destinations they were planned from
+const fetchDestinationLocations = async (itinerary: Itinerary) => {
+  const needsLookup = itinerary.days.some(day =>
+    day.activities.some(activity => activity.latitude === undefined || activity.longitude === undefined)
+  );
+  if (!needsLookup) return { byId: new Map<string, Location>(), byName: new Map<string, Location>() };
+
+  const { data, error } = await supabase
+    .from('destinations')
+    .select('id, name, latitude, longitude')
+    .not('latitude', 'is', null)
+    .not('longitude', 'is', null);
+
+  if (error) throw error;
+
+  const byId = new Map<string, Location>();
+  const byName = new Map<string, Location>();
+  (data || []).forEach(destination => {
+    const location = { name: destination.name, latitude: destination.latitude!, longitude: destination.longitude! };
+    byId.set(destination.id, location);
+    byName.set(nameKey(destination.name), location);
+  });
+  return { byId, byName };
+};
+
+const activityLocation = (
+  activity: ItineraryActivity,
+  destinations: Awaited<ReturnType<typeof fetchDestinationLocations>>
+): Location | null => {
+  const destination = (activity.destinationId && destinations.byId.get(activity.destinationId))
+    || destinations.byName.get(nameKey(activity.name));
+
+  if (activity.latitude !== undefined && activity.longitude !== undefined) {
+    return { name: destination?.name ?? activity.name, latitude: activity.latitude, longitude: activity.longitude };
+  }
+  return destination ?? null;
+};
+
+// `previous` is what the last export of this trip contained; events no longer
+// in the plan are cancelled
+export const buildItineraryCalendar = async (
+  itinerary: Itinerary,
+  options: CalendarExportOptions,
+  previous: ExportedEvent[] = []
+): Promise<{ calendar: string; events: ExportedEvent[] }> => {
+  const destinations = await fetchDestinationLocations(itinerary);
+  const stamp = utcStamp(new Date());
+  const events: ExportedEvent[] = [];
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//KonkanBliss//Itinerary//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.title)}`,
+    `X-WR-TIMEZONE:${TIME_ZONE}`,
+    // India has no daylight saving, so one standard offset covers every date
+    'BEGIN:VTIMEZONE',
+    `TZID:${TIME_ZONE}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    'TZOFFSETFROM:+0530',
+    'TZOFFSETTO:+0530',
+    'TZNAME:IST',
+    'END:STANDARD',
+    'END:VTIMEZONE'
+  ];
+
+  itinerary.days.forEach((day, dayIndex) => {
+    const date = addDays(options.startDate, dayIndex);
+    const keyCounts = new Map<string, number>();
+
+    day.activities.forEach((activity) => {
+      // The same place twice in a day gets -2, -3, ...
+      const key = activityKey(activity);
+      const count = (keyCounts.get(key) ?? 0) + 1;
+      keyCounts.set(key, count);
+      const uid = `${options.calendarId}-d${dayIndex + 1}-${key}${count > 1 ? `-${count}` : ''}@konkanbliss.com`;
+
+      const time = parseActivityTime(activity.time);
+      const location = activityLocation(activity, destinations);
+      const description = [
+        activity.description,
+        `Day ${dayIndex + 1}: ${day.title}`,
+        activity.time && `Planned time: ${activity.time}`,
+        activity.cost > 0 && `Estimated cost: ₹${activity.cost.toLocaleString('en-IN')}`
+      ].filter(Boolean).join('\n');
+      const times = time
+        ? [
+            `DTSTART;TZID=${TIME_ZONE}:${localDateTime(date, time.start)}`,
+            `DTEND;TZID=${TIME_ZONE}:${localDateTime(time.end >= 24 * 60 ? addDays(date, 1) : date, time.end % (24 * 60))}`
+          ]
+        : [
+            `DTSTART;VALUE=DATE:${format(date, 'yyyyMMdd')}`,
+            `DTEND;VALUE=DATE:${format(addDays(date, 1), 'yyyyMMdd')}`
+          ];
+      events.push({ uid, summary: activity.name, times });
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${uid}`,
+        `DTSTAMP:${stamp}`,
+        `SEQUENCE:${options.sequence ?? 0}`,
+        ...times,
+        `SUMMARY:${escapeText(activity.name)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        ...(location
+          ? [
+              `LOCATION:${escapeText(location.name)}`,
+              `GEO:${location.latitude.toFixed(6)};${location.longitude.toFixed(6)}`
+            ]
+          : []),
+        'END:VEVENT'
+      );
+    });
+  });
+
+  const current = new Set(events.map(event => event.uid));
+  previous
+    .filter(event => !current.has(event.uid))
+    .forEach(event => {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${stamp}`,
+        `SEQUENCE:${options.sequence ?? 0}`,
+        ...event.times,
+        `SUMMARY:${escapeText(event.summary)}`,
+        'STATUS:CANCELLED',
+        'END:VEVENT'
+      );
+    });
+
+  lines.push('END:VCALENDAR');
+  return { calendar: lines.map(foldLine).join('\r\n') + '\r\n', events };
+};
+
+const fileName = (title: string) =>
+  `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'itinerary'}.ics`;
+
+export const exportItineraryCalendar = async (itinerary: Itinerary, options: CalendarExportOptions) => {
+  const { calendar, events } = await buildItineraryCalendar(itinerary, options, readExportedEvents(options.calendarId));
+
+  const url = URL.createObjectURL(new Blob([calendar], { type: 'text/calendar;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName(options.title);
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+  writeExportedEvents(options.calendarId, events);
+};
@@ -0,0 +1,141 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+// Planning an itinerary together: the owner invites people by email as
+// viewers or editors, and everyone who can see the itinerary can comment on
+// its activities. Invites are matched to an account when someone signs in
+// with the invited email (see acceptItineraryInvites).
+
+export type MemberRole = 'viewer' | 'editor';
+
+export interface ItineraryMember {
+  id: string;
+  email: string;
+  role: MemberRole;
+  // Null until the invitee signs in
+  userId: string | null;
+  acceptedAt: Date | null;
+}
+
+export interface ItineraryComment {
+  id: string;
+  userId: string;
+  authorName: string;
+  activityName: string;
+  body: string;
+  createdAt: Date;
+}
+
+export class AlreadyInvitedError extends Error {
+  constructor(email: string) {
+    super(`${email} has already been invited.`);
+    this.name = 'AlreadyInvitedError';
+  }
+}
+
+const UNIQUE_VIOLATION = '23505';
+
+const fromMemberRow = (row: Tables<'itinerary_members'>): ItineraryMember => ({
+  id: row.id,
+  email: row.email,
+  role: row.role === 'editor' ? 'editor' : 'viewer',
+  userId: row.user_id,
+  acceptedAt: row.accepted_at ? new Date(row.accepted_at) : null
+});
+
+const fromCommentRow = (row: Tables<'itinerary_comments'>): ItineraryComment => ({
+  id: row.id,
+  userId: row.user_id,
+  authorName: row.author_name,
+  activityName: row.activity_name,
+  body: row.body,
+  createdAt: new Date(row.created_at)
+});
+
+// Comments follow an activity by name
+export const commentKey = (activityName: string) => activityName.trim().toLowerCase();
+
+// Links invites sent to the signed-in user's email to their account. Resolves
+// with how many were new.
+export const acceptItineraryInvites = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('accept_itinerary_invites');
+  if (error) throw error;
+  return data ?? 0;
+};
+
+export const fetchMembers = async (itineraryId: string): Promise<ItineraryMember[]> => {
+  const { data, error } = await supabase
+    .from('itinerary_members')
+    .select('*')
+    .eq('itinerary_id', itineraryId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []).map(fromMemberRow);
+};
+
+export const inviteMember = async (itineraryId: string, email: string, role: MemberRole): Promise<ItineraryMember> => {
+  const normalised = email.trim().toLowerCase();
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const { data, error } = await supabase
+    .from('itinerary_members')
+    .insert({ itinerary_id: itineraryId, email: normalised, role, invited_by: session?.user.id ?? null })
+    .select()
+    .single();
+
+  if (error?.code === UNIQUE_VIOLATION) throw new AlreadyInvitedError(normalised);
+  if (error) throw error;
+  return fromMemberRow(data);
+};
+
+export const updateMemberRole = async (memberId: string, role: MemberRole) => {
+  const { error } = await supabase.from('itinerary_members').update({ role }).eq('id', memberId);
+  if (error) throw error;
+};
+
+export const removeMember = async (memberId: string) => {
+  const { error } = await supabase.from('itinerary_members').delete().eq('id', memberId);
+  if (error) throw error;
+};
+
+// Stops the signed-in user being a member of someone else's itinerary
+export const leaveItinerary = async (itineraryId: string) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return;
+
+  const { error } = await supabase
+    .from('itinerary_members')
+    .delete()
+    .eq('itinerary_id', itineraryId)
+    .eq('user_id', session.user.id);
+  if (error) throw error;
+};
+
+// Oldest first
+export const fetchComments = async (itineraryId: string): Promise<ItineraryComment[]> => {
+  const { data, error } = await supabase
+    .from('itinerary_comments')
+    .select('*')
+    .eq('itinerary_id', itineraryId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []).map(fromCommentRow);
+};
+
+export const addComment = async (itineraryId: string, activityName: string, body: string): Promise<ItineraryComment> => {
+  const { data, error } = await supabase
+    .from('itinerary_comments')
+    .insert({ itinerary_id: itineraryId, activity_name: activityName, body: body.trim() })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return fromCommentRow(data);
+};
+
+export const deleteComment = async (commentId: string) => {
+  const { error } = await supabase.from('itinerary_comments').delete().eq('id', commentId);
+  if (error) throw error;
+};
@@ -0,0 +1,2 @@
+// Shared with the chat assistant, which proposes these edits.
+export * from "../../supabase/functions/_shared/itineraryDiff.ts";
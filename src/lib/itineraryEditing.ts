@@ -0,0 +1,147 @@
+import { distanceKm, travelMinutes } from "@/lib/geo";
+import {
+  formatTimeRange,
+  parseActivityTime,
+  withDays,
+  type Itinerary,
+  type ItineraryActivity,
+  type ItineraryDay
+} from "@/lib/itinerary";
+import type { Tables } from "@/integrations/supabase/types";
+
+// Pure helpers behind the itinerary editor. While editing, every activity
+// carries a `key` so it can be dragged between days; the keys are dropped
+// again when the plan is saved.
+
+export interface EditableActivity extends ItineraryActivity {
+  key: string;
+}
+
+export interface EditableDay extends Omit<ItineraryDay, 'activities'> {
+  activities: EditableActivity[];
+}
+
+export interface TravelLeg {
+  km: number;
+  minutes: number;
+}
+
+export type EditorDestination = Pick<Tables<'destinations'>, 'id' | 'name' | 'description' | 'category' | 'latitude' | 'longitude'>;
+
+const DEFAULT_VISIT_MINUTES = 120;
+const DAY_START_MINUTES = 9 * 60;
+
+// Droppable id of a day, so activities can be dropped onto empty days too
+export const dayDropId = (dayIndex: number) => `day-${dayIndex}`;
+
+export const formatDriveTime = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h${minutes % 60 ? ` ${minutes % 60} min` : ''}`;
+
+export const toEditableDays = (plan: Itinerary): EditableDay[] =>
+  plan.days.map(day => ({
+    ...day,
+    activities: day.activities.map(activity => ({ ...activity, key: crypto.randomUUID() }))
+  }));
+
+export const fromEditableDays = (days: EditableDay[]): ItineraryDay[] =>
+  days.map(day => ({
+    ...day,
+    activities: day.activities.map(({ key: _key, ...activity }) => activity)
+  }));
+
+export const findActivity = (days: EditableDay[], key: string) => {
+  for (const [dayIndex, day] of days.entries()) {
+    const index = day.activities.findIndex(activity => activity.key === key);
+    if (index !== -1) return { dayIndex, index };
+  }
+  return null;
+};
+
+// Moves an activity to `toIndex` within day `toDay`, which may be the day it is already on
+export const moveActivity = (days: EditableDay[], key: string, toDay: number, toIndex: number): EditableDay[] => {
+  const from = findActivity(days, key);
+  if (!from) return days;
+
+  const activity = days[from.dayIndex].activities[from.index];
+  const next = days.map(day => ({ ...day, activities: day.activities.filter(item => item.key !== key) }));
+  const target = next[toDay].activities;
+  target.splice(Math.min(Math.max(toIndex, 0), target.length), 0, activity);
+  return next;
+};
+
+export const removeActivity = (days: EditableDay[], key: string): EditableDay[] =>
+  days.map(day => ({ ...day, activities: day.activities.filter(activity => activity.key !== key) }));
+
+export const updateActivity = (
+  days: EditableDay[],
+  key: string,
+  changes: Partial<ItineraryActivity>
+): EditableDay[] =>
+  days.map(day => ({
+    ...day,
+    activities: day.activities.map(activity => (activity.key === key ? { ...activity, ...changes } : activity))
+  }));
+
+// Adds an activity at the end of a day, starting once the last activity is
+// over and the drive there is done
+const appendActivity = (
+  days: EditableDay[],
+  dayIndex: number,
+  activity: Omit<ItineraryActivity, 'time' | 'cost'>
+): EditableDay[] => {
+  const day = days[dayIndex];
+  const last = day.activities[day.activities.length - 1];
+  const lastTime = last ? parseActivityTime(last.time) : null;
+
+  let start = lastTime ? lastTime.end : DAY_START_MINUTES;
+  if (last?.latitude !== undefined && last.longitude !== undefined
+    && activity.latitude !== undefined && activity.longitude !== undefined) {
+    start += travelMinutes(
+      { latitude: last.latitude, longitude: last.longitude },
+      { latitude: activity.latitude, longitude: activity.longitude }
+    );
+  }
+
+  const added: EditableActivity = {
+    ...activity,
+    key: crypto.randomUUID(),
+    time: formatTimeRange({ start, end: start + DEFAULT_VISIT_MINUTES }),
+    cost: 0
+  };
+
+  return days.map((item, index) => (index === dayIndex ? { ...item, activities: [...item.activities, added] } : item));
+};
+
+export const addDestination = (days: EditableDay[], dayIndex: number, destination: EditorDestination): EditableDay[] => {
+  const located = destination.latitude !== null && destination.longitude !== null;
+  return appendActivity(days, dayIndex, {
+    name: destination.name,
+    description: destination.description || `Explore ${destination.name}`,
+    category: destination.category?.toLowerCase() ?? undefined,
+    destinationId: destination.id,
+    ...(located ? { latitude: destination.latitude!, longitude: destination.longitude! } : {})
+  });
+};
+
+// An activity that isn't one of the destinations, such as a poll winner
+export const addCustomActivity = (days: EditableDay[], dayIndex: number, name: string): EditableDay[] =>
+  appendActivity(days, dayIndex, { name, description: name });
+
+// Drive from each activity to the next one; null where either end has no coordinates
+export const travelLegs = (day: EditableDay): (TravelLeg | null)[] =>
+  day.activities.slice(1).map((activity, index) => {
+    const previous = day.activities[index];
+    if (previous.latitude === undefined || previous.longitude === undefined
+      || activity.latitude === undefined || activity.longitude === undefined) {
+      return null;
+    }
+    const from = { latitude: previous.latitude, longitude: previous.longitude };
+    const to = { latitude: activity.latitude, longitude: activity.longitude };
+    return { km: distanceKm(from, to), minutes: travelMinutes(from, to) };
+  });
+
+export const recalculateTotal = (original: Itinerary, days: ItineraryDay[]) =>
+  withDays(original, days).totalEstimatedCost;
+
+export const toEditedPlan = (original: Itinerary, days: EditableDay[]): Itinerary =>
+  withDays(original, fromEditableDays(days));
@@ -0,0 +1,29 @@
+import { supabase } from "@/integrations/supabase/client";
+import { migrateItinerary, type Itinerary, type TripPreferences } from "@/lib/itinerary";
+
+// Which part of a plan to regenerate; indexes are zero-based
+export interface RegenerationTarget {
+  day: number;
+  activity?: number;
+}
+
+// Asks `generate-itinerary` for a new version of one day or one activity,
+// keeping the rest of the plan as it is. Resolves with the whole updated plan.
+export const regenerateItineraryPart = async (
+  preferences: TripPreferences,
+  plan: Itinerary,
+  target: RegenerationTarget
+): Promise<Itinerary> => {
+  const { data, error } = await supabase.functions.invoke('generate-itinerary', {
+    body: { ...preferences, regenerate: { plan, target } }
+  });
+
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+
+  const itinerary = migrateItinerary(data?.itinerary);
+  if (!itinerary) throw new Error('Received an itinerary in an unknown format');
+  return itinerary;
+};
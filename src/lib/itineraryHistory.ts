@@ -0,0 +1,115 @@
+import { format } from "date-fns";
+import type { Itinerary } from "@/lib/itinerary";
+import type { ItineraryVersion } from "@/lib/itineraryStore";
+
+// Readable differences between two versions of a saved itinerary, for the
+// history panel.
+
+type Snapshot = Pick<ItineraryVersion, 'title' | 'status' | 'preferences' | 'plan' | 'startDate'>;
+
+interface PlacedActivity {
+  name: string;
+  day: number;
+  time: string;
+  cost: number;
+}
+
+const formatRupees = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+const formatDay = (date: Date | null) => (date ? format(date, 'd MMM yyyy') : 'no date');
+
+const activityKey = (name: string) => name.trim().toLowerCase();
+
+// First appearance of each activity, by name
+const placeActivities = (plan: Itinerary) => {
+  const placed = new Map<string, PlacedActivity>();
+  plan.days.forEach((day, dayIndex) => {
+    day.activities.forEach(activity => {
+      const key = activityKey(activity.name);
+      if (!placed.has(key)) placed.set(key, { name: activity.name, day: dayIndex, time: activity.time, cost: activity.cost });
+    });
+  });
+  return placed;
+};
+
+const comparePlans = (before: Itinerary, after: Itinerary): string[] => {
+  const changes: string[] = [];
+  const was = placeActivities(before);
+  const now = placeActivities(after);
+
+  if (before.days.length !== after.days.length) {
+    changes.push(`Trip length ${before.days.length} → ${after.days.length} days`);
+  }
+
+  now.forEach((activity, key) => {
+    const previous = was.get(key);
+    if (!previous) {
+      changes.push(`Added ${activity.name} on day ${activity.day + 1}`);
+      return;
+    }
+    if (previous.day !== activity.day) {
+      changes.push(`Moved ${activity.name} from day ${previous.day + 1} to day ${activity.day + 1}`);
+    } else if (previous.time !== activity.time) {
+      changes.push(`${activity.name}: ${previous.time} → ${activity.time}`);
+    }
+    if (previous.cost !== activity.cost) {
+      changes.push(`${activity.name}: ${formatRupees(previous.cost)} → ${formatRupees(activity.cost)}`);
+    }
+  });
+
+  was.forEach((activity, key) => {
+    if (!now.has(key)) changes.push(`Removed ${activity.name} from day ${activity.day + 1}`);
+  });
+
+  after.days.forEach((day, dayIndex) => {
+    const previousDay = before.days[dayIndex];
+    if (!previousDay) return;
+
+    // Same activities on the same day, in a different order
+    const kept = (names: string[], others: string[]) => names.filter(name => others.includes(name));
+    const nowOrder = day.activities.map(activity => activityKey(activity.name));
+    const wasOrder = previousDay.activities.map(activity => activityKey(activity.name));
+    if (kept(nowOrder, wasOrder).join('\n') !== kept(wasOrder, nowOrder).join('\n')) {
+      changes.push(`Reordered day ${dayIndex + 1}`);
+    }
+
+    const restaurantsBefore = new Set(previousDay.restaurants.map(restaurant => restaurant.name));
+    const restaurantsAfter = new Set(day.restaurants.map(restaurant => restaurant.name));
+    day.restaurants
+      .filter(restaurant => !restaurantsBefore.has(restaurant.name))
+      .forEach(restaurant => changes.push(`Added ${restaurant.name} to day ${dayIndex + 1}'s places to eat`));
+    previousDay.restaurants
+      .filter(restaurant => !restaurantsAfter.has(restaurant.name))
+      .forEach(restaurant => changes.push(`Removed ${restaurant.name} from day ${dayIndex + 1}'s places to eat`));
+
+    if (previousDay.title !== day.title) changes.push(`Day ${dayIndex + 1} is now "${day.title}"`);
+    if (previousDay.tips !== day.tips) changes.push(`New tips for day ${dayIndex + 1}`);
+  });
+
+  if (before.totalEstimatedCost !== after.totalEstimatedCost) {
+    changes.push(`Estimated total ${formatRupees(before.totalEstimatedCost)} → ${formatRupees(after.totalEstimatedCost)}`);
+  }
+
+  return changes;
+};
+
+// What changed from `before` to `after`; `before` is null for the first version
+export const compareVersions = (before: Snapshot | null, after: Snapshot): string[] => {
+  if (!before) return ['Itinerary created'];
+
+  const changes: string[] = [];
+  if (before.title !== after.title) changes.push(`Renamed "${before.title}" → "${after.title}"`);
+  if (before.status !== after.status) changes.push(`Status ${before.status} → ${after.status}`);
+  if (before.startDate?.getTime() !== after.startDate?.getTime()) {
+    changes.push(`Start date ${formatDay(before.startDate)} → ${formatDay(after.startDate)}`);
+  }
+  if (before.preferences.budgetRange !== after.preferences.budgetRange) {
+    changes.push(`Budget ${before.preferences.budgetRange} → ${after.preferences.budgetRange}`);
+  }
+  if (before.preferences.groupType !== after.preferences.groupType) {
+    changes.push(`Travelling as ${before.preferences.groupType} → ${after.preferences.groupType}`);
+  }
+  if (before.plan && after.plan) changes.push(...comparePlans(before.plan, after.plan));
+
+  return changes;
+};
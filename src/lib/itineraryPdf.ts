@@ -0,0 +1,205 @@
+import type { jsPDF } from "jspdf";
+import type { Itinerary, ItineraryDay } from "@/lib/itinerary";
+import { renderStaticMap } from "@/lib/staticMap";
+
+// Builds a printable A4 PDF of an itinerary in the browser: a cover page with
+// the trip overview, then one or more pages per day with a map of the day's
+// stops, the timed activities and costs, restaurants and local tips.
+
+export interface ItineraryPdfDetails {
+  title: string;
+  days?: number;
+  groupType?: string;
+  budget?: string;
+  interests?: string[];
+}
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 18;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 12;
+const MAP_HEIGHT = CONTENT_WIDTH * (300 / 640);
+
+const ORANGE: [number, number, number] = [249, 115, 22];
+const GREY: [number, number, number] = [100, 100, 100];
+const DARK: [number, number, number] = [17, 24, 39];
+
+// The built-in PDF fonts have no rupee sign and no non-Latin scripts
+const formatCost = (amount: number) => `Rs. ${amount.toLocaleString('en-IN')}`;
+const printable = (text: string) => text.replace(/₹/g, 'Rs. ').replace(/[^\x20-\x7E\xA0-\xFF\n]/g, '');
+
+const fileName = (title: string) =>
+  `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'itinerary'}.pdf`;
+
+// Keeps track of the cursor and starts a new page when the next block won't fit
+class PdfWriter {
+  y = MARGIN;
+
+  constructor(readonly doc: jsPDF) {}
+
+  ensureSpace(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) this.newPage();
+  }
+
+  newPage() {
+    this.doc.addPage();
+    this.y = MARGIN;
+  }
+
+  text(text: string, options: { size?: number; bold?: boolean; color?: [number, number, number]; indent?: number; width?: number } = {}) {
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    const lineHeight = size * 0.45;
+    this.doc.setFont('helvetica', options.bold ? 'bold' : 'normal');
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(...(options.color ?? DARK));
+
+    const lines: string[] = this.doc.splitTextToSize(printable(text), (options.width ?? CONTENT_WIDTH) - indent);
+    lines.forEach(line => {
+      this.ensureSpace(lineHeight);
+      this.doc.text(line, MARGIN + indent, this.y + lineHeight * 0.8);
+      this.y += lineHeight;
+    });
+  }
+
+  gap(height = 4) {
+    this.y += height;
+  }
+
+  rule() {
+    this.doc.setDrawColor(220, 220, 220);
+    this.doc.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y);
+    this.y += 4;
+  }
+}
+
+const writeCover = (writer: PdfWriter, itinerary: Itinerary, details: ItineraryPdfDetails) => {
+  writer.text('KonkanBliss', { size: 12, bold: true, color: ORANGE });
+  writer.gap(2);
+  writer.text(details.title, { size: 22, bold: true });
+  writer.gap(2);
+
+  const facts = [
+    details.days && `${details.days} ${details.days === 1 ? 'day' : 'days'}`,
+    details.groupType,
+    details.budget && `${details.budget} budget`,
+    details.interests?.length && details.interests.join(', ')
+  ].filter(Boolean);
+  if (facts.length > 0) writer.text(facts.join('  |  '), { color: GREY });
+  writer.gap(6);
+  writer.rule();
+
+  if (itinerary.summary) {
+    writer.text(itinerary.summary, { size: 11 });
+    writer.gap(4);
+  }
+  if (itinerary.bestTimeToVisit) {
+    writer.text(`Best time to visit: ${itinerary.bestTimeToVisit}`);
+  }
+  if (itinerary.totalEstimatedCost > 0) {
+    writer.text(`Estimated cost: ${formatCost(itinerary.totalEstimatedCost)}`, { bold: true });
+  }
+  writer.gap(8);
+
+  if (itinerary.days.length > 0) {
+    writer.text('At a glance', { size: 13, bold: true });
+    writer.gap(2);
+    itinerary.days.forEach((day, index) => {
+      writer.text(`Day ${index + 1}: ${day.title}`, { indent: 2 });
+      writer.text(day.activities.map(activity => activity.name).join(', '), { size: 9, color: GREY, indent: 8 });
+      writer.gap(2);
+    });
+  }
+};
+
+const writeDay = async (writer: PdfWriter, day: ItineraryDay, index: number) => {
+  const { doc } = writer;
+  writer.newPage();
+
+  doc.setFillColor(...ORANGE);
+  doc.rect(MARGIN, writer.y, 2, 9, 'F');
+  writer.text(`Day ${index + 1}: ${day.title}`, { size: 16, bold: true, indent: 5 });
+  writer.gap(4);
+
+  const stops = day.activities
+    .filter(activity => activity.latitude !== undefined && activity.longitude !== undefined)
+    .map(activity => ({ latitude: activity.latitude!, longitude: activity.longitude! }));
+  const map = await renderStaticMap(stops);
+  if (map) {
+    writer.ensureSpace(MAP_HEIGHT);
+    doc.addImage(map, 'JPEG', MARGIN, writer.y, CONTENT_WIDTH, MAP_HEIGHT);
+    writer.y += MAP_HEIGHT + 6;
+  }
+
+  writer.text('Activities', { size: 12, bold: true });
+  writer.gap(2);
+  day.activities.forEach(activity => {
+    writer.ensureSpace(14);
+    const top = writer.y;
+    writer.text(activity.time, { bold: true, color: ORANGE, width: 30 });
+    const timeBottom = writer.y;
+    writer.y = top;
+    if (activity.cost > 0) {
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(10);
+      doc.setTextColor(...GREY);
+      doc.text(formatCost(activity.cost), PAGE_WIDTH - MARGIN, top + 3.6, { align: 'right' });
+    }
+    writer.text(activity.name, { bold: true, indent: 32, width: CONTENT_WIDTH - 28 });
+    if (activity.description) writer.text(activity.description, { size: 9, color: GREY, indent: 32, width: CONTENT_WIDTH - 28 });
+    writer.y = Math.max(writer.y, timeBottom);
+    writer.gap(3);
+  });
+
+  const dayCost = day.activities.reduce((sum, activity) => sum + activity.cost, 0);
+  if (dayCost > 0) {
+    writer.text(`Day total: ${formatCost(dayCost)}`, { bold: true });
+  }
+
+  if (day.restaurants.length > 0) {
+    writer.gap(4);
+    writer.text('Where to eat', { size: 12, bold: true });
+    writer.gap(2);
+    day.restaurants.forEach(restaurant => {
+      writer.text(restaurant.name, { bold: true, indent: 2 });
+      writer.text([restaurant.cuisine, restaurant.contact].filter(Boolean).join('  |  '), { size: 9, color: GREY, indent: 2 });
+      writer.gap(2);
+    });
+  }
+
+  if (day.tips) {
+    writer.gap(4);
+    writer.text('Local tips', { size: 12, bold: true });
+    writer.gap(1);
+    writer.text(day.tips, { size: 10 });
+  }
+};
+
+const writeFooters = (doc: jsPDF, title: string) => {
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...GREY);
+    doc.text(printable(title), MARGIN, PAGE_HEIGHT - MARGIN / 2);
+    doc.text(`Page ${page} of ${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN / 2, { align: 'right' });
+  }
+};
+
+export const exportItineraryPdf = async (itinerary: Itinerary, details: ItineraryPdfDetails) => {
+  // Loaded on demand so jsPDF stays out of the main bundle
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  doc.setProperties({ title: details.title, creator: 'KonkanBliss' });
+
+  const writer = new PdfWriter(doc);
+  writeCover(writer, itinerary, details);
+  for (const [index, day] of itinerary.days.entries()) {
+    await writeDay(writer, day, index);
+  }
+  writeFooters(doc, details.title);
+
+  doc.save(fileName(details.title));
+};
@@ -0,0 +1,191 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { TripPreferences } from "@/lib/itinerary";
+
+// Polls let everyone on a shared itinerary vote places and activities up or
+// down before they go into the plan. The tally is passed to the planner as
+// `groupVotes` when a day is replanned (see groupVotesFromPolls).
+
+export type VoteValue = 1 | -1;
+
+export type PollOptionKind = 'activity' | 'destination';
+
+export interface PollOption {
+  id: string;
+  pollId: string;
+  kind: PollOptionKind;
+  label: string;
+  destinationId: string | null;
+  proposedBy: string | null;
+  up: number;
+  down: number;
+  score: number;
+  // The signed-in user's vote
+  myVote: VoteValue | null;
+}
+
+export interface ItineraryPoll {
+  id: string;
+  itineraryId: string;
+  question: string;
+  // Zero-based day the winners are meant for
+  dayIndex: number | null;
+  closesAt: Date | null;
+  lockedAt: Date | null;
+  createdAt: Date;
+  // Highest score first
+  options: PollOption[];
+}
+
+export interface NewPoll {
+  question: string;
+  dayIndex: number | null;
+  closesAt: Date | null;
+}
+
+export interface NewPollOption {
+  kind: PollOptionKind;
+  label: string;
+  destinationId: string | null;
+}
+
+export type GroupVotes = NonNullable<TripPreferences['groupVotes']>;
+
+type VoteRow = Pick<Tables<'itinerary_poll_votes'>, 'option_id' | 'user_id' | 'value'>;
+
+export const isPollOpen = (poll: ItineraryPoll, now = new Date()) =>
+  !poll.lockedAt && (!poll.closesAt || poll.closesAt > now);
+
+export const pollWinners = (poll: ItineraryPoll) => poll.options.filter(option => option.score > 0);
+
+export const tallyOptions = (
+  options: Tables<'itinerary_poll_options'>[],
+  votes: VoteRow[],
+  userId: string | null
+): PollOption[] =>
+  options
+    .map((row): PollOption => {
+      const cast = votes.filter(vote => vote.option_id === row.id);
+      const up = cast.filter(vote => vote.value > 0).length;
+      const down = cast.length - up;
+      const mine = cast.find(vote => vote.user_id === userId);
+      return {
+        id: row.id,
+        pollId: row.poll_id,
+        kind: row.kind === 'destination' ? 'destination' : 'activity',
+        label: row.label,
+        destinationId: row.destination_id,
+        proposedBy: row.proposed_by,
+        up,
+        down,
+        score: up - down,
+        myVote: mine ? (mine.value > 0 ? 1 : -1) : null
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.up - a.up || a.label.localeCompare(b.label));
+
+// Everything the group has voted on so far, keyed the way the planner matches
+// destinations: by id, or by lowercased name. Ties count as neither.
+export const groupVotesFromPolls = (polls: ItineraryPoll[]): GroupVotes => {
+  const favoured = new Set<string>();
+  const rejected = new Set<string>();
+  polls.flatMap(poll => poll.options).forEach(option => {
+    const key = option.destinationId ?? option.label.trim().toLowerCase();
+    if (option.score > 0) favoured.add(key);
+    if (option.score < 0) rejected.add(key);
+  });
+  return { favoured: [...favoured], rejected: [...rejected].filter(key => !favoured.has(key)) };
+};
+
+// Oldest first, with their options tallied
+export const fetchPolls = async (itineraryId: string, userId: string | null): Promise<ItineraryPoll[]> => {
+  const [polls, options, votes] = await Promise.all([
+    supabase.from('itinerary_polls').select('*').eq('itinerary_id', itineraryId).order('created_at'),
+    supabase.from('itinerary_poll_options').select('*').eq('itinerary_id', itineraryId).order('created_at'),
+    supabase.from('itinerary_poll_votes').select('option_id, user_id, value').eq('itinerary_id', itineraryId)
+  ]);
+
+  if (polls.error) throw polls.error;
+  if (options.error) throw options.error;
+  if (votes.error) throw votes.error;
+
+  return (polls.data || []).map(row => ({
+    id: row.id,
+    itineraryId: row.itinerary_id,
+    question: row.question,
+    dayIndex: row.day_index,
+    closesAt: row.closes_at ? new Date(row.closes_at) : null,
+    lockedAt: row.locked_at ? new Date(row.locked_at) : null,
+    createdAt: new Date(row.created_at),
+    options: tallyOptions((options.data || []).filter(option => option.poll_id === row.id), votes.data || [], userId)
+  }));
+};
+
+export const createPoll = async (itineraryId: string, poll: NewPoll) => {
+  const { error } = await supabase.from('itinerary_polls').insert({
+    itinerary_id: itineraryId,
+    question: poll.question.trim(),
+    day_index: poll.dayIndex,
+    closes_at: poll.closesAt?.toISOString() ?? null
+  });
+  if (error) throw error;
+};
+
+// Ends voting now, ahead of the deadline
+export const closePoll = async (pollId: string) => {
+  const { error } = await supabase
+    .from('itinerary_polls')
+    .update({ closes_at: new Date().toISOString() })
+    .eq('id', pollId);
+  if (error) throw error;
+};
+
+// Marks the winners as put into the itinerary
+export const lockPoll = async (pollId: string) => {
+  const { error } = await supabase
+    .from('itinerary_polls')
+    .update({ locked_at: new Date().toISOString() })
+    .eq('id', pollId);
+  if (error) throw error;
+};
+
+export const deletePoll = async (pollId: string) => {
+  const { error } = await supabase.from('itinerary_polls').delete().eq('id', pollId);
+  if (error) throw error;
+};
+
+export const proposeOption = async (poll: ItineraryPoll, option: NewPollOption) => {
+  const { error } = await supabase.from('itinerary_poll_options').insert({
+    poll_id: poll.id,
+    itinerary_id: poll.itineraryId,
+    kind: option.kind,
+    label: option.label.trim(),
+    destination_id: option.destinationId
+  });
+  if (error) throw error;
+};
+
+export const removeOption = async (optionId: string) => {
+  const { error } = await supabase.from('itinerary_poll_options').delete().eq('id', optionId);
+  if (error) throw error;
+};
+
+// Casts, changes or (with null) takes back the signed-in user's vote
+export const castVote = async (poll: ItineraryPoll, option: PollOption, value: VoteValue | null) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return;
+
+  const { error } = value === null
+    ? await supabase
+      .from('itinerary_poll_votes')
+      .delete()
+      .eq('option_id', option.id)
+      .eq('user_id', session.user.id)
+    : await supabase
+      .from('itinerary_poll_votes')
+      .upsert(
+        { option_id: option.id, poll_id: poll.id, itinerary_id: poll.itineraryId, user_id: session.user.id, value },
+        { onConflict: 'option_id,user_id' }
+      );
+  if (error) throw error;
+};
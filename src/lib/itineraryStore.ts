@@ -0,0 +1,420 @@
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { ITINERARY_VERSION, migrateItinerary, type Itinerary, type TripPreferences } from "@/lib/itinerary";
+import { updateWithConflictResolution, type MergeResult, type Revisioned } from "@/lib/sync";
+
+// Saved itineraries live in the `itineraries` table. Saves made while the
+// browser is offline are kept in a localStorage queue and written once the
+// connection comes back; each queued save carries its own id so replaying the
+// queue never creates duplicates.
+
+const QUEUE_KEY = 'konkanbliss-itinerary-queue';
+
+export const ITINERARIES_CHANGED_EVENT = 'konkanbliss:itineraries-changed';
+
+export type ItineraryStatus = 'draft' | 'active' | 'completed';
+
+// What the signed-in user may do with an itinerary: their own, or one they were invited to
+export type ItineraryRole = 'owner' | 'editor' | 'viewer';
+
+export interface StoredItinerary extends Revisioned {
+  id: string;
+  title: string;
+  status: ItineraryStatus;
+  preferences: TripPreferences;
+  plan: Itinerary | null;
+  createdAt: Date;
+  pending: boolean;
+  shareSlug: string | null;
+  // Day 1 of the trip, once the traveller has picked one
+  startDate: Date | null;
+  ownerId: string;
+  role: ItineraryRole;
+}
+
+export type ItineraryChanges = Partial<Pick<StoredItinerary, 'title' | 'status' | 'preferences' | 'plan' | 'startDate'>>;
+
+interface QueuedItinerary {
+  id: string;
+  userId: string;
+  title: string;
+  preferences: TripPreferences;
+  plan: Itinerary;
+  queuedAt: string;
+}
+
+export type SaveResult = 'saved' | 'queued';
+
+export interface SharedItinerary {
+  title: string;
+  preferences: TripPreferences;
+  plan: Itinerary | null;
+  updatedAt: Date;
+}
+
+// An immutable snapshot of a saved itinerary, recorded by the database on every save
+export interface ItineraryVersion {
+  id: string;
+  revision: number;
+  title: string;
+  status: ItineraryStatus;
+  preferences: TripPreferences;
+  plan: Itinerary | null;
+  startDate: Date | null;
+  changedBy: string | null;
+  // Null for the first version
+  changedFields: string[] | null;
+  createdAt: Date;
+}
+
+export class NotSignedInError extends Error {
+  constructor() {
+    super('You need to be signed in to save itineraries.');
+    this.name = 'NotSignedInError';
+  }
+}
+
+const readQueue = (): QueuedItinerary[] => {
+  try {
+    return JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeQueue = (queue: QueuedItinerary[]) => {
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+};
+
+const notifyChanged = () => {
+  window.dispatchEvent(new Event(ITINERARIES_CHANGED_EVENT));
+};
+
+const isNetworkError = (error: { message?: string } | null) =>
+  !navigator.onLine || /failed to fetch|network/i.test(error?.message || '');
+
+const formatDuration = (days: number) => `${days} ${days === 1 ? 'day' : 'days'}`;
+
+const toPreferences = (row: Pick<Tables<'itineraries'>, 'duration' | 'group_type' | 'interests' | 'budget'>): TripPreferences => ({
+  days: parseInt(row.duration) || 1,
+  groupType: row.group_type,
+  exploreType: row.interests || [],
+  budgetRange: row.budget
+});
+
+const toRow = (item: QueuedItinerary) => ({
+  id: item.id,
+  user_id: item.userId,
+  title: item.title,
+  duration: formatDuration(item.preferences.days),
+  budget: item.preferences.budgetRange,
+  group_type: item.preferences.groupType,
+  interests: item.preferences.exploreType,
+  generated_plan: item.plan as unknown as Json,
+  plan_version: ITINERARY_VERSION
+});
+
+const toColumns = (changes: ItineraryChanges) => {
+  const columns: Partial<Tables<'itineraries'>> = {};
+  if (changes.title !== undefined) columns.title = changes.title;
+  if (changes.status !== undefined) columns.status = changes.status;
+  if (changes.preferences !== undefined) {
+    columns.duration = formatDuration(changes.preferences.days);
+    columns.budget = changes.preferences.budgetRange;
+    columns.group_type = changes.preferences.groupType;
+    columns.interests = changes.preferences.exploreType;
+  }
+  if (changes.plan) {
+    columns.generated_plan = changes.plan as unknown as Json;
+    columns.plan_version = ITINERARY_VERSION;
+  }
+  if (changes.startDate !== undefined) {
+    columns.start_date = changes.startDate ? format(changes.startDate, 'yyyy-MM-dd') : null;
+  }
+  return columns;
+};
+
+const fromRow = (row: Tables<'itineraries'>, role: ItineraryRole = 'owner'): StoredItinerary => ({
+  id: row.id,
+  title: row.title,
+  status: (row.status as ItineraryStatus) || 'active',
+  preferences: toPreferences(row),
+  plan: migrateItinerary(row.generated_plan),
+  createdAt: new Date(row.created_at),
+  pending: false,
+  shareSlug: row.share_slug,
+  // A calendar date, so read as local midnight rather than UTC
+  startDate: row.start_date ? parseISO(row.start_date) : null,
+  ownerId: row.user_id,
+  role,
+  revision: row.revision,
+  updatedAt: new Date(row.updated_at || row.created_at)
+});
+
+const fromQueue = (item: QueuedItinerary): StoredItinerary => ({
+  id: item.id,
+  title: item.title,
+  status: 'active',
+  preferences: item.preferences,
+  plan: item.plan,
+  createdAt: new Date(item.queuedAt),
+  pending: true,
+  shareSlug: null,
+  startDate: null,
+  ownerId: item.userId,
+  role: 'owner',
+  revision: 0,
+  updatedAt: new Date(item.queuedAt)
+});
+
+// The session is read from local storage, so this also works offline.
+const currentUserId = async (): Promise<string | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id ?? null;
+};
+
+// Resolves with the new itinerary's id, which is final even for queued saves
+export const saveItinerary = async (
+  title: string,
+  preferences: TripPreferences,
+  plan: Itinerary
+): Promise<{ id: string; result: SaveResult }> => {
+  const userId = await currentUserId();
+  if (!userId) throw new NotSignedInError();
+
+  const item: QueuedItinerary = {
+    id: crypto.randomUUID(),
+    userId,
+    title,
+    preferences,
+    plan,
+    queuedAt: new Date().toISOString()
+  };
+
+  if (navigator.onLine) {
+    const { error } = await supabase.from('itineraries').insert(toRow(item));
+    if (!error) {
+      notifyChanged();
+      return { id: item.id, result: 'saved' };
+    }
+    if (!isNetworkError(error)) throw error;
+  }
+
+  writeQueue([...readQueue(), item]);
+  notifyChanged();
+  return { id: item.id, result: 'queued' };
+};
+
+// Writes every queued save belonging to the signed-in user. Entries that fail
+// for network reasons stay queued; anything else is logged and dropped so a
+// single bad entry cannot block the queue forever. Returns how many were written.
+export const flushItineraryQueue = async (): Promise<number> => {
+  const queue = readQueue();
+  const userId = await currentUserId();
+  if (queue.length === 0 || !userId || !navigator.onLine) return 0;
+
+  const remaining: QueuedItinerary[] = [];
+  let written = 0;
+
+  for (const item of queue) {
+    if (item.userId !== userId) {
+      remaining.push(item);
+      continue;
+    }
+
+    const { error } = await supabase
+      .from('itineraries')
+      .upsert(toRow(item), { onConflict: 'id', ignoreDuplicates: true });
+
+    if (!error) {
+      written++;
+    } else if (isNetworkError(error)) {
+      remaining.push(item);
+    } else {
+      console.error('Dropping queued itinerary that could not be saved:', error);
+    }
+  }
+
+  writeQueue(remaining);
+  if (written > 0) notifyChanged();
+  return written;
+};
+
+export const pendingItineraries = async (): Promise<StoredItinerary[]> => {
+  const userId = await currentUserId();
+  return readQueue()
+    .filter(item => item.userId === userId)
+    .map(fromQueue);
+};
+
+export const fetchItineraries = async (): Promise<StoredItinerary[]> => {
+  const userId = await currentUserId();
+  if (!userId) return [];
+
+  const { data, error } = await supabase
+    .from('itineraries')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(row => fromRow(row));
+};
+
+export const fetchItinerary = async (id: string): Promise<StoredItinerary> => {
+  const { data, error } = await supabase
+    .from('itineraries')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+
+  const userId = await currentUserId();
+  if (data.user_id === userId) return fromRow(data);
+
+  // Someone else's itinerary, readable because the user was invited to it
+  const { data: membership } = await supabase
+    .from('itinerary_members')
+    .select('role')
+    .eq('itinerary_id', id)
+    .eq('user_id', userId ?? '')
+    .maybeSingle();
+  return fromRow(data, membership?.role === 'editor' ? 'editor' : 'viewer');
+};
+
+// Itineraries other people invited the user to, newest first
+export const fetchSharedWithMe = async (): Promise<StoredItinerary[]> => {
+  const userId = await currentUserId();
+  if (!userId) return [];
+
+  const { data: memberships, error: membershipsError } = await supabase
+    .from('itinerary_members')
+    .select('itinerary_id, role')
+    .eq('user_id', userId);
+
+  if (membershipsError) throw membershipsError;
+  if (!memberships || memberships.length === 0) return [];
+
+  const roles = new Map(memberships.map(membership => [
+    membership.itinerary_id,
+    membership.role === 'editor' ? 'editor' as const : 'viewer' as const
+  ]));
+  const { data, error } = await supabase
+    .from('itineraries')
+    .select('*')
+    .in('id', [...roles.keys()])
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(row => fromRow(row, roles.get(row.id)));
+};
+
+// Updates a saved itinerary, merging with edits made on another device since
+// `base` was loaded. `editedAt` is when the user made the changes, if known.
+export const updateItinerary = async (
+  base: StoredItinerary,
+  changes: ItineraryChanges,
+  editedAt?: Date
+): Promise<MergeResult<StoredItinerary>> => {
+  const result = await updateWithConflictResolution<StoredItinerary>({
+    base,
+    changes,
+    editedAt,
+    write: async (pending, expectedRevision) => {
+      const { data, error } = await supabase
+        .from('itineraries')
+        .update(toColumns(pending))
+        .eq('id', base.id)
+        .eq('revision', expectedRevision)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? fromRow(data, base.role) : null;
+    },
+    fetchLatest: () => fetchItinerary(base.id)
+  });
+
+  notifyChanged();
+  return result;
+};
+
+export const deleteItinerary = async (id: string) => {
+  const queue = readQueue();
+  if (queue.some(item => item.id === id)) {
+    writeQueue(queue.filter(item => item.id !== id));
+  } else {
+    const { error } = await supabase.from('itineraries').delete().eq('id', id);
+    if (error) throw error;
+  }
+  notifyChanged();
+};
+
+export const shareUrl = (slug: string) => `${window.location.origin}/trip/${slug}`;
+
+// Returns the itinerary's public link, creating one the first time it is shared
+export const shareItinerary = async (id: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('share_itinerary', { itinerary_id: id });
+  if (error) throw error;
+  notifyChanged();
+  return shareUrl(data);
+};
+
+export const revokeItineraryShare = async (id: string) => {
+  const { error } = await supabase.rpc('revoke_itinerary_share', { itinerary_id: id });
+  if (error) throw error;
+  notifyChanged();
+};
+
+// Readable by anyone with the link, signed in or not. Null once the owner
+// stops sharing.
+export const fetchSharedItinerary = async (slug: string): Promise<SharedItinerary | null> => {
+  const { data, error } = await supabase.rpc('shared_itinerary', { slug });
+  if (error) throw error;
+
+  const row = data?.[0];
+  if (!row) return null;
+
+  return {
+    title: row.title,
+    preferences: toPreferences(row),
+    plan: migrateItinerary(row.generated_plan),
+    updatedAt: new Date(row.updated_at)
+  };
+};
+
+// Newest first
+export const fetchItineraryVersions = async (itineraryId: string): Promise<ItineraryVersion[]> => {
+  const { data, error } = await supabase
+    .from('itinerary_versions')
+    .select('*')
+    .eq('itinerary_id', itineraryId)
+    .order('revision', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(row => ({
+    id: row.id,
+    revision: row.revision,
+    title: row.title,
+    status: (row.status as ItineraryStatus) || 'active',
+    preferences: toPreferences(row),
+    plan: migrateItinerary(row.generated_plan),
+    startDate: row.start_date ? parseISO(row.start_date) : null,
+    changedBy: row.changed_by,
+    changedFields: row.changed_fields,
+    createdAt: new Date(row.created_at)
+  }));
+};
+
+// Writes an old version over the current one. That is a save like any
+// other, so the restore shows up in the history and can be undone too.
+export const restoreItineraryVersion = (base: StoredItinerary, version: ItineraryVersion) =>
+  updateItinerary(base, {
+    title: version.title,
+    status: version.status,
+    preferences: version.preferences,
+    startDate: version.startDate,
+    ...(version.plan ? { plan: version.plan } : {})
+  });
@@ -0,0 +1,124 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { ITINERARY_VERSION, migrateItinerary } from "@/lib/itinerary";
+
+// Before cloud sync the dashboard kept everything in localStorage. The first
+// time a user signs in on a device, whatever is still stored there is copied
+// into their account and then removed. Rows remember their old local id in
+// `legacy_id`, so an import interrupted halfway can simply run again.
+
+const LOCAL_ITINERARIES_KEY = 'konkanbliss-itineraries';
+const LOCAL_EXPERIENCES_KEY = 'konkanbliss-experiences';
+
+// The old dashboard saved its demo rows too, once anything was added or
+// deleted. They are recognised by id and title and left behind.
+const DEMO_ITINERARIES: Record<string, string> = {
+  '1': 'Konkan Beach Hopping',
+  '2': 'Heritage & Culture Tour',
+  '3': 'Adventure Weekend'
+};
+const DEMO_EXPERIENCES: Record<string, string> = {
+  '1': 'Amazing Scuba Diving at Tarkarli',
+  '2': 'Sunset at Sindhudurg Fort'
+};
+
+const STATUSES = ['draft', 'completed', 'active'];
+
+type LocalEntry = Record<string, unknown>;
+
+const text = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const strings = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const validDate = (value: unknown) => {
+  const date = new Date(typeof value === 'string' || typeof value === 'number' ? value : NaN);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const isDemo = (demos: Record<string, string>, entry: LocalEntry) =>
+  typeof entry.id === 'string' && demos[entry.id] === entry.title;
+
+// Entries without an id or title can't be imported (or recognised again), so
+// they are skipped rather than failing the whole import
+const usable = (demos: Record<string, string>) => (entry: unknown): entry is LocalEntry => {
+  if (!entry || typeof entry !== 'object') return false;
+  const { id, title } = entry as LocalEntry;
+  return typeof id === 'string' && id.length > 0 && typeof title === 'string' && title.trim().length > 0
+    && !isDemo(demos, entry as LocalEntry);
+};
+
+const readLocal = (key: string): unknown[] => {
+  try {
+    const value = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(value) ? value : [];
+  } catch {
+    return [];
+  }
+};
+
+export const hasLocalDashboardData = () =>
+  localStorage.getItem(LOCAL_ITINERARIES_KEY) !== null ||
+  localStorage.getItem(LOCAL_EXPERIENCES_KEY) !== null;
+
+// Returns how many items were imported.
+export const importLocalDashboardData = async (userId: string): Promise<number> => {
+  if (!hasLocalDashboardData()) return 0;
+
+  const itineraries = readLocal(LOCAL_ITINERARIES_KEY).filter(usable(DEMO_ITINERARIES));
+  const experiences = readLocal(LOCAL_EXPERIENCES_KEY)
+    .filter(usable(DEMO_EXPERIENCES))
+    .filter(item => validDate(item.date) !== null);
+
+  if (itineraries.length > 0) {
+    const { error } = await supabase
+      .from('itineraries')
+      .upsert(
+        itineraries.map(item => {
+          const plan = migrateItinerary(item.plan)
+            ?? migrateItinerary(`Visiting ${strings(item.destinations).join(', ')}`);
+          return {
+            user_id: userId,
+            legacy_id: item.id as string,
+            title: item.title as string,
+            duration: text(item.duration),
+            budget: text(item.budget),
+            group_type: text(item.groupType),
+            interests: [],
+            status: STATUSES.includes(text(item.status)) ? text(item.status) : 'draft',
+            generated_plan: plan as unknown as Json,
+            plan_version: ITINERARY_VERSION,
+            created_at: (validDate(item.createdAt) ?? new Date()).toISOString()
+          };
+        }),
+        { onConflict: 'user_id,legacy_id', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+  }
+  localStorage.removeItem(LOCAL_ITINERARIES_KEY);
+
+  if (experiences.length > 0) {
+    const { error } = await supabase
+      .from('experiences')
+      .upsert(
+        experiences.map(item => ({
+          user_id: userId,
+          legacy_id: item.id as string,
+          title: item.title as string,
+          location: text(item.location),
+          experience_date: (validDate(item.date) as Date).toISOString().slice(0, 10),
+          rating: Math.min(5, Math.max(1, Math.round(Number(item.rating)) || 5)),
+          photos: strings(item.photos),
+          description: text(item.description),
+          tags: strings(item.tags)
+        })),
+        { onConflict: 'user_id,legacy_id', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+  }
+  localStorage.removeItem(LOCAL_EXPERIENCES_KEY);
+
+  return itineraries.length + experiences.length;
+};
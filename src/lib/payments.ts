@@ -0,0 +1,89 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Client side of the `payments` edge function. The browser only starts a
+// checkout; whether a booking is paid is decided by the gateway's webhook, so
+// callers poll the booking afterwards rather than trusting the checkout result.
+
+export interface PaymentOrder {
+  gateway: 'razorpay' | 'fake';
+  // Public key for the gateway's checkout, null for the fake gateway
+  keyId: string | null;
+  orderId: string;
+  // In paise
+  amount: number;
+  currency: string;
+  bookingId: string;
+}
+
+interface CheckoutPrefill {
+  name?: string;
+  email?: string;
+  contact?: string;
+}
+
+interface RazorpayCheckout {
+  open(): void;
+  on(event: 'payment.failed', handler: () => void): void;
+}
+
+declare global {
+  interface Window {
+    Razorpay?: new (options: Record<string, unknown>) => RazorpayCheckout;
+  }
+}
+
+const RAZORPAY_CHECKOUT_URL = 'https://checkout.razorpay.com/v1/checkout.js';
+
+// Functions errors only carry the status text; the reason is in the JSON body
+const invokePayments = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('payments', { body });
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data as T;
+};
+
+export const createPaymentOrder = (bookingId: string) =>
+  invokePayments<PaymentOrder>({ action: 'create-order', bookingId });
+
+// Only works while the function runs with PAYMENT_GATEWAY=fake
+export const simulatePayment = (orderId: string, succeed: boolean) =>
+  invokePayments<{ status: string }>({ action: 'simulate', orderId, succeed });
+
+const loadRazorpayCheckout = () => new Promise<void>((resolve, reject) => {
+  if (window.Razorpay) return resolve();
+
+  const script = document.createElement('script');
+  script.src = RAZORPAY_CHECKOUT_URL;
+  script.onload = () => resolve();
+  script.onerror = () => reject(new Error('Could not load the payment form'));
+  document.body.appendChild(script);
+});
+
+// Resolves once the customer completes the form and rejects if they close it
+// or the payment fails
+export const openRazorpayCheckout = async (order: PaymentOrder, description: string, prefill: CheckoutPrefill) => {
+  await loadRazorpayCheckout();
+
+  return new Promise<void>((resolve, reject) => {
+    const checkout = new window.Razorpay!({
+      key: order.keyId,
+      order_id: order.orderId,
+      amount: order.amount,
+      currency: order.currency,
+      name: 'KonkanBliss',
+      description,
+      prefill,
+      theme: { color: '#14b8a6' },
+      handler: () => resolve(),
+      modal: { ondismiss: () => reject(new Error('Payment cancelled')) }
+    });
+    checkout.on('payment.failed', () => reject(new Error('Payment failed')));
+    checkout.open();
+  });
+};
+
+// Admins only: pays a pending refund back through the gateway
+export const issueRefund = (refundId: string) =>
+  invokePayments<{ status: string }>({ action: 'refund', refundId });
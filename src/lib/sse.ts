@@ -0,0 +1,2 @@
+// Shared with gemini-chat, which streams chat replies as server-sent events.
+export * from "../../supabase/functions/_shared/sse.ts";
@@ -0,0 +1,107 @@
+// Draws a small map of a few points onto a canvas from OpenStreetMap tiles,
+// for places where an interactive Leaflet map can't go (PDF exports).
+
+export interface MapPoint {
+  latitude: number;
+  longitude: number;
+}
+
+const TILE_SIZE = 256;
+const MAX_ZOOM = 14;
+const PADDING = 30;
+const TILE_URL = (z: number, x: number, y: number) => `https://tile.openstreetmap.org/${z}/${x}/${y}.png`;
+
+// Web Mercator pixel position of a point at a zoom level
+const project = ({ latitude, longitude }: MapPoint, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const lat = (latitude * Math.PI) / 180;
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: ((1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2) * scale
+  };
+};
+
+// The closest zoom at which every point fits inside the map with some padding
+const fitZoom = (points: MapPoint[], width: number, height: number) => {
+  for (let zoom = MAX_ZOOM; zoom > 0; zoom--) {
+    const projected = points.map(point => project(point, zoom));
+    const spanX = Math.max(...projected.map(p => p.x)) - Math.min(...projected.map(p => p.x));
+    const spanY = Math.max(...projected.map(p => p.y)) - Math.min(...projected.map(p => p.y));
+    if (spanX <= width - PADDING * 2 && spanY <= height - PADDING * 2) return zoom;
+  }
+  return 1;
+};
+
+const loadTile = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  // Tiles are served with CORS headers, which keeps the canvas exportable
+  image.crossOrigin = 'anonymous';
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error(`Could not load map tile ${url}`));
+  image.src = url;
+});
+
+// Returns a JPEG data URL, or null when there is nothing to show or the
+// tiles can't be fetched (e.g. offline)
+export const renderStaticMap = async (points: MapPoint[], width = 640, height = 300): Promise<string | null> => {
+  if (points.length === 0) return null;
+
+  const zoom = fitZoom(points, width, height);
+  const projected = points.map(point => project(point, zoom));
+  const centerX = (Math.max(...projected.map(p => p.x)) + Math.min(...projected.map(p => p.x))) / 2;
+  const centerY = (Math.max(...projected.map(p => p.y)) + Math.min(...projected.map(p => p.y))) / 2;
+  const left = centerX - width / 2;
+  const top = centerY - height / 2;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  const tiles = [];
+  for (let x = Math.floor(left / TILE_SIZE); x <= Math.floor((left + width) / TILE_SIZE); x++) {
+    for (let y = Math.floor(top / TILE_SIZE); y <= Math.floor((top + height) / TILE_SIZE); y++) {
+      tiles.push({ x, y });
+    }
+  }
+
+  try {
+    const images = await Promise.all(tiles.map(tile => loadTile(TILE_URL(zoom, tile.x, tile.y))));
+    images.forEach((image, index) => {
+      context.drawImage(image, tiles[index].x * TILE_SIZE - left, tiles[index].y * TILE_SIZE - top);
+    });
+  } catch (error) {
+    console.error('Error rendering static map:', error);
+    return null;
+  }
+
+  // Numbered pins in visiting order
+  projected.forEach((point, index) => {
+    const x = point.x - left;
+    const y = point.y - top;
+    context.beginPath();
+    context.arc(x, y, 11, 0, Math.PI * 2);
+    context.fillStyle = '#f97316';
+    context.fill();
+    context.lineWidth = 2;
+    context.strokeStyle = '#ffffff';
+    context.stroke();
+    context.fillStyle = '#ffffff';
+    context.font = 'bold 12px sans-serif';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(String(index + 1), x, y);
+  });
+
+  const attribution = '© OpenStreetMap contributors';
+  context.font = '10px sans-serif';
+  context.textAlign = 'right';
+  context.textBaseline = 'bottom';
+  context.fillStyle = 'rgba(255, 255, 255, 0.8)';
+  context.fillRect(width - context.measureText(attribution).width - 8, height - 14, width, 14);
+  context.fillStyle = '#333333';
+  context.fillText(attribution, width - 4, height - 2);
+
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
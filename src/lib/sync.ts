@@ -0,0 +1,89 @@
+// Optimistic concurrency for rows edited from more than one device.
+//
+// Synced rows carry a `revision` that the database bumps on every update.
+// Writes only succeed against the revision the client last saw; when another
+// device got there first, the local edit is merged with the latest row:
+//   - fields only this device changed keep the local value,
+//   - fields only the other device changed keep the remote value,
+//   - fields both changed keep the local value only when the caller says when
+//     the user made the edit and that was after the other device saved;
+//     otherwise the remote value stays and the field is reported as
+//     overwritten, so the caller can tell the user.
+
+export interface Revisioned {
+  revision: number;
+  updatedAt: Date;
+}
+
+export interface MergeResult<T> {
+  record: T;
+  // Fields where the other device's newer edit replaced ours
+  overwritten: (keyof T)[];
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export function resolveConflict<T extends Revisioned>(
+  base: T,
+  changes: Partial<T>,
+  remote: T,
+  editedAt: Date | null
+): { changes: Partial<T>; overwritten: (keyof T)[] } {
+  const merged: Partial<T> = {};
+  const overwritten: (keyof T)[] = [];
+
+  (Object.keys(changes) as (keyof T)[]).forEach(key => {
+    const local = changes[key];
+    if (sameValue(remote[key], local)) return;
+
+    const remoteChanged = !sameValue(remote[key], base[key]);
+    if (!remoteChanged || (editedAt && editedAt > remote.updatedAt)) {
+      merged[key] = local;
+    } else {
+      overwritten.push(key);
+    }
+  });
+
+  return { changes: merged, overwritten };
+}
+
+interface UpdateOptions<T extends Revisioned> {
+  base: T;
+  changes: Partial<T>;
+  // When the user made the edit; not when it is written, which is always later
+  editedAt?: Date;
+  // Applies the changes if the row is still at `expectedRevision`; resolves to null otherwise
+  write: (changes: Partial<T>, expectedRevision: number) => Promise<T | null>;
+  fetchLatest: () => Promise<T>;
+}
+
+const MAX_ATTEMPTS = 3;
+
+export async function updateWithConflictResolution<T extends Revisioned>({
+  base,
+  changes,
+  editedAt,
+  write,
+  fetchLatest
+}: UpdateOptions<T>): Promise<MergeResult<T>> {
+  const overwritten = new Set<keyof T>();
+  let current = base;
+  let pending = changes;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    if (Object.keys(pending).length === 0) {
+      return { record: current, overwritten: [...overwritten] };
+    }
+
+    const written = await write(pending, current.revision);
+    if (written) return { record: written, overwritten: [...overwritten] };
+
+    const latest = await fetchLatest();
+    const resolution = resolveConflict(current, pending, latest, editedAt ?? null);
+    resolution.overwritten.forEach(key => overwritten.add(key));
+    current = latest;
+    pending = resolution.changes;
+  }
+
+  throw new Error('The item keeps changing on another device. Please try again.');
+}
@@ -0,0 +1,150 @@
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+// What a group actually spent on a trip. Participants are just names, so
+// friends without an account can share costs too; anyone who can edit the
+// itinerary can keep the ledger.
+
+export type ExpenseCategory = 'food' | 'stay' | 'transport' | 'activities' | 'shopping' | 'other';
+
+export const EXPENSE_CATEGORIES: { value: ExpenseCategory; label: string }[] = [
+  { value: 'food', label: 'Food & drinks' },
+  { value: 'stay', label: 'Stay' },
+  { value: 'transport', label: 'Transport' },
+  { value: 'activities', label: 'Activities' },
+  { value: 'shopping', label: 'Shopping' },
+  { value: 'other', label: 'Other' }
+];
+
+export interface TripParticipant {
+  id: string;
+  name: string;
+}
+
+export interface TripExpense {
+  id: string;
+  description: string;
+  category: ExpenseCategory;
+  amount: number;
+  // Participant ids
+  paidBy: string;
+  splitAmong: string[];
+  // The itinerary activity this pays for, if any
+  activityName: string | null;
+  spentOn: Date | null;
+  createdAt: Date;
+}
+
+export type ExpenseInput = Omit<TripExpense, 'id' | 'createdAt'>;
+
+export class DuplicateParticipantError extends Error {
+  constructor(name: string) {
+    super(`${name} is already part of this trip.`);
+    this.name = 'DuplicateParticipantError';
+  }
+}
+
+export class ParticipantInUseError extends Error {
+  constructor() {
+    super('Change or delete the expenses this person paid for first.');
+    this.name = 'ParticipantInUseError';
+  }
+}
+
+const UNIQUE_VIOLATION = '23505';
+const FOREIGN_KEY_VIOLATION = '23503';
+
+const isCategory = (value: string): value is ExpenseCategory =>
+  EXPENSE_CATEGORIES.some(category => category.value === value);
+
+const fromExpenseRow = (row: Tables<'trip_expenses'>): TripExpense => ({
+  id: row.id,
+  description: row.description,
+  category: isCategory(row.category) ? row.category : 'other',
+  amount: Number(row.amount),
+  paidBy: row.paid_by,
+  splitAmong: row.split_among,
+  activityName: row.activity_name,
+  spentOn: row.spent_on ? parseISO(row.spent_on) : null,
+  createdAt: new Date(row.created_at)
+});
+
+const toExpenseColumns = (input: ExpenseInput) => ({
+  description: input.description.trim(),
+  category: input.category,
+  amount: Math.round(input.amount * 100) / 100,
+  paid_by: input.paidBy,
+  split_among: input.splitAmong,
+  activity_name: input.activityName,
+  spent_on: input.spentOn ? format(input.spentOn, 'yyyy-MM-dd') : null
+});
+
+export const fetchParticipants = async (itineraryId: string): Promise<TripParticipant[]> => {
+  const { data, error } = await supabase
+    .from('trip_participants')
+    .select('id, name')
+    .eq('itinerary_id', itineraryId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const addParticipant = async (itineraryId: string, name: string): Promise<TripParticipant> => {
+  const { data, error } = await supabase
+    .from('trip_participants')
+    .insert({ itinerary_id: itineraryId, name: name.trim() })
+    .select('id, name')
+    .single();
+
+  if (error?.code === UNIQUE_VIOLATION) throw new DuplicateParticipantError(name.trim());
+  if (error) throw error;
+  return data;
+};
+
+export const removeParticipant = async (participantId: string) => {
+  const { error } = await supabase.from('trip_participants').delete().eq('id', participantId);
+  if (error?.code === FOREIGN_KEY_VIOLATION) throw new ParticipantInUseError();
+  if (error) throw error;
+};
+
+// Newest first
+export const fetchExpenses = async (itineraryId: string): Promise<TripExpense[]> => {
+  const { data, error } = await supabase
+    .from('trip_expenses')
+    .select('*')
+    .eq('itinerary_id', itineraryId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(fromExpenseRow);
+};
+
+export const addExpense = async (itineraryId: string, input: ExpenseInput): Promise<TripExpense> => {
+  const { data, error } = await supabase
+    .from('trip_expenses')
+    .insert({ itinerary_id: itineraryId, ...toExpenseColumns(input) })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return fromExpenseRow(data);
+};
+
+export const updateExpense = async (expenseId: string, input: ExpenseInput): Promise<TripExpense> => {
+  const { data, error } = await supabase
+    .from('trip_expenses')
+    .update({ ...toExpenseColumns(input), updated_at: new Date().toISOString() })
+    .eq('id', expenseId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return fromExpenseRow(data);
+};
+
+export const deleteExpense = async (expenseId: string) => {
+  const { error } = await supabase.from('trip_expenses').delete().eq('id', expenseId);
+  if (error) throw error;
+};
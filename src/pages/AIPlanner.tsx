@@ -4,13 +4,10 @@ import { Navigation } from "@/components/Navigation";
 import { Footer } from "@/components/Footer";
 import { PlannerForm } from "@/components/PlannerForm";
 import { ItineraryDisplay } from "@/components/ItineraryDisplay";
+import type { Itinerary, TripPreferences } from "@/lib/itinerary";
 
-export interface ItineraryData {
-  days: number;
-  groupType: string;
-  exploreType: string;
-  budgetRange: string;
-  generatedPlan?: any;
+export interface ItineraryData extends TripPreferences {
+  generatedPlan?: Itinerary;
 }
 
 const AIPlanner = () => {
@@ -21,6 +18,10 @@ const AIPlanner = () => {
     setItinerary(planData);
   };
 
+  const handlePlanChange = (generatedPlan: Itinerary) => {
+    setItinerary(current => current && { ...current, generatedPlan });
+  };
+
   const handleGenerating = (generating: boolean) => {
     setIsGenerating(generating);
   };
@@ -48,6 +49,7 @@ const AIPlanner = () => {
               <ItineraryDisplay 
                 itinerary={itinerary}
                 isGenerating={isGenerating}
+                onPlanChange={handlePlanChange}
               />
             </div>
           </div>
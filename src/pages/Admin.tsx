@@ -0,0 +1,72 @@
+import { Navigation } from "@/components/Navigation";
+import { Footer } from "@/components/Footer";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { motion } from "framer-motion";
+import { ResourceManager } from "@/components/admin/ResourceManager";
+import { BookingsReview } from "@/components/admin/BookingsReview";
+import { RefundsReview } from "@/components/admin/RefundsReview";
+import { AuditLog } from "@/components/admin/AuditLog";
+import { adminResources } from "@/components/admin/resources";
+
+const Admin = () => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-konkan-turquoise-50 via-white to-konkan-orange-50">
+      <Navigation />
+
+      <div className="pt-16">
+        <section className="py-12 bg-gradient-to-br from-konkan-turquoise-600 via-konkan-orange-500 to-konkan-forest-600 text-white relative overflow-hidden">
+          <div className="absolute inset-0 bg-black/20"></div>
+          <div className="relative z-10 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
+            <motion.div
+              initial={{ opacity: 0, y: 30 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.8 }}
+            >
+              <h1 className="text-4xl md:text-5xl font-bold font-display mb-4">
+                Admin Console
+              </h1>
+              <p className="text-xl max-w-2xl mx-auto">
+                Manage the travel catalogue, review bookings and see who changed what
+              </p>
+            </motion.div>
+          </div>
+        </section>
+
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <Tabs defaultValue="bookings" className="space-y-8">
+            <TabsList className="flex flex-wrap h-auto justify-center mx-auto w-fit">
+              <TabsTrigger value="bookings">Bookings</TabsTrigger>
+              <TabsTrigger value="refunds">Refunds</TabsTrigger>
+              {adminResources.map(resource => (
+                <TabsTrigger key={resource.table} value={resource.table}>{resource.label}</TabsTrigger>
+              ))}
+              <TabsTrigger value="audit">Audit Trail</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="bookings">
+              <BookingsReview />
+            </TabsContent>
+
+            <TabsContent value="refunds">
+              <RefundsReview />
+            </TabsContent>
+
+            {adminResources.map(resource => (
+              <TabsContent key={resource.table} value={resource.table}>
+                <ResourceManager resource={resource} />
+              </TabsContent>
+            ))}
+
+            <TabsContent value="audit">
+              <AuditLog />
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Admin;
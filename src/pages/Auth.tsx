@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
 import { Navigation } from "@/components/Navigation";
 import { Footer } from "@/components/Footer";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,9 +8,12 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
-import { Eye, EyeOff, Mail, Lock, User, Phone, ArrowRight, Sparkles } from "lucide-react";
+import { Eye, EyeOff, Mail, Lock, User, Phone, ArrowRight, Sparkles, Loader2 } from "lucide-react";
 import { motion } from "framer-motion";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { PhoneLogin } from "@/components/PhoneLogin";
+import { supabase } from "@/integrations/supabase/client";
 
 const Auth = () => {
   const [showPassword, setShowPassword] = useState(false);
@@ -23,9 +27,20 @@ const Auth = () => {
     confirmPassword: ''
   });
   const [forgotEmail, setForgotEmail] = useState('');
+  const [submitting, setSubmitting] = useState(false);
   const { toast } = useToast();
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
 
-  const handleLogin = (e: React.FormEvent) => {
+  // Protected pages send visitors here with the page they wanted to see
+  const redirectTo = (location.state as { from?: { pathname: string } } | null)?.from?.pathname || '/dashboard';
+
+  if (!loading && user) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!loginData.email || !loginData.password) {
       toast({
@@ -35,15 +50,33 @@ const Auth = () => {
       });
       return;
     }
-    
-    // Mock login success
-    toast({
-      title: "Login Successful!",
-      description: "Welcome back to KonkanBliss!",
-    });
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.auth.signInWithPassword({
+        email: loginData.email,
+        password: loginData.password
+      });
+      if (error) throw error;
+
+      toast({
+        title: "Login Successful!",
+        description: "Welcome back to KonkanBliss!",
+      });
+      navigate(redirectTo, { replace: true });
+    } catch (error) {
+      console.error('Error signing in:', error);
+      toast({
+        title: "Login Failed",
+        description: error instanceof Error ? error.message : "Could not sign you in. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
   };
 
-  const handleSignup = (e: React.FormEvent) => {
+  const handleSignup = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!signupData.fullName || !signupData.email || !signupData.password) {
       toast({
@@ -62,15 +95,48 @@ const Auth = () => {
       });
       return;
     }
-    
-    // Mock signup success
-    toast({
-      title: "Account Created!",
-      description: "Welcome to KonkanBliss! Please check your email for verification.",
-    });
+
+    setSubmitting(true);
+    try {
+      // The profiles row is created from this metadata by a database trigger
+      const { data, error } = await supabase.auth.signUp({
+        email: signupData.email,
+        password: signupData.password,
+        options: {
+          emailRedirectTo: `${window.location.origin}/dashboard`,
+          data: {
+            full_name: signupData.fullName,
+            phone: signupData.phone || null
+          }
+        }
+      });
+      if (error) throw error;
+
+      if (data.session) {
+        toast({
+          title: "Account Created!",
+          description: "Welcome to KonkanBliss!",
+        });
+        navigate(redirectTo, { replace: true });
+      } else {
+        toast({
+          title: "Account Created!",
+          description: "Welcome to KonkanBliss! Please check your email for verification.",
+        });
+      }
+    } catch (error) {
+      console.error('Error signing up:', error);
+      toast({
+        title: "Sign Up Failed",
+        description: error instanceof Error ? error.message : "Could not create your account. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
   };
 
-  const handleForgotPassword = (e: React.FormEvent) => {
+  const handleForgotPassword = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!forgotEmail) {
       toast({
@@ -80,12 +146,28 @@ const Auth = () => {
       });
       return;
     }
-    
-    // Mock forgot password success
-    toast({
-      title: "Reset Link Sent!",
-      description: "Check your email for password reset instructions.",
-    });
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(forgotEmail, {
+        redirectTo: `${window.location.origin}/reset-password`
+      });
+      if (error) throw error;
+
+      toast({
+        title: "Reset Link Sent!",
+        description: "Check your email for password reset instructions.",
+      });
+    } catch (error) {
+      console.error('Error sending reset link:', error);
+      toast({
+        title: "Reset Failed",
+        description: error instanceof Error ? error.message : "Could not send the reset link. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
   };
 
   return (
@@ -130,8 +212,9 @@ const Auth = () => {
               
               <CardContent>
                 <Tabs defaultValue="login" className="space-y-6">
-                  <TabsList className="grid w-full grid-cols-2">
+                  <TabsList className="grid w-full grid-cols-3">
                     <TabsTrigger value="login">Login</TabsTrigger>
+                    <TabsTrigger value="phone">Phone</TabsTrigger>
                     <TabsTrigger value="signup">Sign Up</TabsTrigger>
                   </TabsList>
 
@@ -177,9 +260,10 @@ const Auth = () => {
                       
                       <Button 
                         type="submit"
+                        disabled={submitting}
                         className="w-full bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 hover:from-konkan-turquoise-600 hover:to-konkan-orange-600 text-white rounded-xl hover-lift"
                       >
-                        <ArrowRight className="mr-2" size={16} />
+                        {submitting ? <Loader2 className="mr-2 animate-spin" size={16} /> : <ArrowRight className="mr-2" size={16} />}
                         Login
                       </Button>
                     </form>
@@ -210,6 +294,7 @@ const Auth = () => {
                             <Button 
                               type="submit"
                               variant="outline"
+                              disabled={submitting}
                               className="w-full rounded-xl"
                             >
                               Send Reset Link
@@ -220,6 +305,11 @@ const Auth = () => {
                     </div>
                   </TabsContent>
 
+                  {/* Phone OTP Tab */}
+                  <TabsContent value="phone" className="space-y-6">
+                    <PhoneLogin onSignedIn={() => navigate(redirectTo, { replace: true })} />
+                  </TabsContent>
+
                   {/* Signup Tab */}
                   <TabsContent value="signup" className="space-y-6">
                     <form onSubmit={handleSignup} className="space-y-4">
@@ -314,9 +404,10 @@ const Auth = () => {
                       
                       <Button 
                         type="submit"
+                        disabled={submitting}
                         className="w-full bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 hover:from-konkan-turquoise-600 hover:to-konkan-orange-600 text-white rounded-xl hover-lift"
                       >
-                        <Sparkles className="mr-2" size={16} />
+                        {submitting ? <Loader2 className="mr-2 animate-spin" size={16} /> : <Sparkles className="mr-2" size={16} />}
                         Create Account
                       </Button>
                     </form>
@@ -366,13 +457,14 @@ const Auth = () => {
               🔐 Authentication Features
             </h3>
             <p className="text-konkan-sand-700 mb-3">
-              This is a UI mockup for authentication. In production with Supabase:
+              Your KonkanBliss account comes with:
             </p>
             <ul className="text-konkan-sand-700 text-sm space-y-1">
               <li>• Secure email/password authentication</li>
-              <li>• Social login with Google & Facebook</li>
               <li>• Email verification & password reset</li>
-              <li>• Profile management & preferences</li>
+              <li>• Login with a one-time code sent by SMS</li>
+              <li>• Itineraries and experiences synced across devices</li>
+              <li>• Social login with Google & Facebook (coming soon)</li>
             </ul>
           </motion.div>
         </div>
@@ -0,0 +1,329 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { format, startOfDay } from "date-fns";
+import { Navigation } from "@/components/Navigation";
+import { Footer } from "@/components/Footer";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import { AvailabilityCalendar } from "@/components/AvailabilityCalendar";
+import { CalendarIcon, Minus, Plus, Users, Loader2, ArrowLeft } from "lucide-react";
+import { motion } from "framer-motion";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useAvailability } from "@/hooks/use-availability";
+import { cn } from "@/lib/utils";
+import {
+  MAX_PARTY_SIZE,
+  calculateTotal,
+  createBooking,
+  describeCancellationPolicy,
+  fetchBookable,
+  fetchCancellationPolicy,
+  formatRupees,
+  fromDateColumn,
+  type Bookable,
+  type BookableType
+} from "@/lib/bookings";
+import type { Tables } from "@/integrations/supabase/types";
+
+const Book = () => {
+  const { type, id } = useParams<{ type: BookableType; id: string }>();
+  const [searchParams] = useSearchParams();
+  const [item, setItem] = useState<Bookable | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [bookingDate, setBookingDate] = useState<Date | undefined>(() => {
+    const date = searchParams.get('date');
+    return date && fromDateColumn(date) >= startOfDay(new Date()) ? fromDateColumn(date) : undefined;
+  });
+  const [numberOfPeople, setNumberOfPeople] = useState(2);
+  const [contactEmail, setContactEmail] = useState('');
+  const [contactPhone, setContactPhone] = useState('');
+  const [specialRequests, setSpecialRequests] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [policy, setPolicy] = useState<Tables<'cancellation_policies'> | null>(null);
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!id || (type !== 'package' && type !== 'tour_package')) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    fetchBookable(type, id)
+      .then(setItem)
+      .catch(error => console.error('Error fetching package:', error))
+      .finally(() => setLoading(false));
+  }, [type, id]);
+
+  useEffect(() => {
+    if (!item) return;
+    fetchCancellationPolicy(item)
+      .then(setPolicy)
+      .catch(error => console.error('Error fetching cancellation policy:', error));
+  }, [item]);
+
+  useEffect(() => {
+    if (user?.email) setContactEmail(current => current || user.email);
+    const phone = profile?.phone || user?.phone;
+    if (phone) setContactPhone(current => current || phone);
+  }, [user, profile]);
+
+  const availability = useAvailability(item);
+  const { isFull } = availability;
+  const seatsLeft = bookingDate ? availability.seatsLeft(bookingDate) : null;
+  const maxPeople = Math.max(1, Math.min(MAX_PARTY_SIZE, seatsLeft ?? item?.maxParticipants ?? MAX_PARTY_SIZE));
+
+  // A date picked from the package page may since have filled up
+  useEffect(() => {
+    if (bookingDate && isFull(bookingDate)) setBookingDate(undefined);
+  }, [bookingDate, isFull]);
+
+  useEffect(() => {
+    setNumberOfPeople(current => Math.min(current, maxPeople));
+  }, [maxPeople]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item || !user) return;
+
+    if (!bookingDate) {
+      toast({
+        title: "Pick a Date",
+        description: "Choose the date you'd like to travel.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!contactEmail && !contactPhone) {
+      toast({
+        title: "Missing Contact Details",
+        description: "Add an email or phone number so we can reach you about your booking.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const booking = await createBooking(user.id, {
+        item,
+        bookingDate,
+        numberOfPeople,
+        contactEmail,
+        contactPhone,
+        specialRequests
+      });
+      navigate(`/bookings/${booking.id}`, { replace: true });
+    } catch (error) {
+      console.error('Error creating booking:', error);
+      availability.refresh();
+      toast({
+        title: "Booking Failed",
+        description: error instanceof Error ? error.message : "Could not create your booking. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh]">
+        <Loader2 className="animate-spin text-konkan-turquoise-500" size={48} />
+        <p className="mt-4 text-lg text-gray-700">Loading package details...</p>
+      </div>
+    );
+  }
+
+  if (!item) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh]">
+        <p className="text-xl text-gray-600 font-semibold">Package not found.</p>
+        <Link to="/explore"><Button className="mt-6">Back to Explore</Button></Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-konkan-turquoise-50 via-white to-konkan-orange-50">
+      <Navigation />
+
+      <div className="pt-24 pb-16 max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Link to={item.type === 'package' ? `/package/${item.id}` : '/explore'}>
+          <Button variant="outline" className="mb-6 rounded-xl">
+            <ArrowLeft size={16} className="mr-2" />
+            Back
+          </Button>
+        </Link>
+
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6 }}
+          className="grid md:grid-cols-5 gap-6"
+        >
+          <Card className="glass-card border-0 shadow-xl md:col-span-3">
+            <CardHeader>
+              <CardTitle className="text-2xl font-display">Book {item.title}</CardTitle>
+              <CardDescription>{item.duration} · {formatRupees(item.price)} per person</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-5">
+                <div className="space-y-2">
+                  <Label>Travel Date</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className={cn("w-full justify-start text-left font-normal rounded-xl", !bookingDate && "text-muted-foreground")}
+                      >
+                        <CalendarIcon className="mr-2" size={16} />
+                        {bookingDate ? format(bookingDate, 'PPP') : 'Pick a date'}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <AvailabilityCalendar
+                        availability={availability}
+                        selected={bookingDate}
+                        onSelect={setBookingDate}
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Travellers</Label>
+                  <div className="flex items-center gap-3">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setNumberOfPeople(Math.max(1, numberOfPeople - 1))}
+                      disabled={numberOfPeople <= 1}
+                      className="rounded-xl"
+                    >
+                      <Minus size={16} />
+                    </Button>
+                    <span className="flex items-center gap-2 min-w-[80px] justify-center font-medium">
+                      <Users size={16} />
+                      {numberOfPeople}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setNumberOfPeople(Math.min(maxPeople, numberOfPeople + 1))}
+                      disabled={numberOfPeople >= maxPeople}
+                      className="rounded-xl"
+                    >
+                      <Plus size={16} />
+                    </Button>
+                  </div>
+                  {seatsLeft !== null && (
+                    <p className="text-xs text-gray-500">
+                      {seatsLeft} {seatsLeft === 1 ? 'seat' : 'seats'} left on this date
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="contact-email">Email</Label>
+                    <Input
+                      id="contact-email"
+                      type="email"
+                      value={contactEmail}
+                      onChange={(e) => setContactEmail(e.target.value)}
+                      placeholder="your@email.com"
+                      className="rounded-xl"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="contact-phone">Phone</Label>
+                    <Input
+                      id="contact-phone"
+                      type="tel"
+                      value={contactPhone}
+                      onChange={(e) => setContactPhone(e.target.value)}
+                      placeholder="+91 98765 43210"
+                      className="rounded-xl"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="special-requests">Special Requests</Label>
+                  <Textarea
+                    id="special-requests"
+                    value={specialRequests}
+                    onChange={(e) => setSpecialRequests(e.target.value)}
+                    placeholder="Dietary needs, pickup location, accessibility..."
+                    className="rounded-xl"
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={submitting}
+                  className="w-full bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 hover:from-konkan-turquoise-600 hover:to-konkan-orange-600 text-white rounded-xl hover-lift"
+                >
+                  {submitting && <Loader2 className="mr-2 animate-spin" size={16} />}
+                  Continue to Payment
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card className="glass-card border-0 shadow-xl md:col-span-2 h-fit">
+            {item.imageUrl && (
+              <img src={item.imageUrl} alt={item.title} className="w-full h-40 object-cover rounded-t-xl" />
+            )}
+            <CardHeader>
+              <CardTitle className="text-lg">Price Summary</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="flex justify-between">
+                <span>{formatRupees(item.price)} × {numberOfPeople} {numberOfPeople === 1 ? 'traveller' : 'travellers'}</span>
+                <span>{formatRupees(calculateTotal(item.price, numberOfPeople))}</span>
+              </div>
+              {bookingDate && (
+                <div className="flex justify-between text-gray-600">
+                  <span>Travel date</span>
+                  <span>{format(bookingDate, 'PPP')}</span>
+                </div>
+              )}
+              <Separator />
+              <div className="flex justify-between font-semibold text-base">
+                <span>Total</span>
+                <span>{formatRupees(calculateTotal(item.price, numberOfPeople))}</span>
+              </div>
+              {policy && (
+                <p className="text-xs text-gray-500">
+                  <strong>{policy.title} cancellation:</strong> {describeCancellationPolicy(policy)}
+                </p>
+              )}
+              <p className="text-xs text-gray-500">
+                You'll pay on the next step. Your booking is confirmed once payment is received.
+              </p>
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Book;
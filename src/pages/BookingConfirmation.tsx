@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Navigation } from "@/components/Navigation";
+import { Footer } from "@/components/Footer";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { BookingStatusBadge } from "@/components/BookingStatusBadge";
+import { PaymentPanel } from "@/components/PaymentPanel";
+import { CancelBookingButton } from "@/components/CancelBookingButton";
+import { BookingDocuments } from "@/components/BookingDocuments";
+import { CheckCircle2, Calendar, Users, Mail, Phone, Loader2 } from "lucide-react";
+import { motion } from "framer-motion";
+import { fetchBooking, formatRupees, type Booking } from "@/lib/bookings";
+
+const BookingConfirmation = () => {
+  const { id } = useParams<{ id: string }>();
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!id) return;
+    setLoading(true);
+    fetchBooking(id)
+      .then(setBooking)
+      .catch(error => console.error('Error fetching booking:', error))
+      .finally(() => setLoading(false));
+  }, [id]);
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh]">
+        <Loader2 className="animate-spin text-konkan-turquoise-500" size={48} />
+      </div>
+    );
+  }
+
+  if (!booking) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh]">
+        <p className="text-xl text-gray-600 font-semibold">Booking not found.</p>
+        <Link to="/dashboard"><Button className="mt-6">Go to Dashboard</Button></Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-konkan-turquoise-50 via-white to-konkan-orange-50">
+      <Navigation />
+
+      <div className="pt-24 pb-16 max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6 }}
+        >
+          <Card className="glass-card border-0 shadow-2xl">
+            <CardHeader className="text-center">
+              <CheckCircle2 className="mx-auto text-konkan-forest-500 mb-2" size={56} />
+              <CardTitle className="text-2xl font-display">
+                {booking.status === 'confirmed' ? 'Booking Confirmed!' : 'Booking Received!'}
+              </CardTitle>
+              <CardDescription>
+                Booking reference <span className="font-mono font-semibold">{booking.id.slice(0, 8).toUpperCase()}</span>
+              </CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h3 className="text-lg font-semibold">{booking.item.title}</h3>
+                  <p className="text-sm text-gray-600 flex items-center gap-2 mt-1">
+                    <Calendar size={14} />
+                    {format(booking.bookingDate, 'PPPP')}
+                  </p>
+                  <p className="text-sm text-gray-600 flex items-center gap-2 mt-1">
+                    <Users size={14} />
+                    {booking.numberOfPeople} {booking.numberOfPeople === 1 ? 'traveller' : 'travellers'}
+                  </p>
+                </div>
+                <BookingStatusBadge status={booking.status} />
+              </div>
+
+              <Separator />
+
+              <div className="space-y-1 text-sm text-gray-700">
+                {booking.contactEmail && (
+                  <p className="flex items-center gap-2"><Mail size={14} />{booking.contactEmail}</p>
+                )}
+                {booking.contactPhone && (
+                  <p className="flex items-center gap-2"><Phone size={14} />{booking.contactPhone}</p>
+                )}
+                {booking.specialRequests && (
+                  <p className="pt-2"><strong>Special requests:</strong> {booking.specialRequests}</p>
+                )}
+              </div>
+
+              <Separator />
+
+              <div className="flex justify-between font-semibold text-lg">
+                <span>Total</span>
+                <span>{formatRupees(booking.totalAmount)}</span>
+              </div>
+
+              {booking.status === 'pending' && (
+                <PaymentPanel booking={booking} onConfirmed={setBooking} />
+              )}
+
+              {(booking.status === 'confirmed' || booking.status === 'completed') && (
+                <BookingDocuments bookingId={booking.id} />
+              )}
+
+              {(booking.status === 'pending' || booking.status === 'confirmed') && (
+                <CancelBookingButton booking={booking} onCancelled={setBooking} />
+              )}
+
+              <div className="flex gap-3 pt-2">
+                <Link to="/dashboard?tab=bookings" className="flex-1">
+                  <Button className="w-full bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 text-white rounded-xl">
+                    View My Bookings
+                  </Button>
+                </Link>
+                <Link to="/explore" className="flex-1">
+                  <Button variant="outline" className="w-full rounded-xl">
+                    Keep Exploring
+                  </Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default BookingConfirmation;
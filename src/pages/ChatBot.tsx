@@ -1,14 +1,32 @@
 import { useState, useRef, useEffect } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { Navigation } from "@/components/Navigation";
 import { Footer } from "@/components/Footer";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { MessageCircle, Send, Mic, MicOff, Bot, User, Volume2, VolumeX, Sparkles, MapPin, AlertCircle } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ItineraryDiffCard, type ItineraryDiffStatus } from "@/components/ItineraryDiffCard";
+import { MessageCircle, Send, Mic, MicOff, Bot, User, Volume2, VolumeX, Sparkles, MapPin, AlertCircle, Route, Square } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchItineraries, updateItinerary, type StoredItinerary } from "@/lib/itineraryStore";
+import { applyItineraryDiff, type ItineraryDiff } from "@/lib/itineraryDiff";
+import type { Itinerary } from "@/lib/itinerary";
+import { readEvents } from "@/lib/sse";
+import type { Citation } from "@/lib/citations";
+
+// Edits the assistant suggested for the itinerary in context, against the
+// revision of it the assistant saw
+interface ItineraryProposal {
+  itineraryId: string;
+  revision: number;
+  plan: Itinerary;
+  edits: ItineraryDiff;
+  status: ItineraryDiffStatus;
+}
 
 interface Message {
   id: string;
@@ -16,8 +34,25 @@ interface Message {
   role: 'user' | 'assistant';
   timestamp: Date;
   error?: boolean;
+  proposal?: ItineraryProposal;
+  // Our records the answer is based on, cited in it as [n]
+  citations?: Citation[];
+  // Still arriving from the stream
+  streaming?: boolean;
+}
+
+interface BotReply {
+  response: string;
+  edits: ItineraryDiff;
+  citations: Citation[];
+  // Cancelled from the page before the answer was complete
+  stopped?: boolean;
 }
 
+const INTERRUPTED_NOTE = "⚠️ The connection to the AI dropped before I could finish. Please ask again for the rest.";
+
+const NO_ITINERARY = 'none';
+
 const ChatBot = () => {
   const [messages, setMessages] = useState<Message[]>([
     {
@@ -34,6 +69,12 @@ const ChatBot = () => {
   const [voiceEnabled, setVoiceEnabled] = useState(false);
   const [userLocation, setUserLocation] = useState<string>("");
   const [connectionStatus, setConnectionStatus] = useState<'connected' | 'error' | 'checking'>('checking');
+  const [itineraries, setItineraries] = useState<StoredItinerary[]>([]);
+  const [contextItinerary, setContextItinerary] = useState<StoredItinerary | null>(null);
+  const [acceptingId, setAcceptingId] = useState<string | null>(null);
+  // Cancels the reply being streamed
+  const replyAbortRef = useRef<AbortController | null>(null);
+  const [searchParams] = useSearchParams();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
@@ -76,6 +117,18 @@ const ChatBot = () => {
     testConnection();
   }, []);
 
+  useEffect(() => {
+    // Saved itineraries the chat can refine; /chat?itinerary=<id> opens with one selected
+    const requestedId = searchParams.get('itinerary');
+    fetchItineraries()
+      .then(stored => {
+        const refinable = stored.filter(itinerary => itinerary.plan && itinerary.plan.days.length > 0);
+        setItineraries(refinable);
+        if (requestedId) setContextItinerary(refinable.find(itinerary => itinerary.id === requestedId) ?? null);
+      })
+      .catch(error => console.error('Error fetching itineraries:', error));
+  }, [searchParams]);
+
   const testConnection = async () => {
     try {
       console.log('🔍 Testing Gemini API connection...');
@@ -105,16 +158,15 @@ const ChatBot = () => {
     }
   };
 
-  const callGeminiAPI = async (chatHistory: Message[]): Promise<string> => {
+  // Streams the reply, passing everything received so far to `onText` as it
+  // arrives. Aborting `signal` stops the stream and resolves with what came so far.
+  const callGeminiAPI = async (
+    chatHistory: Message[],
+    onText: (text: string) => void,
+    signal: AbortSignal
+  ): Promise<BotReply> => {
     try {
       console.log('🚀 Calling Gemini API with', chatHistory.length, 'messages');
-      console.log('📤 Request payload:', {
-        messages: chatHistory.map(msg => ({
-          role: msg.role,
-          content: msg.content
-        })),
-        userLocation: userLocation || undefined
-      });
 
       const { data, error } = await supabase.functions.invoke('gemini-chat', {
         body: {
@@ -122,34 +174,49 @@ const ChatBot = () => {
             role: msg.role,
             content: msg.content
           })),
-          userLocation: userLocation || undefined
-        }
+          userLocation: userLocation || undefined,
+          itinerary: contextItinerary ? { title: contextItinerary.title, plan: contextItinerary.plan } : undefined,
+          stream: true
+        },
+        signal
       });
 
-      console.log('📥 Supabase function response:', { data, error });
+      // Stopped before the reply started
+      if (signal.aborted) return { response: '', edits: [], citations: [], stopped: true };
 
       if (error) {
         console.error('❌ Supabase function error:', error);
         throw new Error(error.message || 'Failed to call Gemini API');
       }
 
-      if (data?.error) {
-        console.error('❌ Gemini API error from server:', data.error);
-        // If there's an error but also a response, use the response (fallback)
-        if (data.response) {
-          console.log('✅ Using fallback response');
-          return data.response;
+      // The function answers with plain JSON when it can't reach Gemini at all
+      if (!(data instanceof Response)) {
+        if (data?.response) {
+          if (data.error) console.error('❌ Gemini API error from server:', data.error);
+          return { response: data.response, edits: data.edits ?? [], citations: data.citations ?? [] };
         }
-        throw new Error(data.error);
+        throw new Error(data?.error || 'No response received from AI service');
       }
 
-      if (!data?.response) {
-        console.error('❌ No response from Gemini API');
-        throw new Error('No response received from AI service');
+      let streamed = '';
+      for await (const event of readEvents(data.body!, signal)) {
+        const payload = JSON.parse(event.data);
+        if (event.event === 'delta') {
+          streamed += payload.text;
+          onText(streamed);
+        } else if (event.event === 'done') {
+          console.log('✅ Successfully received response:', payload.response.substring(0, 100) + '...');
+          return { response: payload.response, edits: payload.edits ?? [], citations: payload.citations ?? [] };
+        } else if (event.event === 'fallback') {
+          // Keep whatever already arrived rather than swapping it for a canned answer
+          console.error('❌ Gemini API error from server:', payload.error);
+          return { response: streamed ? `${streamed}\n\n${INTERRUPTED_NOTE}` : payload.response, edits: [], citations: [] };
+        }
       }
 
-      console.log('✅ Successfully received response:', data.response.substring(0, 100) + '...');
-      return data.response;
+      if (signal.aborted) return { response: streamed, edits: [], citations: [], stopped: true };
+      if (streamed) return { response: `${streamed}\n\n${INTERRUPTED_NOTE}`, edits: [], citations: [] };
+      throw new Error('The response stream ended unexpectedly');
     } catch (error) {
       console.error('💥 Error calling Gemini API:', error);
       throw error;
@@ -173,21 +240,49 @@ const ChatBot = () => {
     setInputMessage("");
     setIsLoading(true);
 
+    const replyId = (Date.now() + 1).toString();
+    const controller = new AbortController();
+    replyAbortRef.current = controller;
+
+    // The reply bubble appears with the first words and grows as more arrive
+    const showPartialReply = (text: string) => setMessages(prev => (
+      prev.some(message => message.id === replyId)
+        ? prev.map(message => (message.id === replyId ? { ...message, content: text } : message))
+        : [...prev, { id: replyId, content: text, role: 'assistant', timestamp: new Date(), streaming: true }]
+    ));
+
     try {
       // Get the last 10 messages for context (to avoid token limits)
       const recentMessages = newMessages.slice(-10);
       console.log('🔄 Processing', recentMessages.length, 'recent messages');
       
-      const botResponse = await callGeminiAPI(recentMessages);
+      const { response: botResponse, edits, citations, stopped } = await callGeminiAPI(recentMessages, showPartialReply, controller.signal);
+
+      if (stopped) {
+        setMessages(prev => [
+          ...prev.filter(message => message.id !== replyId),
+          {
+            id: replyId,
+            content: botResponse ? `${botResponse} …` : "Stopped before answering.",
+            role: 'assistant',
+            timestamp: new Date()
+          }
+        ]);
+        return;
+      }
 
       const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: replyId,
         content: botResponse,
         role: 'assistant',
-        timestamp: new Date()
+        timestamp: new Date(),
+        citations,
+        proposal: contextItinerary?.plan && edits.length > 0
+          ? { itineraryId: contextItinerary.id, revision: contextItinerary.revision, plan: contextItinerary.plan, edits, status: 'pending' }
+          : undefined
       };
 
-      setMessages(prev => [...prev, assistantMessage]);
+      setMessages(prev => [...prev.filter(message => message.id !== replyId), assistantMessage]);
       setConnectionStatus('connected');
 
       // Speak the response if voice is enabled
@@ -216,14 +311,14 @@ const ChatBot = () => {
       setConnectionStatus('error');
       
       const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: replyId,
         content: "I'm sorry, I'm experiencing some technical difficulties. Please try again in a moment! In the meantime, I'd love to help you plan your Konkan adventure - ask me about beaches, food, or activities! 🏖️",
         role: 'assistant',
         timestamp: new Date(),
         error: true
       };
 
-      setMessages(prev => [...prev, errorMessage]);
+      setMessages(prev => [...prev.filter(message => message.id !== replyId), errorMessage]);
 
       toast({
         title: "Connection Error",
@@ -231,10 +326,61 @@ const ChatBot = () => {
         variant: "destructive"
       });
     } finally {
+      replyAbortRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleStop = () => {
+    replyAbortRef.current?.abort();
+  };
+
+  const setProposalStatus = (messageId: string, status: ItineraryDiffStatus) => {
+    setMessages(prev => prev.map(message => (
+      message.id === messageId && message.proposal ? { ...message, proposal: { ...message.proposal, status } } : message
+    )));
+  };
+
+  const isStale = (proposal: ItineraryProposal) =>
+    contextItinerary?.id !== proposal.itineraryId || contextItinerary.revision !== proposal.revision;
+
+  const handleAcceptEdits = async (message: Message) => {
+    const proposal = message.proposal;
+    if (!proposal || !contextItinerary || isStale(proposal)) return;
+
+    setAcceptingId(message.id);
+    try {
+      const { record, overwritten } = await updateItinerary(contextItinerary, {
+        plan: applyItineraryDiff(proposal.plan, proposal.edits)
+      });
+      setContextItinerary(record);
+      setItineraries(prev => prev.map(itinerary => (itinerary.id === record.id ? record : itinerary)));
+
+      if (overwritten.includes('plan')) {
+        toast({
+          title: "Updated Elsewhere",
+          description: "This itinerary was changed on another device, so those changes were kept. Ask again to refine the latest version.",
+        });
+        return;
+      }
+
+      setProposalStatus(message.id, 'accepted');
+      toast({
+        title: "Itinerary Updated",
+        description: `The changes were saved to "${record.title}".`,
+      });
+    } catch (error) {
+      console.error('Error applying itinerary edits:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to save the changes to your itinerary. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setAcceptingId(null);
+    }
+  };
+
   const handleQuickQuestion = (question: string) => {
     if (isLoading) return;
     setInputMessage(question);
@@ -466,7 +612,41 @@ const ChatBot = () => {
                             ? 'bg-red-50 border border-red-200 text-red-800'
                             : 'bg-white/90 backdrop-blur-md border border-white/30 text-gray-800'
                         }`}>
-                          <p className="text-sm leading-relaxed break-words whitespace-pre-wrap">{message.content}</p>
+                          <p className="text-sm leading-relaxed break-words whitespace-pre-wrap">
+                            {message.content}
+                            {message.streaming && <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-konkan-turquoise-500 animate-pulse" />}
+                          </p>
+                          {message.citations && message.citations.length > 0 && (
+                            <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+                              <span className="text-gray-500">Sources:</span>
+                              {message.citations.map(citation => (
+                                citation.url ? (
+                                  <Link
+                                    key={citation.ref}
+                                    to={citation.url}
+                                    className="rounded-full bg-konkan-turquoise-50 px-2 py-1 text-konkan-turquoise-700 hover:bg-konkan-turquoise-100 hover:underline"
+                                  >
+                                    [{citation.ref}] {citation.title}
+                                  </Link>
+                                ) : (
+                                  <span key={citation.ref} className="rounded-full bg-gray-100 px-2 py-1 text-gray-600">
+                                    [{citation.ref}] {citation.title}
+                                  </span>
+                                )
+                              ))}
+                            </div>
+                          )}
+                          {message.proposal && (
+                            <ItineraryDiffCard
+                              plan={message.proposal.plan}
+                              edits={message.proposal.edits}
+                              status={message.proposal.status}
+                              stale={message.proposal.status === 'pending' && isStale(message.proposal)}
+                              accepting={acceptingId === message.id}
+                              onAccept={() => handleAcceptEdits(message)}
+                              onDismiss={() => setProposalStatus(message.id, 'dismissed')}
+                            />
+                          )}
                           <p className={`text-xs mt-2 opacity-70 ${
                             message.role === 'user' ? 'text-orange-100' : 
                             message.error ? 'text-red-600' : 'text-gray-500'
@@ -480,7 +660,7 @@ const ChatBot = () => {
                   ))}
                 </AnimatePresence>
 
-                {isLoading && (
+                {isLoading && !messages.some(message => message.streaming) && (
                   <motion.div
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
@@ -504,6 +684,35 @@ const ChatBot = () => {
                 <div ref={messagesEndRef} />
               </div>
 
+              {/* Itinerary context */}
+              {itineraries.length > 0 && (
+                <div className="px-6 py-3 border-t border-white/20 bg-white/80 backdrop-blur-sm flex flex-col sm:flex-row sm:items-center gap-2">
+                  <p className="text-sm text-gray-600 flex items-center gap-1 shrink-0">
+                    <Route size={14} />
+                    Refine an itinerary:
+                  </p>
+                  <Select
+                    value={contextItinerary?.id ?? NO_ITINERARY}
+                    onValueChange={(value) => setContextItinerary(itineraries.find(itinerary => itinerary.id === value) ?? null)}
+                  >
+                    <SelectTrigger className="h-8 rounded-xl sm:max-w-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ITINERARY}>None, just chat</SelectItem>
+                      {itineraries.map(itinerary => (
+                        <SelectItem key={itinerary.id} value={itinerary.id}>{itinerary.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {contextItinerary && (
+                    <Link to={`/itineraries/${contextItinerary.id}/edit`} className="text-xs text-konkan-turquoise-600 hover:underline">
+                      Open in editor
+                    </Link>
+                  )}
+                </div>
+              )}
+
               {/* Quick Questions */}
               <div className="px-6 py-4 border-t border-white/20 bg-white/80 backdrop-blur-sm">
                 <p className="text-sm text-gray-600 mb-3">Quick questions:</p>
@@ -531,7 +740,7 @@ const ChatBot = () => {
                     <Input
                       value={inputMessage}
                       onChange={(e) => setInputMessage(e.target.value)}
-                      placeholder="Ask me anything about Konkan..."
+                      placeholder={contextItinerary ? 'e.g. "Move the fort to day 2" or "Add a vegetarian lunch spot"' : "Ask me anything about Konkan..."}
                       className="pr-12 rounded-2xl border-konkan-turquoise-200 focus:border-konkan-turquoise-400 bg-white/90 backdrop-blur-sm focus:bg-white transition-all duration-200"
                       onKeyPress={(e) => e.key === 'Enter' && !e.shiftKey && handleSendMessage()}
                       disabled={isLoading}
@@ -548,13 +757,24 @@ const ChatBot = () => {
                       {isListening ? <MicOff size={16} /> : <Mic size={16} />}
                     </Button>
                   </div>
-                  <Button
-                    onClick={handleSendMessage}
-                    disabled={!inputMessage.trim() || isLoading}
-                    className="bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 hover:from-konkan-turquoise-600 hover:to-konkan-orange-600 text-white rounded-2xl px-6 shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    <Send size={16} />
-                  </Button>
+                  {isLoading ? (
+                    <Button
+                      onClick={handleStop}
+                      variant="outline"
+                      aria-label="Stop generating"
+                      className="rounded-2xl px-6 border-konkan-turquoise-200 shadow-lg"
+                    >
+                      <Square size={16} />
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={handleSendMessage}
+                      disabled={!inputMessage.trim()}
+                      className="bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 hover:from-konkan-turquoise-600 hover:to-konkan-orange-600 text-white rounded-2xl px-6 shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Send size={16} />
+                    </Button>
+                  )}
                 </div>
               </div>
             </CardContent>
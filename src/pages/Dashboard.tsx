@@ -1,6 +1,8 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Navigation } from "@/components/Navigation";
 import { Footer } from "@/components/Footer";
+import { MyBookings } from "@/components/MyBookings";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -9,9 +11,35 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Calendar, MapPin, Edit, Trash2, Share2, Download, Plus, Star, Camera, Heart } from "lucide-react";
+import { Calendar, MapPin, Edit, Trash2, Share2, Download, Plus, Star, Camera, Heart, Ticket, Link2, MessageCircle, History, LogOut, Users, Wallet } from "lucide-react";
 import { motion } from "framer-motion";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import { itineraryPlaces, type Itinerary } from "@/lib/itinerary";
+import {
+  ITINERARIES_CHANGED_EVENT,
+  deleteItinerary,
+  fetchItineraries,
+  fetchSharedWithMe,
+  pendingItineraries,
+  revokeItineraryShare,
+  shareItinerary,
+  updateItinerary,
+  type StoredItinerary
+} from "@/lib/itineraryStore";
+import {
+  createExperience,
+  fetchExperiences,
+  updateExperience,
+  type Experience
+} from "@/lib/experienceStore";
+import { importLocalDashboardData } from "@/lib/localImport";
+import { acceptItineraryInvites, leaveItinerary } from "@/lib/itineraryCollaboration";
+import { exportItineraryPdf } from "@/lib/itineraryPdf";
+import { CalendarExportButton } from "@/components/CalendarExportButton";
+import { ItineraryHistory } from "@/components/ItineraryHistory";
+import { ItineraryCollaborators } from "@/components/ItineraryCollaborators";
 
 interface SavedItinerary {
   id: string;
@@ -23,124 +51,330 @@ interface SavedItinerary {
   createdAt: Date;
   lastModified: Date;
   status: 'draft' | 'completed' | 'active';
+  plan?: Itinerary;
+  syncStatus: 'synced' | 'pending';
+  shareSlug: string | null;
+  stored: StoredItinerary;
 }
 
-interface Experience {
-  id: string;
+interface ExperienceForm {
   title: string;
   location: string;
-  date: Date;
   rating: number;
-  photos: string[];
   description: string;
-  tags: string[];
+  tags: string;
 }
 
+const emptyExperienceForm: ExperienceForm = {
+  title: '',
+  location: '',
+  rating: 5,
+  description: '',
+  tags: ''
+};
+
+const fromStoredItinerary = (stored: StoredItinerary): SavedItinerary => ({
+  id: stored.id,
+  title: stored.title,
+  duration: `${stored.preferences.days} ${stored.preferences.days === 1 ? 'day' : 'days'}`,
+  destinations: stored.plan ? itineraryPlaces(stored.plan) : [],
+  budget: stored.preferences.budgetRange,
+  groupType: stored.preferences.groupType,
+  createdAt: stored.createdAt,
+  lastModified: stored.updatedAt,
+  status: stored.status,
+  plan: stored.plan ?? undefined,
+  syncStatus: stored.pending ? 'pending' : 'synced',
+  shareSlug: stored.shareSlug,
+  stored
+});
+
+const toExperienceFields = (form: ExperienceForm) => ({
+  title: form.title,
+  location: form.location,
+  rating: form.rating,
+  description: form.description,
+  tags: form.tags.split(',').map(tag => tag.trim()).filter(tag => tag)
+});
+
+const ExperienceFields = ({ value, onChange }: { value: ExperienceForm; onChange: (value: ExperienceForm) => void }) => (
+  <>
+    <div>
+      <Label htmlFor="title">Experience Title</Label>
+      <Input
+        id="title"
+        value={value.title}
+        onChange={(e) => onChange({...value, title: e.target.value})}
+        placeholder="e.g., Amazing sunset at Tarkarli"
+        className="rounded-xl"
+      />
+    </div>
+    <div>
+      <Label htmlFor="location">Location</Label>
+      <Input
+        id="location"
+        value={value.location}
+        onChange={(e) => onChange({...value, location: e.target.value})}
+        placeholder="e.g., Tarkarli Beach"
+        className="rounded-xl"
+      />
+    </div>
+    <div>
+      <Label htmlFor="rating">Rating</Label>
+      <div className="flex gap-1 mt-1">
+        {[1, 2, 3, 4, 5].map((star) => (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange({...value, rating: star})}
+            className={`p-1 ${star <= value.rating ? 'text-yellow-500' : 'text-gray-300'}`}
+          >
+            <Star size={20} fill="currentColor" />
+          </button>
+        ))}
+      </div>
+    </div>
+    <div>
+      <Label htmlFor="description">Description</Label>
+      <Textarea
+        id="description"
+        value={value.description}
+        onChange={(e) => onChange({...value, description: e.target.value})}
+        placeholder="Share your experience..."
+        className="rounded-xl"
+      />
+    </div>
+    <div>
+      <Label htmlFor="tags">Tags (comma separated)</Label>
+      <Input
+        id="tags"
+        value={value.tags}
+        onChange={(e) => onChange({...value, tags: e.target.value})}
+        placeholder="e.g., beach, sunset, photography"
+        className="rounded-xl"
+      />
+    </div>
+  </>
+);
+
 const Dashboard = () => {
-  const [savedItineraries, setSavedItineraries] = useState<SavedItinerary[]>([]);
+  const [itineraries, setItineraries] = useState<SavedItinerary[]>([]);
   const [experiences, setExperiences] = useState<Experience[]>([]);
-  const [newExperience, setNewExperience] = useState({
-    title: '',
-    location: '',
-    rating: 5,
-    description: '',
-    tags: ''
-  });
+  const [newExperience, setNewExperience] = useState<ExperienceForm>(emptyExperienceForm);
+  const [editingExperience, setEditingExperience] = useState<Experience | null>(null);
+  const [experienceEdits, setExperienceEdits] = useState<ExperienceForm>(emptyExperienceForm);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  // Itineraries saved from the AI planner, including ones still waiting to
+  // sync, followed by ones co-travellers invited the user to
+  const loadItineraries = useCallback(async () => {
+    try {
+      const pending = await pendingItineraries();
+      const synced = await fetchItineraries().catch(error => {
+        console.error('Error fetching saved itineraries:', error);
+        return [];
+      });
+      const shared = await fetchSharedWithMe().catch(error => {
+        console.error('Error fetching shared itineraries:', error);
+        return [];
+      });
+      setItineraries([...pending, ...synced, ...shared].map(fromStoredItinerary));
+    } catch (error) {
+      console.error('Error loading saved itineraries:', error);
+    }
+  }, []);
+
+  const loadExperiences = useCallback(async (id: string) => {
+    try {
+      setExperiences(await fetchExperiences(id));
+    } catch (error) {
+      console.error('Error fetching experiences:', error);
+    }
+  }, []);
 
-  // Load data from localStorage on component mount
   useEffect(() => {
-    const savedData = localStorage.getItem('konkanbliss-itineraries');
-    if (savedData) {
-      setSavedItineraries(JSON.parse(savedData));
-    } else {
-      // Mock data for demonstration
-      setSavedItineraries([
-        {
-          id: '1',
-          title: 'Konkan Beach Hopping',
-          duration: '5 days',
-          destinations: ['Tarkarli', 'Malvan', 'Vengurla'],
-          budget: 'Moderate (₹5,000 - ₹10,000)',
-          groupType: 'Friends',
-          createdAt: new Date('2024-01-15'),
-          lastModified: new Date('2024-01-20'),
-          status: 'completed'
-        },
-        {
-          id: '2',
-          title: 'Heritage & Culture Tour',
-          duration: '3 days',
-          destinations: ['Sindhudurg Fort', 'Sawantwadi', 'Amboli'],
-          budget: 'Budget (₹2,000 - ₹5,000)',
-          groupType: 'Family',
-          createdAt: new Date('2024-02-01'),
-          lastModified: new Date('2024-02-01'),
-          status: 'draft'
-        },
-        {
-          id: '3',
-          title: 'Adventure Weekend',
-          duration: '2 days',
-          destinations: ['Tarkarli', 'Devbagh'],
-          budget: 'Premium (₹10,000 - ₹20,000)',
-          groupType: 'Couple',
-          createdAt: new Date('2024-02-10'),
-          lastModified: new Date('2024-02-12'),
-          status: 'active'
-        }
-      ]);
+    window.addEventListener(ITINERARIES_CHANGED_EVENT, loadItineraries);
+    return () => window.removeEventListener(ITINERARIES_CHANGED_EVENT, loadItineraries);
+  }, [loadItineraries]);
+
+  useEffect(() => {
+    if (!userId) {
+      setItineraries([]);
+      setExperiences([]);
+      return;
     }
 
-    const savedExperiences = localStorage.getItem('konkanbliss-experiences');
-    if (savedExperiences) {
-      setExperiences(JSON.parse(savedExperiences));
-    } else {
-      // Mock experiences
-      setExperiences([
-        {
-          id: '1',
-          title: 'Amazing Scuba Diving at Tarkarli',
-          location: 'Tarkarli Beach',
-          date: new Date('2024-01-20'),
-          rating: 5,
-          photos: ['https://images.unsplash.com/photo-1500673922987-e212871fec22?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&q=80'],
-          description: 'Had an incredible scuba diving experience! The water was crystal clear and we saw amazing marine life.',
-          tags: ['scuba diving', 'water sports', 'adventure']
-        },
-        {
-          id: '2',
-          title: 'Sunset at Sindhudurg Fort',
-          location: 'Sindhudurg Fort',
-          date: new Date('2024-01-18'),
-          rating: 4,
-          photos: ['https://images.unsplash.com/photo-1466442929976-97f336a657be?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&q=80'],
-          description: 'The fort looks magnificent during sunset. Rich history and beautiful architecture.',
-          tags: ['heritage', 'photography', 'sunset']
+    const loadDashboard = async () => {
+      // Anything this browser saved before cloud sync is moved into the account once
+      try {
+        const imported = await importLocalDashboardData(userId);
+        if (imported > 0) {
+          toast({
+            title: "Dashboard Imported",
+            description: `${imported} item${imported === 1 ? '' : 's'} saved on this device ${imported === 1 ? 'was' : 'were'} added to your account.`,
+          });
+        }
+      } catch (error) {
+        console.error('Error importing local dashboard data:', error);
+      }
+
+      try {
+        const accepted = await acceptItineraryInvites();
+        if (accepted > 0) {
+          toast({
+            title: "Invites Accepted",
+            description: `You've been added to ${accepted} shared itinerar${accepted === 1 ? 'y' : 'ies'}.`,
+          });
         }
-      ]);
+      } catch (error) {
+        console.error('Error accepting itinerary invites:', error);
+      }
+
+      loadItineraries();
+      loadExperiences(userId);
+    };
+
+    loadDashboard();
+
+    // Pick up edits made on other devices and by co-travellers. Realtime only
+    // sends rows the user can read, so no filter is needed for shared ones.
+    const channel = supabase
+      .channel(`dashboard-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'itineraries' },
+        () => loadItineraries()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'itinerary_members' },
+        () => loadItineraries()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'experiences', filter: `user_id=eq.${userId}` },
+        () => loadExperiences(userId)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, loadItineraries, loadExperiences, toast]);
+
+  const handleDeleteItinerary = async (itinerary: SavedItinerary) => {
+    try {
+      await deleteItinerary(itinerary.id);
+      toast({
+        title: "Itinerary Deleted",
+        description: "Your itinerary has been removed from saved items.",
+      });
+    } catch (error) {
+      console.error('Error deleting itinerary:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to delete the itinerary. Please try again.",
+        variant: "destructive"
+      });
     }
-  }, []);
+  };
 
-  const handleDeleteItinerary = (id: string) => {
-    const updated = savedItineraries.filter(item => item.id !== id);
-    setSavedItineraries(updated);
-    localStorage.setItem('konkanbliss-itineraries', JSON.stringify(updated));
-    toast({
-      title: "Itinerary Deleted",
-      description: "Your itinerary has been removed from saved items.",
-    });
+  const handleLeaveItinerary = async (itinerary: SavedItinerary) => {
+    try {
+      await leaveItinerary(itinerary.id);
+      setItineraries(current => current.filter(item => item.id !== itinerary.id));
+      toast({
+        title: "Left Itinerary",
+        description: `"${itinerary.title}" is no longer on your dashboard.`,
+      });
+    } catch (error) {
+      console.error('Error leaving itinerary:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to leave the itinerary. Please try again.",
+        variant: "destructive"
+      });
+    }
   };
 
-  const handleShareItinerary = (itinerary: SavedItinerary) => {
-    navigator.clipboard.writeText(`Check out my ${itinerary.title} itinerary on KonkanBliss!`);
-    toast({
-      title: "Link Copied",
-      description: "Itinerary share link copied to clipboard.",
-    });
+  const handleShareItinerary = async (itinerary: SavedItinerary) => {
+    if (itinerary.syncStatus === 'pending') {
+      toast({
+        title: "Not Synced Yet",
+        description: "This itinerary can be shared once it has synced to your account.",
+      });
+      return;
+    }
+
+    try {
+      const url = await shareItinerary(itinerary.id);
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Link Copied",
+        description: "Anyone with the link can view this itinerary.",
+      });
+    } catch (error) {
+      console.error('Error sharing itinerary:', error);
+      toast({
+        title: "Share Failed",
+        description: "Could not create a share link. Please try again.",
+        variant: "destructive"
+      });
+    }
   };
 
-  const handleAddExperience = () => {
+  const handleStopSharing = async (itinerary: SavedItinerary) => {
+    try {
+      await revokeItineraryShare(itinerary.id);
+      toast({
+        title: "Sharing Stopped",
+        description: "The old link no longer opens this itinerary.",
+      });
+    } catch (error) {
+      console.error('Error revoking itinerary share:', error);
+      toast({
+        title: "Update Failed",
+        description: "Could not turn off the share link. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDownloadItinerary = async (itinerary: SavedItinerary) => {
+    if (!itinerary.plan) return;
+
+    setExportingId(itinerary.id);
+    try {
+      await exportItineraryPdf(itinerary.plan, {
+        title: itinerary.title,
+        groupType: itinerary.groupType,
+        budget: itinerary.budget
+      });
+    } catch (error) {
+      console.error('Error exporting itinerary PDF:', error);
+      toast({
+        title: "Download Failed",
+        description: "Could not create the PDF. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  // Remembered so later exports of an edited plan keep the same dates
+  const handleStartDateChange = async (itinerary: SavedItinerary, startDate: Date) => {
+    if (itinerary.syncStatus === 'pending') return;
+    await updateItinerary(itinerary.stored, { startDate });
+  };
+
+  const handleAddExperience = async () => {
     if (!newExperience.title || !newExperience.location) {
       toast({
         title: "Missing Information",
@@ -149,36 +383,84 @@ const Dashboard = () => {
       });
       return;
     }
+    if (!userId) return;
 
-    const experience: Experience = {
-      id: Date.now().toString(),
-      title: newExperience.title,
-      location: newExperience.location,
-      date: new Date(),
-      rating: newExperience.rating,
-      photos: [],
-      description: newExperience.description,
-      tags: newExperience.tags.split(',').map(tag => tag.trim()).filter(tag => tag)
-    };
+    try {
+      const experience = await createExperience(userId, toExperienceFields(newExperience));
+      setExperiences([experience, ...experiences.filter(item => item.id !== experience.id)]);
+      setNewExperience(emptyExperienceForm);
 
-    const updated = [...experiences, experience];
-    setExperiences(updated);
-    localStorage.setItem('konkanbliss-experiences', JSON.stringify(updated));
-    
-    setNewExperience({
-      title: '',
-      location: '',
-      rating: 5,
-      description: '',
-      tags: ''
-    });
+      toast({
+        title: "Experience Added",
+        description: "Your travel experience has been saved!",
+      });
+    } catch (error) {
+      console.error('Error saving experience:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save your experience. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
 
-    toast({
-      title: "Experience Added",
-      description: "Your travel experience has been saved!",
+  const handleEditExperience = (experience: Experience) => {
+    setEditingExperience(experience);
+    setExperienceEdits({
+      title: experience.title,
+      location: experience.location,
+      rating: experience.rating,
+      description: experience.description,
+      tags: experience.tags.join(', ')
     });
   };
 
+  const handleUpdateExperience = async () => {
+    if (!editingExperience) return;
+    if (!experienceEdits.title || !experienceEdits.location) {
+      toast({
+        title: "Missing Information",
+        description: "Please fill in the title and location.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Only send the fields that were actually edited so the merge can keep
+    // changes made to the other fields on another device
+    const edited = toExperienceFields(experienceEdits);
+    const changes = Object.fromEntries(
+      Object.entries(edited).filter(([key, value]) =>
+        JSON.stringify(value) !== JSON.stringify(editingExperience[key as keyof typeof edited])
+      )
+    ) as Partial<Experience>;
+
+    try {
+      const { record, overwritten } = await updateExperience(editingExperience, changes);
+      setExperiences(experiences.map(item => item.id === record.id ? record : item));
+      setEditingExperience(null);
+
+      if (overwritten.length > 0) {
+        toast({
+          title: "Edited on Another Device",
+          description: `Newer changes to ${overwritten.join(', ')} from another device were kept. Your other edits were saved.`,
+        });
+      } else {
+        toast({
+          title: "Experience Updated",
+          description: "Your changes have been saved.",
+        });
+      }
+    } catch (error) {
+      console.error('Error updating experience:', error);
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Failed to update your experience. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return 'bg-konkan-forest-500';
@@ -222,8 +504,8 @@ const Dashboard = () => {
         </section>
 
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
-          <Tabs defaultValue="itineraries" className="space-y-8">
-            <TabsList className="grid w-full grid-cols-2 lg:w-[400px] mx-auto">
+          <Tabs defaultValue={searchParams.get('tab') || 'itineraries'} className="space-y-8">
+            <TabsList className="grid w-full grid-cols-3 lg:w-[600px] mx-auto">
               <TabsTrigger value="itineraries" className="flex items-center gap-2">
                 <Calendar size={16} />
                 Saved Itineraries
@@ -232,6 +514,10 @@ const Dashboard = () => {
                 <Camera size={16} />
                 My Experiences
               </TabsTrigger>
+              <TabsTrigger value="bookings" className="flex items-center gap-2">
+                <Ticket size={16} />
+                My Bookings
+              </TabsTrigger>
             </TabsList>
 
             {/* Saved Itineraries Tab */}
@@ -244,7 +530,7 @@ const Dashboard = () => {
                 </Button>
               </div>
 
-              {savedItineraries.length === 0 ? (
+              {itineraries.length === 0 ? (
                 <Card className="glass-card border-0 shadow-xl">
                   <CardContent className="text-center py-12">
                     <Calendar className="mx-auto text-gray-400 mb-4" size={48} />
@@ -257,7 +543,7 @@ const Dashboard = () => {
                 </Card>
               ) : (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {savedItineraries.map((itinerary, index) => (
+                  {itineraries.map((itinerary, index) => (
                     <motion.div
                       key={itinerary.id}
                       initial={{ opacity: 0, y: 20 }}
@@ -273,13 +559,25 @@ const Dashboard = () => {
                                 <Calendar size={14} />
                                 {itinerary.duration}
                               </CardDescription>
+                              {itinerary.stored.role !== 'owner' && (
+                                <p className="flex items-center gap-1 text-xs text-konkan-turquoise-600 mt-1">
+                                  <Users size={12} />
+                                  Shared with you · {itinerary.stored.role === 'editor' ? 'Can edit' : 'View only'}
+                                </p>
+                              )}
                             </div>
-                            <Badge className={`${getStatusColor(itinerary.status)} text-white border-0`}>
-                              {getStatusText(itinerary.status)}
-                            </Badge>
+                            {itinerary.syncStatus === 'pending' ? (
+                              <Badge variant="outline" className="border-konkan-orange-300 text-konkan-orange-600">
+                                Pending sync
+                              </Badge>
+                            ) : (
+                              <Badge className={`${getStatusColor(itinerary.status)} text-white border-0`}>
+                                {getStatusText(itinerary.status)}
+                              </Badge>
+                            )}
                           </div>
                         </CardHeader>
-                        
+                      
                         <CardContent className="space-y-4">
                           <div>
                             <p className="text-sm font-medium text-gray-700 mb-2">Destinations:</p>
@@ -292,41 +590,126 @@ const Dashboard = () => {
                               ))}
                             </div>
                           </div>
-                          
+                        
                           <div className="text-sm text-gray-600">
-                            <p><strong>Budget:</strong> {itinerary.budget}</p>
+                            <p className="capitalize"><strong>Budget:</strong> {itinerary.budget}</p>
                             <p><strong>Group:</strong> {itinerary.groupType}</p>
                             <p><strong>Created:</strong> {itinerary.createdAt.toLocaleDateString()}</p>
                           </div>
-                          
-                          <div className="flex gap-2">
-                            <Button variant="outline" size="sm" className="flex-1 rounded-xl">
+
+                          {itinerary.shareSlug && (
+                            <div className="flex items-center justify-between text-sm">
+                              <span className="flex items-center gap-1 text-konkan-turquoise-600">
+                                <Link2 size={14} />
+                                Shared by link
+                              </span>
+                              {itinerary.stored.role === 'owner' && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleStopSharing(itinerary)}
+                                  className="h-auto px-2 py-1 text-gray-600"
+                                >
+                                  Stop sharing
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                        
+                          <div className="flex flex-wrap gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => navigate(`/itineraries/${itinerary.id}/edit`)}
+                              disabled={!itinerary.plan || itinerary.syncStatus === 'pending'}
+                              className="flex-1 rounded-xl"
+                            >
                               <Edit size={14} className="mr-1" />
-                              Edit
+                              {itinerary.stored.role === 'viewer' ? 'View' : 'Edit'}
                             </Button>
-                            <Button 
-                              variant="outline" 
+                            <Button
+                              variant="outline"
                               size="sm"
-                              onClick={() => handleShareItinerary(itinerary)}
+                              onClick={() => navigate(`/chat?itinerary=${itinerary.id}`)}
+                              disabled={!itinerary.plan?.days.length || itinerary.syncStatus === 'pending' || itinerary.stored.role === 'viewer'}
+                              title="Refine with KonkanBot"
                               className="rounded-xl"
                             >
-                              <Share2 size={14} />
+                              <MessageCircle size={14} />
                             </Button>
-                            <Button 
-                              variant="outline" 
+                            <Button
+                              variant="outline"
                               size="sm"
+                              onClick={() => setHistoryId(itinerary.id)}
+                              disabled={itinerary.syncStatus === 'pending'}
+                              title="Version history"
                               className="rounded-xl"
                             >
-                              <Download size={14} />
+                              <History size={14} />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => navigate(`/itineraries/${itinerary.id}/expenses`)}
+                              disabled={itinerary.syncStatus === 'pending'}
+                              title="Trip expenses"
+                              className="rounded-xl"
+                            >
+                              <Wallet size={14} />
                             </Button>
+                            {itinerary.stored.role === 'owner' && (
+                              <Button 
+                                variant="outline" 
+                                size="sm"
+                                onClick={() => handleShareItinerary(itinerary)}
+                                className="rounded-xl"
+                              >
+                                <Share2 size={14} />
+                              </Button>
+                            )}
+                            {itinerary.stored.role === 'owner' && itinerary.syncStatus === 'synced' && (
+                              <ItineraryCollaborators itineraryId={itinerary.id} title={itinerary.title} compact />
+                            )}
+                            {itinerary.plan && (
+                              <CalendarExportButton
+                                itinerary={itinerary.plan}
+                                title={itinerary.title}
+                                calendarId={itinerary.id}
+                                sequence={itinerary.stored.revision}
+                                startDate={itinerary.stored.startDate}
+                                onStartDateChange={itinerary.stored.role === 'viewer' ? undefined : (date) => handleStartDateChange(itinerary, date)}
+                                compact
+                              />
+                            )}
                             <Button 
                               variant="outline" 
                               size="sm"
-                              onClick={() => handleDeleteItinerary(itinerary.id)}
-                              className="text-red-600 hover:bg-red-50 rounded-xl"
+                              onClick={() => handleDownloadItinerary(itinerary)}
+                              disabled={!itinerary.plan || exportingId === itinerary.id}
+                              className="rounded-xl"
                             >
-                              <Trash2 size={14} />
+                              <Download size={14} />
                             </Button>
+                            {itinerary.stored.role === 'owner' ? (
+                              <Button 
+                                variant="outline" 
+                                size="sm"
+                                onClick={() => handleDeleteItinerary(itinerary)}
+                                className="text-red-600 hover:bg-red-50 rounded-xl"
+                              >
+                                <Trash2 size={14} />
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleLeaveItinerary(itinerary)}
+                                title="Leave this itinerary"
+                                className="text-red-600 hover:bg-red-50 rounded-xl"
+                              >
+                                <LogOut size={14} />
+                              </Button>
+                            )}
                           </div>
                         </CardContent>
                       </Card>
@@ -355,60 +738,7 @@ const Dashboard = () => {
                       </DialogDescription>
                     </DialogHeader>
                     <div className="space-y-4">
-                      <div>
-                        <Label htmlFor="title">Experience Title</Label>
-                        <Input
-                          id="title"
-                          value={newExperience.title}
-                          onChange={(e) => setNewExperience({...newExperience, title: e.target.value})}
-                          placeholder="e.g., Amazing sunset at Tarkarli"
-                          className="rounded-xl"
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="location">Location</Label>
-                        <Input
-                          id="location"
-                          value={newExperience.location}
-                          onChange={(e) => setNewExperience({...newExperience, location: e.target.value})}
-                          placeholder="e.g., Tarkarli Beach"
-                          className="rounded-xl"
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="rating">Rating</Label>
-                        <div className="flex gap-1 mt-1">
-                          {[1, 2, 3, 4, 5].map((star) => (
-                            <button
-                              key={star}
-                              onClick={() => setNewExperience({...newExperience, rating: star})}
-                              className={`p-1 ${star <= newExperience.rating ? 'text-yellow-500' : 'text-gray-300'}`}
-                            >
-                              <Star size={20} fill="currentColor" />
-                            </button>
-                          ))}
-                        </div>
-                      </div>
-                      <div>
-                        <Label htmlFor="description">Description</Label>
-                        <Textarea
-                          id="description"
-                          value={newExperience.description}
-                          onChange={(e) => setNewExperience({...newExperience, description: e.target.value})}
-                          placeholder="Share your experience..."
-                          className="rounded-xl"
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="tags">Tags (comma separated)</Label>
-                        <Input
-                          id="tags"
-                          value={newExperience.tags}
-                          onChange={(e) => setNewExperience({...newExperience, tags: e.target.value})}
-                          placeholder="e.g., beach, sunset, photography"
-                          className="rounded-xl"
-                        />
-                      </div>
+                      <ExperienceFields value={newExperience} onChange={setNewExperience} />
                       <Button 
                         onClick={handleAddExperience}
                         className="w-full bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 text-white rounded-xl"
@@ -458,7 +788,7 @@ const Dashboard = () => {
                             </div>
                           </div>
                         )}
-                        
+                      
                         <CardHeader>
                           <CardTitle className="text-lg font-semibold">{experience.title}</CardTitle>
                           <CardDescription className="flex items-center gap-2">
@@ -469,10 +799,10 @@ const Dashboard = () => {
                             </span>
                           </CardDescription>
                         </CardHeader>
-                        
+                      
                         <CardContent className="space-y-4">
                           <p className="text-sm text-gray-700">{experience.description}</p>
-                          
+                        
                           {experience.tags.length > 0 && (
                             <div className="flex flex-wrap gap-1">
                               {experience.tags.map((tag, idx) => (
@@ -482,9 +812,14 @@ const Dashboard = () => {
                               ))}
                             </div>
                           )}
-                          
+                        
                           <div className="flex gap-2">
-                            <Button variant="outline" size="sm" className="flex-1 rounded-xl">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEditExperience(experience)}
+                              className="flex-1 rounded-xl"
+                            >
                               <Edit size={14} className="mr-1" />
                               Edit
                             </Button>
@@ -502,8 +837,39 @@ const Dashboard = () => {
                 </div>
               )}
             </TabsContent>
+
+            {/* Bookings Tab */}
+            <TabsContent value="bookings" className="space-y-6">
+              <h2 className="text-2xl font-bold text-gray-900">My Bookings</h2>
+              {userId && <MyBookings userId={userId} />}
+            </TabsContent>
           </Tabs>
 
+          <Dialog open={editingExperience !== null} onOpenChange={(open) => !open && setEditingExperience(null)}>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Edit Experience</DialogTitle>
+                <DialogDescription>
+                  Changes are saved to your account and show up on your other devices.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <ExperienceFields value={experienceEdits} onChange={setExperienceEdits} />
+                <Button
+                  onClick={handleUpdateExperience}
+                  className="w-full bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 text-white rounded-xl"
+                >
+                  Save Changes
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+
+          <ItineraryHistory
+            itinerary={itineraries.find(itinerary => itinerary.id === historyId)?.stored ?? null}
+            onOpenChange={(open) => !open && setHistoryId(null)}
+          />
+
           {/* Dashboard Info */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -515,11 +881,9 @@ const Dashboard = () => {
               📊 Dashboard Features
             </h3>
             <p className="text-konkan-sand-700 mb-3">
-              This dashboard uses localStorage for data persistence. In a production environment with Supabase authentication:
+              Everything here is saved to your KonkanBliss account and stays in sync across your devices. Coming soon:
             </p>
             <ul className="grid grid-cols-1 md:grid-cols-2 gap-2 text-konkan-sand-700">
-              <li>• Cloud sync across devices</li>
-              <li>• Real-time collaboration</li>
               <li>• Advanced analytics</li>
               <li>• Social sharing features</li>
               <li>• Photo uploads to cloud storage</li>
@@ -0,0 +1,480 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  TouchSensor,
+  closestCorners,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragOverEvent
+} from "@dnd-kit/core";
+import { sortableKeyboardCoordinates } from "@dnd-kit/sortable";
+import { Navigation } from "@/components/Navigation";
+import { Footer } from "@/components/Footer";
+import { ItineraryDayEditor } from "@/components/ItineraryDayEditor";
+import { ItineraryCollaborators } from "@/components/ItineraryCollaborators";
+import { ActivityComments } from "@/components/ActivityComments";
+import { ItineraryPolls } from "@/components/ItineraryPolls";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Loader2, RefreshCw, Save, Wallet } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useItineraryPresence } from "@/hooks/use-itinerary-presence";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchItinerary, updateItinerary, type StoredItinerary } from "@/lib/itineraryStore";
+import {
+  addComment,
+  commentKey,
+  deleteComment,
+  fetchComments,
+  type ItineraryComment
+} from "@/lib/itineraryCollaboration";
+import { regenerateItineraryPart } from "@/lib/itineraryGeneration";
+import type { GroupVotes, PollOption } from "@/lib/itineraryPolls";
+import {
+  addCustomActivity,
+  addDestination,
+  dayDropId,
+  findActivity,
+  moveActivity,
+  recalculateTotal,
+  removeActivity,
+  toEditableDays,
+  toEditedPlan,
+  updateActivity,
+  type EditableDay,
+  type EditorDestination
+} from "@/lib/itineraryEditing";
+
+const ItineraryEditor = () => {
+  const { id } = useParams<{ id: string }>();
+  const [itinerary, setItinerary] = useState<StoredItinerary | null>(null);
+  const [title, setTitle] = useState('');
+  const [days, setDays] = useState<EditableDay[]>([]);
+  const [destinations, setDestinations] = useState<EditorDestination[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  // When the user last changed something, to settle conflicts with other devices
+  const editedAtRef = useRef<Date | null>(null);
+  // The newest version saved by anyone, as announced by realtime
+  const [latest, setLatest] = useState<StoredItinerary | null>(null);
+  const [comments, setComments] = useState<ItineraryComment[]>([]);
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const present = useItineraryPresence(itinerary ? id : undefined);
+  const readOnly = itinerary?.role === 'viewer';
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(TouchSensor, { activationConstraint: { delay: 200, tolerance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  useEffect(() => {
+    if (!id) return;
+    setLoading(true);
+    fetchItinerary(id)
+      .then(stored => {
+        setItinerary(stored);
+        setTitle(stored.title);
+        setDays(stored.plan ? toEditableDays(stored.plan) : []);
+      })
+      .catch(error => console.error('Error fetching itinerary:', error))
+      .finally(() => setLoading(false));
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadComments = () =>
+      fetchComments(id)
+        .then(setComments)
+        .catch(error => console.error('Error fetching comments:', error));
+    loadComments();
+
+    // Co-travellers' saves and comments, live
+    const channel = supabase
+      .channel(`itinerary-${id}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'itineraries', filter: `id=eq.${id}` },
+        () => fetchItinerary(id)
+          .then(setLatest)
+          .catch(error => console.error('Error fetching itinerary:', error))
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'itinerary_comments', filter: `itinerary_id=eq.${id}` },
+        () => loadComments()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id]);
+
+  // Someone else saved: show their version straight away unless that would
+  // throw away unsaved edits here
+  useEffect(() => {
+    if (!latest || !itinerary || latest.revision <= itinerary.revision || dirty) return;
+    setItinerary(latest);
+    setTitle(latest.title);
+    setDays(latest.plan ? toEditableDays(latest.plan) : []);
+  }, [latest, itinerary, dirty]);
+
+  useEffect(() => {
+    supabase
+      .from('destinations')
+      .select('id, name, description, category, latitude, longitude')
+      .order('name')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching destinations:', error);
+          return;
+        }
+        setDestinations(data || []);
+      });
+  }, []);
+
+  const total = useMemo(
+    () => (itinerary?.plan ? recalculateTotal(itinerary.plan, days) : 0),
+    [itinerary, days]
+  );
+
+  const commentsByActivity = useMemo(() => {
+    const grouped = new Map<string, ItineraryComment[]>();
+    comments.forEach(comment => {
+      const key = commentKey(comment.activityName);
+      grouped.set(key, [...(grouped.get(key) ?? []), comment]);
+    });
+    return grouped;
+  }, [comments]);
+
+  const behind = !!latest && !!itinerary && latest.revision > itinerary.revision;
+
+  const loadLatest = () => {
+    if (!latest) return;
+    setItinerary(latest);
+    setTitle(latest.title);
+    setDays(latest.plan ? toEditableDays(latest.plan) : []);
+    setDirty(false);
+  };
+
+  const handleAddComment = async (activityName: string, body: string) => {
+    if (!id) return false;
+    try {
+      const comment = await addComment(id, activityName, body);
+      setComments(current => (current.some(item => item.id === comment.id) ? current : [...current, comment]));
+      return true;
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      toast({
+        title: "Comment Failed",
+        description: "Failed to post your comment. Please try again.",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const handleDeleteComment = async (comment: ItineraryComment) => {
+    try {
+      await deleteComment(comment.id);
+      setComments(current => current.filter(item => item.id !== comment.id));
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to delete the comment. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const markEdited = () => {
+    editedAtRef.current = new Date();
+    setDirty(true);
+  };
+
+  const edit = (update: (current: EditableDay[]) => EditableDay[]) => {
+    setDays(update);
+    markEdited();
+  };
+
+  // Where a drop over `overId` (a day or another activity) would put the dragged activity
+  const dropTarget = (overId: string) => {
+    const dayIndex = days.findIndex((_, index) => dayDropId(index) === overId);
+    if (dayIndex !== -1) return { dayIndex, index: days[dayIndex].activities.length };
+    return findActivity(days, overId);
+  };
+
+  // Crossing into another day moves the activity straight away, so the
+  // target day makes room for it while it is still being dragged
+  const handleDragOver = ({ active, over }: DragOverEvent) => {
+    if (!over) return;
+    const from = findActivity(days, String(active.id));
+    const to = dropTarget(String(over.id));
+    if (!from || !to || from.dayIndex === to.dayIndex) return;
+    edit(current => moveActivity(current, String(active.id), to.dayIndex, to.index));
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    const from = findActivity(days, String(active.id));
+    const to = dropTarget(String(over.id));
+    if (!from || !to || (from.dayIndex === to.dayIndex && from.index === to.index)) return;
+    edit(current => moveActivity(current, String(active.id), to.dayIndex, to.index));
+  };
+
+  // A closed poll's winners go to the end of its day, skipping places already planned
+  const handleLockIn = (dayIndex: number, winners: PollOption[]) => {
+    edit(current => winners.reduce((next, winner) => {
+      const planned = next.some(day => day.activities.some(activity =>
+        (winner.destinationId && activity.destinationId === winner.destinationId)
+        || activity.name.toLowerCase() === winner.label.toLowerCase()
+      ));
+      if (planned) return next;
+      const destination = destinations.find(item => item.id === winner.destinationId);
+      return destination ? addDestination(next, dayIndex, destination) : addCustomActivity(next, dayIndex, winner.label);
+    }, current));
+    toast({
+      title: "Winners Added",
+      description: `The group's picks were added to day ${dayIndex + 1}. Save your changes to keep them.`,
+    });
+  };
+
+  const handleReplanDay = async (dayIndex: number, groupVotes: GroupVotes) => {
+    if (!itinerary?.plan) return;
+    try {
+      const plan = await regenerateItineraryPart(
+        { ...itinerary.preferences, groupVotes },
+        toEditedPlan(itinerary.plan, days),
+        { day: dayIndex }
+      );
+      edit(() => toEditableDays(plan));
+      toast({
+        title: "Day Replanned",
+        description: `Day ${dayIndex + 1} now follows the group's votes. Save your changes to keep it.`,
+      });
+    } catch (error) {
+      console.error('Error replanning day:', error);
+      toast({
+        title: "Replanning Failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!itinerary?.plan || readOnly) return;
+
+    if (!title.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please give your itinerary a name.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { record, overwritten } = await updateItinerary(itinerary, {
+        title: title.trim(),
+        plan: toEditedPlan(itinerary.plan, days)
+      }, editedAtRef.current ?? undefined);
+      setItinerary(record);
+      setDirty(false);
+
+      if (overwritten.length > 0) {
+        // Another device saved a newer version of the same fields; show that one
+        setTitle(record.title);
+        if (record.plan) setDays(toEditableDays(record.plan));
+        toast({
+          title: "Updated Elsewhere",
+          description: "This itinerary was changed on another device more recently, so those changes were kept.",
+        });
+        return;
+      }
+
+      toast({
+        title: "Itinerary Saved",
+        description: "Your changes have been saved.",
+      });
+      navigate('/dashboard');
+    } catch (error) {
+      console.error('Error saving itinerary:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save your changes. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh]">
+        <Loader2 className="animate-spin text-konkan-turquoise-500" size={48} />
+      </div>
+    );
+  }
+
+  if (!itinerary?.plan) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh]">
+        <p className="text-xl text-gray-600 font-semibold">This itinerary can't be edited.</p>
+        <Link to="/dashboard"><Button className="mt-6">Go to Dashboard</Button></Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-konkan-turquoise-50 via-white to-konkan-orange-50">
+      <Navigation />
+
+      <div className="pt-24 pb-16 max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <Link to="/dashboard" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft size={16} className="mr-1" />
+          Back to Dashboard
+        </Link>
+
+        <Card className="glass-card border-0 shadow-lg">
+          <CardContent className="pt-6 flex flex-col md:flex-row md:items-end gap-4">
+            <div className="flex-1 space-y-2">
+              <div className="flex items-center gap-2">
+                <Label htmlFor="itinerary-title">Itinerary Name</Label>
+                {itinerary.role !== 'owner' && (
+                  <Badge variant="outline" className="text-xs">
+                    {readOnly ? "Shared with you · View only" : "Shared with you · Can edit"}
+                  </Badge>
+                )}
+              </div>
+              <Input
+                id="itinerary-title"
+                value={title}
+                onChange={(e) => {
+                  setTitle(e.target.value);
+                  markEdited();
+                }}
+                disabled={readOnly}
+                className="rounded-xl"
+              />
+            </div>
+            <div className="text-right">
+              <p className="text-sm text-gray-600">Estimated trip cost</p>
+              <p className="text-2xl font-bold text-gray-900">₹{total.toLocaleString('en-IN')}</p>
+            </div>
+            {itinerary.role === 'owner' && <ItineraryCollaborators itineraryId={itinerary.id} title={itinerary.title} />}
+            <Link to={`/itineraries/${itinerary.id}/expenses`}>
+              <Button variant="outline" className="rounded-xl">
+                <Wallet size={16} className="mr-2" />
+                Expenses
+              </Button>
+            </Link>
+            {!readOnly && (
+              <Button
+                onClick={handleSave}
+                disabled={saving || !dirty}
+                className="bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 text-white rounded-xl"
+              >
+                <Save size={16} className="mr-2" />
+                {saving ? "Saving..." : "Save Changes"}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        {present.length > 0 && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <div className="flex -space-x-2">
+              {present.map(person => (
+                <span
+                  key={person.userId}
+                  title={person.name}
+                  className="w-8 h-8 rounded-full bg-konkan-orange-500 text-white text-xs font-semibold flex items-center justify-center ring-2 ring-white"
+                >
+                  {person.name.slice(0, 1).toUpperCase()}
+                </span>
+              ))}
+            </div>
+            {present.length === 1 ? `${present[0].name} is also looking at this trip` : `${present.length} co-travellers are also here`}
+          </div>
+        )}
+
+        {behind && dirty && (
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3 rounded-xl border border-konkan-orange-200 bg-konkan-orange-50 p-4 text-sm text-gray-700">
+            <p className="flex-1">A co-traveller saved changes to this itinerary. Saving yours keeps their changes wherever you both edited the same thing.</p>
+            <Button variant="outline" size="sm" onClick={loadLatest} className="rounded-xl">
+              <RefreshCw size={14} className="mr-1" />
+              Discard Mine and Load Theirs
+            </Button>
+          </div>
+        )}
+
+        <p className="text-sm text-gray-600">
+          {readOnly
+            ? "You can view this itinerary and comment on its activities. Ask the owner if you'd like to make changes."
+            : "Drag activities to reorder them or move them to another day. Drive times are estimates between stops."}
+        </p>
+
+        <DndContext
+          sensors={sensors}
+          collisionDetection={closestCorners}
+          onDragOver={handleDragOver}
+          onDragEnd={handleDragEnd}
+        >
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {days.map((day, dayIndex) => (
+              <ItineraryDayEditor
+                key={dayIndex}
+                day={day}
+                dayIndex={dayIndex}
+                destinations={destinations}
+                onChange={(key, changes) => edit(current => updateActivity(current, key, changes))}
+                onRemove={(key) => edit(current => removeActivity(current, key))}
+                onAdd={(destination) => edit(current => addDestination(current, dayIndex, destination))}
+                readOnly={readOnly}
+                renderExtras={(activity) => (
+                  <ActivityComments
+                    activityName={activity.name}
+                    comments={commentsByActivity.get(commentKey(activity.name)) ?? []}
+                    onAdd={(body) => handleAddComment(activity.name, body)}
+                    onDelete={handleDeleteComment}
+                    canDelete={(comment) => comment.userId === user?.id || itinerary.role === 'owner'}
+                  />
+                )}
+              />
+            ))}
+          </div>
+        </DndContext>
+
+        <ItineraryPolls
+          itineraryId={itinerary.id}
+          canManage={!readOnly}
+          dayCount={days.length}
+          destinations={destinations}
+          onLockIn={handleLockIn}
+          onReplanDay={handleReplanDay}
+        />
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default ItineraryEditor;
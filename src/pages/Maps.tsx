@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Navigation } from "@/components/Navigation";
 import { Footer } from "@/components/Footer";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -29,7 +30,9 @@ declare global {
 
 const Maps = () => {
   const [currentLocation, setCurrentLocation] = useState("");
-  const [destination, setDestination] = useState("");
+  const [searchParams] = useSearchParams();
+  // ?to= fills in the destination, e.g. when following a chat citation
+  const [destination, setDestination] = useState(() => searchParams.get("to") ?? "");
   const [selectedPlace, setSelectedPlace] = useState<any>(null);
   const [routeInfo, setRouteInfo] = useState<any>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
@@ -1,7 +1,10 @@
 import { useEffect, useState } from "react";
-import { useParams, Link } from "react-router-dom";
+import { useParams, Link, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
+import { AvailabilityCalendar } from "@/components/AvailabilityCalendar";
+import { useAvailability } from "@/hooks/use-availability";
+import { isBookableId, toDateColumn, type BookableType } from "@/lib/bookings";
 import { MapContainer, TileLayer, Marker, Popup } from "react-leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
@@ -61,16 +64,40 @@ type Package = {
   duration?: string;
   places_included?: string[];
   activities?: string[];
+  type: BookableType;
+  maxParticipants: number | null;
 };
 
 const fetchPackageDetails = async (id: string): Promise<Package | null> => {
-  const { data, error } = await supabase
+  if (!isBookableId(id)) return null;
+
+  const { data } = await supabase
     .from("packages")
     .select("*")
     .eq("id", id)
-    .single();
-  if (error || !data) return null;
-  return data;
+    .maybeSingle();
+  if (data) return { ...data, type: "package", maxParticipants: null };
+
+  // Tour packages share the page, mapped onto the same shape
+  const { data: tour } = await supabase
+    .from("tour_packages")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+  if (!tour) return null;
+  return {
+    id: tour.id,
+    title: tour.title,
+    image_url: tour.images?.[0] ?? null,
+    description: tour.description,
+    highlights: tour.attractions ?? [],
+    price: tour.price,
+    duration: tour.duration,
+    places_included: tour.destinations,
+    activities: tour.activities,
+    type: "tour_package",
+    maxParticipants: tour.max_participants,
+  };
 };
 
 const handleNavigate = (lat: number, lng: number) => {
@@ -82,6 +109,8 @@ export default function PackageDetails() {
   const { id } = useParams<{ id: string }>();
   const [pkg, setPkg] = useState<Package | null>(null);
   const [loading, setLoading] = useState(true);
+  const availability = useAvailability(pkg);
+  const navigate = useNavigate();
 
   useEffect(() => {
     if (!id) return;
@@ -143,6 +172,11 @@ export default function PackageDetails() {
           />
         )}
         <p className="mb-4 text-lg text-gray-700">{pkg.description}</p>
+        <Link to={`/book/${pkg.type}/${pkg.id}`}>
+          <Button className="mb-6 bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 hover:from-konkan-turquoise-600 hover:to-konkan-orange-600 text-white rounded-xl">
+            Book Now
+          </Button>
+        </Link>
         <div className="grid md:grid-cols-2 gap-6 mb-8">
           <div>
             <div className="mb-4">
@@ -207,6 +241,20 @@ export default function PackageDetails() {
             )}
           </div>
         </div>
+        {availability.tracksCapacity && (
+          <div className="mb-8">
+            <h3 className="font-semibold text-lg mb-1">Availability</h3>
+            <p className="text-sm text-gray-600 mb-3">
+              Up to {pkg.maxParticipants} travellers per departure. Pick a date to book it.
+            </p>
+            <div className="inline-block border rounded-lg">
+              <AvailabilityCalendar
+                availability={availability}
+                onSelect={(date) => date && navigate(`/book/${pkg.type}/${pkg.id}?date=${toDateColumn(date)}`)}
+              />
+            </div>
+          </div>
+        )}
         {/* Only render the map if there are valid locations */}
         {locationObjects.length > 0 ? (
           <div className="mb-6">
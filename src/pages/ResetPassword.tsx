@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Navigation } from "@/components/Navigation";
+import { Footer } from "@/components/Footer";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Eye, EyeOff, Lock, KeyRound, Loader2 } from "lucide-react";
+import { motion } from "framer-motion";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+
+// Landing page for the link in the password reset email. Supabase signs the
+// user in from the link with a recovery session, which is what allows the
+// password to be changed here.
+const ResetPassword = () => {
+  const [showPassword, setShowPassword] = useState(false);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { user, loading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < 6) {
+      toast({
+        title: "Password Too Short",
+        description: "Please use at least 6 characters.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      toast({
+        title: "Password Mismatch",
+        description: "Passwords do not match.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+
+      toast({
+        title: "Password Updated",
+        description: "You can now use your new password to sign in.",
+      });
+      navigate('/dashboard', { replace: true });
+    } catch (error) {
+      console.error('Error updating password:', error);
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Could not update your password. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-konkan-turquoise-50 via-white to-konkan-orange-50">
+      <Navigation />
+
+      <div className="pt-16">
+        <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8 py-16">
+          <motion.div
+            initial={{ opacity: 0, y: 30 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.8 }}
+          >
+            <Card className="glass-card border-0 shadow-2xl">
+              <CardHeader className="text-center">
+                <CardTitle className="text-2xl font-bold font-display text-gray-900">
+                  Choose a New Password
+                </CardTitle>
+                <CardDescription className="text-gray-600">
+                  {user ? `Resetting the password for ${user.email}` : "Open this page from the link in your reset email"}
+                </CardDescription>
+              </CardHeader>
+
+              <CardContent>
+                {loading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="animate-spin text-konkan-turquoise-500" size={32} />
+                  </div>
+                ) : !user ? (
+                  <div className="text-center space-y-4">
+                    <p className="text-gray-600">
+                      This reset link is invalid or has expired. Request a new one from the login page.
+                    </p>
+                    <Button asChild variant="outline" className="rounded-xl">
+                      <Link to="/auth">Back to Login</Link>
+                    </Button>
+                  </div>
+                ) : (
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="new-password">New Password</Label>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
+                        <Input
+                          id="new-password"
+                          type={showPassword ? "text" : "password"}
+                          placeholder="Enter a new password"
+                          value={password}
+                          onChange={(e) => setPassword(e.target.value)}
+                          className="pl-10 pr-10 rounded-xl"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setShowPassword(!showPassword)}
+                          className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                        >
+                          {showPassword ? <EyeOff size={16} /> : <Eye size={16} />}
+                        </button>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="confirm-new-password">Confirm New Password</Label>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
+                        <Input
+                          id="confirm-new-password"
+                          type={showPassword ? "text" : "password"}
+                          placeholder="Confirm your new password"
+                          value={confirmPassword}
+                          onChange={(e) => setConfirmPassword(e.target.value)}
+                          className="pl-10 rounded-xl"
+                        />
+                      </div>
+                    </div>
+
+                    <Button
+                      type="submit"
+                      disabled={submitting}
+                      className="w-full bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 hover:from-konkan-turquoise-600 hover:to-konkan-orange-600 text-white rounded-xl hover-lift"
+                    >
+                      {submitting ? <Loader2 className="mr-2 animate-spin" size={16} /> : <KeyRound className="mr-2" size={16} />}
+                      Update Password
+                    </Button>
+                  </form>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Navigation } from "@/components/Navigation";
+import { Footer } from "@/components/Footer";
+import { ItineraryDisplay } from "@/components/ItineraryDisplay";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { usePageMeta } from "@/hooks/use-page-meta";
+import { fetchSharedItinerary, type SharedItinerary } from "@/lib/itineraryStore";
+
+// Public, read-only view of an itinerary someone shared with a link
+const SharedTrip = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const [trip, setTrip] = useState<SharedItinerary | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!slug) return;
+    setLoading(true);
+    fetchSharedItinerary(slug)
+      .then(setTrip)
+      .catch(error => console.error('Error fetching shared itinerary:', error))
+      .finally(() => setLoading(false));
+  }, [slug]);
+
+  usePageMeta(trip && {
+    title: `${trip.title} | KonkanBliss`,
+    description: trip.plan?.summary
+      || `A ${trip.preferences.days}-day Konkan trip for ${trip.preferences.groupType}, planned with KonkanBliss.`
+  });
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh]">
+        <Loader2 className="animate-spin text-konkan-turquoise-500" size={48} />
+      </div>
+    );
+  }
+
+  if (!trip) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh] text-center px-4">
+        <p className="text-xl text-gray-600 font-semibold">This trip isn't shared any more.</p>
+        <p className="text-gray-500 mt-2">The link may have been turned off by the person who shared it.</p>
+        <Link to="/ai-planner"><Button className="mt-6">Plan Your Own Trip</Button></Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <div className="pt-24 pb-16 max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+        <ItineraryDisplay
+          itinerary={{ ...trip.preferences, generatedPlan: trip.plan ?? undefined }}
+          isGenerating={false}
+          title={trip.title}
+          calendarId={slug}
+          readOnly
+        />
+        <div className="text-center">
+          <p className="text-gray-600 mb-4">Want a trip like this, made for you?</p>
+          <Link to="/ai-planner">
+            <Button variant="outline" className="rounded-xl">Plan My Konkan Trip</Button>
+          </Link>
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+};
+
+export default SharedTrip;
@@ -0,0 +1,478 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Navigation } from "@/components/Navigation";
+import { Footer } from "@/components/Footer";
+import { ExpenseDialog } from "@/components/ExpenseDialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, ArrowRight, Edit, Loader2, Plus, Receipt, Trash2, UserPlus, Users, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { displayName, useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchItinerary, type StoredItinerary } from "@/lib/itineraryStore";
+import { fetchMembers } from "@/lib/itineraryCollaboration";
+import { computeBalances, plannedCosts, settleUp } from "@/lib/expenseLedger";
+import {
+  DuplicateParticipantError,
+  EXPENSE_CATEGORIES,
+  ParticipantInUseError,
+  addExpense,
+  addParticipant,
+  deleteExpense,
+  fetchExpenses,
+  fetchParticipants,
+  removeParticipant,
+  updateExpense,
+  type ExpenseInput,
+  type TripExpense,
+  type TripParticipant
+} from "@/lib/tripExpenses";
+
+interface ExpenseForm {
+  key: number;
+  open: boolean;
+  initial: Partial<ExpenseInput>;
+  editingId: string | null;
+}
+
+const formatRupees = (amount: number) =>
+  `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+
+const categoryLabel = (value: string) => EXPENSE_CATEGORIES.find(category => category.value === value)?.label ?? 'Other';
+
+const TripExpenses = () => {
+  const { id } = useParams<{ id: string }>();
+  const [itinerary, setItinerary] = useState<StoredItinerary | null>(null);
+  const [participants, setParticipants] = useState<TripParticipant[]>([]);
+  const [expenses, setExpenses] = useState<TripExpense[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [form, setForm] = useState<ExpenseForm>({ key: 0, open: false, initial: {}, editingId: null });
+  const { toast } = useToast();
+  const { user, profile } = useAuth();
+  const canEdit = !!itinerary && itinerary.role !== 'viewer';
+
+  const loadLedger = useCallback(async () => {
+    if (!id) return;
+    try {
+      const [people, spent] = await Promise.all([fetchParticipants(id), fetchExpenses(id)]);
+      setParticipants(people);
+      setExpenses(spent);
+    } catch (error) {
+      console.error('Error fetching trip expenses:', error);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+    setLoading(true);
+    Promise.all([
+      fetchItinerary(id).then(setItinerary).catch(error => console.error('Error fetching itinerary:', error)),
+      loadLedger()
+    ]).finally(() => setLoading(false));
+  }, [id, loadLedger]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    // Expenses the rest of the group records, live
+    const channel = supabase
+      .channel(`trip-expenses-${id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'trip_expenses', filter: `itinerary_id=eq.${id}` },
+        () => loadLedger()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'trip_participants', filter: `itinerary_id=eq.${id}` },
+        () => loadLedger()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id, loadLedger]);
+
+  const names = useMemo(() => new Map(participants.map(person => [person.id, person.name])), [participants]);
+  const nameOf = (participantId: string) => names.get(participantId) ?? 'Removed person';
+
+  const balances = useMemo(() => computeBalances(participants, expenses), [participants, expenses]);
+  const settlements = useMemo(() => settleUp(balances), [balances]);
+  const planned = useMemo(
+    () => (itinerary?.plan ? plannedCosts(itinerary.plan, expenses, participants.length) : []),
+    [itinerary, expenses, participants.length]
+  );
+  const totalSpent = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+
+  // People who paid for or share an expense can't be taken off the trip
+  const inUse = useMemo(
+    () => new Set(expenses.flatMap(expense => [expense.paidBy, ...expense.splitAmong])),
+    [expenses]
+  );
+
+  const handleAddParticipant = async (name: string) => {
+    if (!id || !name.trim()) return false;
+    try {
+      const person = await addParticipant(id, name);
+      setParticipants(current => (current.some(item => item.id === person.id) ? current : [...current, person]));
+      return true;
+    } catch (error) {
+      console.error('Error adding trip participant:', error);
+      toast({
+        title: "Couldn't Add Person",
+        description: error instanceof DuplicateParticipantError ? error.message : "Failed to add this person. Please try again.",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  // Adds the signed-in user and everyone invited to the itinerary
+  const handleAddEveryone = async () => {
+    if (!id) return;
+    try {
+      const members = await fetchMembers(id);
+      const taken = new Set(participants.map(person => person.name.toLowerCase()));
+      const candidates = [
+        itinerary?.role === 'owner' ? displayName(user, profile) : '',
+        ...members.map(member => member.email)
+      ].filter(name => name && !taken.has(name.toLowerCase()));
+
+      for (const name of candidates) {
+        await handleAddParticipant(name);
+      }
+      if (candidates.length === 0) {
+        toast({
+          title: "Everyone's Here",
+          description: "Everyone invited to this itinerary is already splitting costs.",
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching itinerary members:', error);
+    }
+  };
+
+  const handleRemoveParticipant = async (person: TripParticipant) => {
+    try {
+      await removeParticipant(person.id);
+      setParticipants(current => current.filter(item => item.id !== person.id));
+    } catch (error) {
+      console.error('Error removing trip participant:', error);
+      toast({
+        title: "Couldn't Remove Person",
+        description: error instanceof ParticipantInUseError ? error.message : "Failed to remove this person. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const openForm = (initial: Partial<ExpenseInput>, editingId: string | null = null) =>
+    setForm(current => ({ key: current.key + 1, open: true, initial, editingId }));
+
+  const handleSubmitExpense = async (input: ExpenseInput) => {
+    if (!id) return false;
+    try {
+      const saved = form.editingId ? await updateExpense(form.editingId, input) : await addExpense(id, input);
+      setExpenses(current => [saved, ...current.filter(expense => expense.id !== saved.id)]);
+      toast({
+        title: form.editingId ? "Expense Updated" : "Expense Added",
+        description: `${saved.description}: ${formatRupees(saved.amount)} paid by ${nameOf(saved.paidBy)}.`,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error saving expense:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save the expense. Please try again.",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const handleDeleteExpense = async (expense: TripExpense) => {
+    try {
+      await deleteExpense(expense.id);
+      setExpenses(current => current.filter(item => item.id !== expense.id));
+    } catch (error) {
+      console.error('Error deleting expense:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to delete the expense. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh]">
+        <Loader2 className="animate-spin text-konkan-turquoise-500" size={48} />
+      </div>
+    );
+  }
+
+  if (!itinerary) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh]">
+        <p className="text-xl text-gray-600 font-semibold">This trip couldn't be found.</p>
+        <Link to="/dashboard"><Button className="mt-6">Go to Dashboard</Button></Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-konkan-turquoise-50 via-white to-konkan-orange-50">
+      <Navigation />
+
+      <div className="pt-24 pb-16 max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <Link to="/dashboard" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft size={16} className="mr-1" />
+          Back to Dashboard
+        </Link>
+
+        <Card className="glass-card border-0 shadow-lg">
+          <CardContent className="pt-6 flex flex-col md:flex-row md:items-center gap-4">
+            <div className="flex-1">
+              <p className="text-sm text-gray-600">Trip expenses</p>
+              <h1 className="text-2xl font-bold text-gray-900">{itinerary.title}</h1>
+            </div>
+            <div className="text-right">
+              <p className="text-sm text-gray-600">Estimated</p>
+              <p className="text-xl font-semibold text-gray-700">{formatRupees(itinerary.plan?.totalEstimatedCost ?? 0)}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-sm text-gray-600">Spent so far</p>
+              <p className="text-2xl font-bold text-gray-900">{formatRupees(totalSpent)}</p>
+            </div>
+            {canEdit && (
+              <Button
+                onClick={() => openForm({})}
+                disabled={participants.length === 0}
+                className="bg-gradient-to-r from-konkan-turquoise-500 to-konkan-orange-500 text-white rounded-xl"
+              >
+                <Plus size={16} className="mr-2" />
+                Add Expense
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Card className="glass-card border-0 shadow-lg">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Users size={18} />
+                Who's Splitting
+              </CardTitle>
+              <CardDescription>Add everyone sharing costs, even if they don't have an account.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {participants.length === 0 ? (
+                <p className="text-sm text-gray-500">No one yet. Add the group to start recording expenses.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {participants.map(person => (
+                    <Badge key={person.id} variant="secondary" className="flex items-center gap-1 py-1">
+                      {person.name}
+                      {canEdit && !inUse.has(person.id) && (
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveParticipant(person)}
+                          aria-label={`Remove ${person.name}`}
+                          className="text-gray-500 hover:text-red-600"
+                        >
+                          <X size={12} />
+                        </button>
+                      )}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {canEdit && (
+                <div className="space-y-2">
+                  <div className="flex gap-2">
+                    <Input
+                      value={newName}
+                      onChange={(e) => setNewName(e.target.value)}
+                      onKeyDown={async (e) => {
+                        if (e.key === 'Enter' && await handleAddParticipant(newName)) setNewName('');
+                      }}
+                      placeholder="Name"
+                      className="rounded-xl"
+                    />
+                    <Button
+                      onClick={async () => {
+                        if (await handleAddParticipant(newName)) setNewName('');
+                      }}
+                      disabled={!newName.trim()}
+                      className="rounded-xl"
+                      aria-label="Add person"
+                    >
+                      <Plus size={16} />
+                    </Button>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={handleAddEveryone} className="rounded-xl">
+                    <UserPlus size={14} className="mr-1" />
+                    Add Everyone on This Itinerary
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="glass-card border-0 shadow-lg">
+            <CardHeader>
+              <CardTitle className="text-lg">Settle Up</CardTitle>
+              <CardDescription>The fewest payments we could find to square everyone up.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {settlements.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  {expenses.length === 0 ? "Nothing to settle yet." : "Everyone's square."}
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {settlements.map(settlement => (
+                    <li key={`${settlement.from}-${settlement.to}`} className="flex items-center gap-2 text-sm">
+                      <span className="font-medium text-gray-900">{nameOf(settlement.from)}</span>
+                      <ArrowRight size={14} className="text-gray-400" />
+                      <span className="font-medium text-gray-900 flex-1">{nameOf(settlement.to)}</span>
+                      <span className="font-semibold text-konkan-turquoise-600">{formatRupees(settlement.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {expenses.length > 0 && (
+                <div className="border-t pt-3 space-y-1">
+                  {balances.map(balance => (
+                    <div key={balance.participantId} className="flex justify-between text-sm">
+                      <span className="text-gray-700">{nameOf(balance.participantId)}</span>
+                      <span className={balance.net < 0 ? 'text-red-600' : balance.net > 0 ? 'text-green-600' : 'text-gray-500'}>
+                        paid {formatRupees(balance.paid)} · share {formatRupees(balance.owed)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="glass-card border-0 shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Receipt size={18} />
+              Expenses
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {expenses.length === 0 ? (
+              <p className="text-sm text-gray-500">No expenses recorded yet.</p>
+            ) : (
+              <ul className="divide-y">
+                {expenses.map(expense => (
+                  <li key={expense.id} className="flex items-center gap-3 py-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{expense.description}</p>
+                      <p className="text-xs text-gray-500">
+                        {categoryLabel(expense.category)} · paid by {nameOf(expense.paidBy)} · split {expense.splitAmong.length} way{expense.splitAmong.length === 1 ? '' : 's'}
+                        {expense.spentOn && ` · ${format(expense.spentOn, 'd MMM')}`}
+                      </p>
+                    </div>
+                    <span className="font-semibold text-gray-900">{formatRupees(expense.amount)}</span>
+                    {canEdit && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openForm(expense, expense.id)}
+                          aria-label={`Edit ${expense.description}`}
+                          className="h-8 w-8 p-0"
+                        >
+                          <Edit size={14} />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteExpense(expense)}
+                          aria-label={`Delete ${expense.description}`}
+                          className="h-8 w-8 p-0 text-red-600 hover:bg-red-50"
+                        >
+                          <Trash2 size={14} />
+                        </Button>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {planned.length > 0 && (
+          <Card className="glass-card border-0 shadow-lg">
+            <CardHeader>
+              <CardTitle className="text-lg">Planned vs Actual</CardTitle>
+              <CardDescription>
+                Estimated activity costs from the itinerary {participants.length > 1 ? `for ${participants.length} people` : 'per person'}. Record what they really cost as you go.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="divide-y">
+                {planned.map(cost => (
+                  <li key={`${cost.dayIndex}-${cost.activityName}`} className="flex items-center gap-3 py-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{cost.activityName}</p>
+                      <p className="text-xs text-gray-500">Day {cost.dayIndex + 1} · estimated {formatRupees(cost.estimated)}</p>
+                    </div>
+                    {cost.spent > 0 && (
+                      <span className={cost.spent > cost.estimated ? 'text-sm text-red-600' : 'text-sm text-green-600'}>
+                        spent {formatRupees(cost.spent)}
+                      </span>
+                    )}
+                    {canEdit && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openForm({
+                          description: cost.activityName,
+                          amount: cost.estimated,
+                          category: 'activities',
+                          activityName: cost.activityName
+                        })}
+                        disabled={participants.length === 0}
+                        className="rounded-xl"
+                      >
+                        Record
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <ExpenseDialog
+        key={form.key}
+        open={form.open}
+        onOpenChange={(open) => setForm(current => ({ ...current, open }))}
+        participants={participants}
+        initial={form.initial}
+        editing={!!form.editingId}
+        onSubmit={handleSubmitExpense}
+      />
+
+      <Footer />
+    </div>
+  );
+};
+
+export default TripExpenses;
@@ -0,0 +1,39 @@
+// The sources KonkanBot answers from, and how its replies point back to them.
+// Each source is numbered in the prompt and the model cites it as `[n]`.
+
+export type SourceKind = "destination" | "package" | "tour_package" | "blog" | "review";
+
+export interface Citation {
+  // The number the reply cites it by
+  ref: number;
+  kind: SourceKind;
+  title: string;
+  // Page in the app to open, when there is one (blogs have no page yet)
+  url: string | null;
+}
+
+const packageUrl = (id: string) => `/package/${id}`;
+
+// Destinations have no page of their own, so they open on the map
+const destinationUrl = (name: string) => `/maps?to=${encodeURIComponent(name)}`;
+
+export const sourceUrl = (kind: SourceKind, id: string, title: string): string | null => {
+  if (kind === "package" || kind === "tour_package") return packageUrl(id);
+  if (kind === "destination") return destinationUrl(title);
+  return null;
+};
+
+// The numbers cited in `text`, including grouped ones like [1, 3]
+export function citedRefs(text: string): number[] {
+  const refs = new Set<number>();
+  for (const [, group] of text.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    group.split(",").forEach((ref) => refs.add(Number(ref.trim())));
+  }
+  return [...refs];
+}
+
+// The citations a reply actually uses, in the order they were numbered
+export const citationsIn = (text: string, citations: Citation[]): Citation[] => {
+  const refs = new Set(citedRefs(text));
+  return citations.filter((citation) => refs.has(citation.ref));
+};
@@ -0,0 +1,29 @@
+// Distances and drive times between points on the map, shared by the planner
+// and the itinerary editor. Drive times are rough: straight-line distance
+// stretched for winding coastal roads at a typical Konkan road speed.
+
+export interface Point {
+  latitude: number;
+  longitude: number;
+}
+
+const AVERAGE_ROAD_SPEED_KMH = 35;
+const ROAD_DETOUR_FACTOR = 1.4;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export function distanceKm(a: Point, b: Point): number {
+  const earthRadiusKm = 6371;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * earthRadiusKm * Math.asin(Math.sqrt(h));
+}
+
+// Rounded up to the next quarter hour
+export function travelMinutes(a: Point, b: Point): number {
+  const minutes = ((distanceKm(a, b) * ROAD_DETOUR_FACTOR) / AVERAGE_ROAD_SPEED_KMH) * 60;
+  return Math.ceil(minutes / 15) * 15;
+}
@@ -0,0 +1,208 @@
+import { z } from "zod";
+
+// The itinerary domain model shared by the edge functions and the React app.
+//
+// Every itinerary carries a `version`. Bump ITINERARY_VERSION whenever the
+// shape changes and teach `migrateItinerary` how to upgrade the previous
+// version, so plans already stored in `itineraries.generated_plan` keep loading.
+//
+// History:
+//   1 - unversioned output of the original mock generator (costs as strings)
+//   2 - versioned, numeric costs, optional destination coordinates
+
+export const ITINERARY_VERSION = 2;
+
+export const itineraryActivitySchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  time: z.string().min(1),
+  cost: z.coerce.number().nonnegative(),
+  category: z.string().optional(),
+  destinationId: z.string().optional(),
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
+});
+
+export const itineraryRestaurantSchema = z.object({
+  name: z.string().min(1),
+  cuisine: z.string(),
+  contact: z.string().optional(),
+});
+
+export const itineraryDaySchema = z.object({
+  title: z.string().min(1),
+  activities: z.array(itineraryActivitySchema),
+  restaurants: z.array(itineraryRestaurantSchema),
+  tips: z.string(),
+});
+
+// The plan itself, as produced by the planner or the model.
+export const itineraryPlanSchema = z.object({
+  days: z.array(itineraryDaySchema),
+  totalEstimatedCost: z.coerce.number().nonnegative(),
+  bestTimeToVisit: z.string(),
+  summary: z.string(),
+});
+
+export const itinerarySchema = itineraryPlanSchema.extend({
+  version: z.literal(ITINERARY_VERSION),
+});
+
+// What the traveller asked for in PlannerForm.
+export const tripPreferencesSchema = z.object({
+  days: z.coerce.number().int().min(1).max(30),
+  groupType: z.string().min(1),
+  exploreType: z.array(z.string()),
+  budgetRange: z.string().min(1),
+  specialRequests: z.string().optional(),
+  // The tally of the group's polls: destination ids or lowercased names of
+  // places voted up and down. Only set for shared itineraries.
+  groupVotes: z.object({
+    favoured: z.array(z.string()),
+    rejected: z.array(z.string()),
+  }).optional(),
+});
+
+export type ItineraryActivity = z.infer<typeof itineraryActivitySchema>;
+export type ItineraryRestaurant = z.infer<typeof itineraryRestaurantSchema>;
+export type ItineraryDay = z.infer<typeof itineraryDaySchema>;
+export type ItineraryPlan = z.infer<typeof itineraryPlanSchema>;
+export type Itinerary = z.infer<typeof itinerarySchema>;
+export type TripPreferences = z.infer<typeof tripPreferencesSchema>;
+
+export function toItinerary(plan: ItineraryPlan): Itinerary {
+  return { ...plan, version: ITINERARY_VERSION };
+}
+
+// Upgrades anything that was ever stored as a plan to the current version.
+// Accepts the raw `generated_plan` value: a JSON string (the column used to be
+// text), an object of any known version, or free text from before plans were
+// structured. Returns null when the value cannot be understood.
+export function migrateItinerary(raw: unknown): Itinerary | null {
+  let value = raw;
+
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return raw.trim().length > 0
+        ? { version: ITINERARY_VERSION, days: [], totalEstimatedCost: 0, bestTimeToVisit: "", summary: raw }
+        : null;
+    }
+  }
+
+  if (!value || typeof value !== "object") return null;
+
+  const record = value as Record<string, unknown>;
+  if (typeof record.legacyText === "string") return migrateItinerary(record.legacyText);
+
+  // Version 1 has the same fields minus `version`; the coercing schemas take
+  // care of its string costs.
+  const version = typeof record.version === "number" ? record.version : 1;
+  if (version > ITINERARY_VERSION) return null;
+
+  const parsed = itineraryPlanSchema.safeParse(record);
+  return parsed.success ? toItinerary(parsed.data) : null;
+}
+
+export function activitiesCost(activities: ItineraryActivity[]): number {
+  return activities.reduce((sum, activity) => sum + activity.cost, 0);
+}
+
+// Swaps in a new set of days. The total also covers food and stays, which
+// aren't activities, so that part is kept and the activity costs are added up again.
+export function withDays(itinerary: Itinerary, days: ItineraryDay[]): Itinerary {
+  const fixedCosts = Math.max(0, itinerary.totalEstimatedCost - activitiesCost(itinerary.days.flatMap((day) => day.activities)));
+  return { ...itinerary, days, totalEstimatedCost: fixedCosts + activitiesCost(days.flatMap((day) => day.activities)) };
+}
+
+// Plain place names visited over the whole trip, in order and without repeats.
+export function itineraryPlaces(itinerary: Itinerary): string[] {
+  const names = itinerary.days.flatMap((day) => day.activities.map((activity) => activity.name));
+  return [...new Set(names)];
+}
+
+// Activity times are free text such as "9:00 AM - 12:00 PM".
+
+export interface TimeRange {
+  // Minutes after midnight; `end` goes past 24 hours for activities that run overnight
+  start: number;
+  end: number;
+}
+
+const DEFAULT_ACTIVITY_MINUTES = 60;
+
+// Used when an activity gives a part of the day instead of a clock time
+const PARTS_OF_DAY: Record<string, TimeRange> = {
+  "early morning": { start: 6 * 60, end: 8 * 60 },
+  morning: { start: 9 * 60, end: 12 * 60 },
+  noon: { start: 12 * 60, end: 13 * 60 },
+  lunch: { start: 13 * 60, end: 14 * 60 },
+  afternoon: { start: 14 * 60, end: 17 * 60 },
+  evening: { start: 17 * 60, end: 20 * 60 },
+  sunset: { start: 18 * 60, end: 19 * 60 },
+  dinner: { start: 20 * 60, end: 21 * 60 },
+  night: { start: 20 * 60, end: 22 * 60 },
+};
+
+const CLOCK_TIME = /(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?/i;
+
+function parseClock(text: string) {
+  const match = text.match(CLOCK_TIME);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase().startsWith("p") ? "pm" : match[3] ? "am" : null;
+  if (hours > 23 || minutes > 59 || (meridiem && (hours < 1 || hours > 12))) return null;
+
+  return { hours, minutes, meridiem };
+}
+
+function toMinutes({ hours, minutes }: { hours: number; minutes: number }, meridiem: string | null): number {
+  return ((meridiem ? hours % 12 : hours) + (meridiem === "pm" ? 12 : 0)) * 60 + minutes;
+}
+
+export function formatClock(totalMinutes: number): string {
+  const hours24 = Math.floor(totalMinutes / 60) % 24;
+  const minutes = totalMinutes % 60;
+  const suffix = hours24 >= 12 ? "PM" : "AM";
+  const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
+  return `${hours12}:${minutes.toString().padStart(2, "0")} ${suffix}`;
+}
+
+export function formatTimeRange({ start, end }: TimeRange): string {
+  return `${formatClock(start)} - ${formatClock(end)}`;
+}
+
+// Reads times like "9:00 AM - 12:00 PM", "9-11 am", "14:00 to 16:30",
+// "6 PM" or "Morning". Returns null when there is no time of day to be had,
+// e.g. "Full day".
+export function parseActivityTime(time: string): TimeRange | null {
+  const [from, to] = time.split(/\s*(?:-|–|—|\bto\b|\buntil\b)\s*/i);
+  const start = parseClock(from ?? "");
+
+  if (start) {
+    const end = to ? parseClock(to) : null;
+    // "9 - 11 AM" gives the meridiem once, for both ends
+    let startMeridiem = start.meridiem ?? end?.meridiem ?? null;
+    const endMeridiem = end?.meridiem ?? startMeridiem;
+    if (end && !start.meridiem && startMeridiem === "pm" && toMinutes(start, "pm") > toMinutes(end, endMeridiem)) {
+      // "11 - 1 PM" starts in the morning
+      startMeridiem = "am";
+    }
+
+    const startMinutes = toMinutes(start, startMeridiem);
+    let endMinutes = end ? toMinutes(end, endMeridiem) : startMinutes + DEFAULT_ACTIVITY_MINUTES;
+    // "11 PM - 1 AM" ends the next day
+    if (endMinutes < startMinutes) endMinutes += 24 * 60;
+    return {
+      start: startMinutes,
+      end: endMinutes > startMinutes ? endMinutes : startMinutes + DEFAULT_ACTIVITY_MINUTES,
+    };
+  }
+
+  const lower = time.toLowerCase();
+  const part = Object.keys(PARTS_OF_DAY).find((name) => lower.includes(name));
+  return part ? PARTS_OF_DAY[part] : null;
+}
@@ -0,0 +1,157 @@
+import { z } from "zod";
+import {
+  itineraryActivitySchema,
+  itineraryRestaurantSchema,
+  withDays,
+  type Itinerary,
+  type ItineraryDay,
+} from "./itinerary.ts";
+
+// A structured diff of an itinerary: a list of edits, applied in order, each
+// one to the plan left by the edits before it. The chat assistant proposes
+// these and the traveller accepts them into a saved itinerary.
+//
+// Day, activity and restaurant positions are zero-based, like the plan's arrays.
+
+const position = z.number().int().min(0);
+
+export const itineraryEditSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("move_activity"),
+    day: position,
+    activity: position,
+    toDay: position,
+    // Defaults to the end of the day
+    toIndex: position.optional(),
+  }),
+  z.object({
+    type: z.literal("add_activity"),
+    day: position,
+    activity: itineraryActivitySchema,
+    index: position.optional(),
+  }),
+  z.object({
+    type: z.literal("remove_activity"),
+    day: position,
+    activity: position,
+  }),
+  z.object({
+    type: z.literal("update_activity"),
+    day: position,
+    activity: position,
+    changes: itineraryActivitySchema.pick({ name: true, description: true, time: true, cost: true }).partial(),
+  }),
+  z.object({
+    type: z.literal("add_restaurant"),
+    day: position,
+    restaurant: itineraryRestaurantSchema,
+  }),
+  z.object({
+    type: z.literal("remove_restaurant"),
+    day: position,
+    restaurant: position,
+  }),
+]);
+
+export const itineraryDiffSchema = z.array(itineraryEditSchema);
+
+export type ItineraryEdit = z.infer<typeof itineraryEditSchema>;
+export type ItineraryDiff = z.infer<typeof itineraryDiffSchema>;
+
+export class ItineraryDiffError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ItineraryDiffError";
+  }
+}
+
+function dayAt(days: ItineraryDay[], index: number): ItineraryDay {
+  const day = days[index];
+  if (!day) throw new ItineraryDiffError(`Day ${index + 1} is not in the itinerary`);
+  return day;
+}
+
+function checkIndex(list: unknown[], index: number, what: string, day: number) {
+  if (!list[index]) throw new ItineraryDiffError(`Day ${day + 1} has no ${what} ${index + 1}`);
+}
+
+function insertAt<T>(list: T[], index: number | undefined, item: T): T[] {
+  const at = index === undefined ? list.length : Math.min(index, list.length);
+  return [...list.slice(0, at), item, ...list.slice(at)];
+}
+
+function applyEdit(days: ItineraryDay[], edit: ItineraryEdit): ItineraryDay[] {
+  const day = dayAt(days, edit.day);
+  const replaceDay = (index: number, changes: Partial<ItineraryDay>) =>
+    days.map((existing, dayIndex) => (dayIndex === index ? { ...existing, ...changes } : existing));
+
+  switch (edit.type) {
+    case "move_activity": {
+      checkIndex(day.activities, edit.activity, "activity", edit.day);
+      dayAt(days, edit.toDay);
+      const moved = day.activities[edit.activity];
+      const without = replaceDay(edit.day, { activities: day.activities.filter((_, index) => index !== edit.activity) });
+      return without.map((existing, dayIndex) =>
+        dayIndex === edit.toDay ? { ...existing, activities: insertAt(existing.activities, edit.toIndex, moved) } : existing
+      );
+    }
+    case "add_activity":
+      return replaceDay(edit.day, { activities: insertAt(day.activities, edit.index, edit.activity) });
+    case "remove_activity":
+      checkIndex(day.activities, edit.activity, "activity", edit.day);
+      return replaceDay(edit.day, { activities: day.activities.filter((_, index) => index !== edit.activity) });
+    case "update_activity":
+      checkIndex(day.activities, edit.activity, "activity", edit.day);
+      return replaceDay(edit.day, {
+        activities: day.activities.map((activity, index) => (index === edit.activity ? { ...activity, ...edit.changes } : activity)),
+      });
+    case "add_restaurant":
+      return replaceDay(edit.day, { restaurants: [...day.restaurants, edit.restaurant] });
+    case "remove_restaurant":
+      checkIndex(day.restaurants, edit.restaurant, "restaurant", edit.day);
+      return replaceDay(edit.day, { restaurants: day.restaurants.filter((_, index) => index !== edit.restaurant) });
+  }
+}
+
+function describeEdit(days: ItineraryDay[], edit: ItineraryEdit): string {
+  const day = days[edit.day];
+  switch (edit.type) {
+    case "move_activity":
+      return `Move ${day.activities[edit.activity].name} from day ${edit.day + 1} to day ${edit.toDay + 1}`;
+    case "add_activity":
+      return `Add ${edit.activity.name} to day ${edit.day + 1} (${edit.activity.time})`;
+    case "remove_activity":
+      return `Remove ${day.activities[edit.activity].name} from day ${edit.day + 1}`;
+    case "update_activity": {
+      const activity = day.activities[edit.activity];
+      const changes = [
+        edit.changes.name !== undefined && edit.changes.name !== activity.name && `rename to ${edit.changes.name}`,
+        edit.changes.time !== undefined && edit.changes.time !== activity.time && `time ${activity.time} → ${edit.changes.time}`,
+        edit.changes.cost !== undefined && edit.changes.cost !== activity.cost && `cost ₹${activity.cost} → ₹${edit.changes.cost}`,
+        edit.changes.description !== undefined && edit.changes.description !== activity.description && "new description",
+      ].filter(Boolean);
+      return `Change ${activity.name} on day ${edit.day + 1}: ${changes.join(", ") || "no visible change"}`;
+    }
+    case "add_restaurant":
+      return `Add ${edit.restaurant.name} (${edit.restaurant.cuisine}) to day ${edit.day + 1}'s places to eat`;
+    case "remove_restaurant":
+      return `Remove ${day.restaurants[edit.restaurant].name} from day ${edit.day + 1}'s places to eat`;
+  }
+}
+
+// Throws ItineraryDiffError when an edit points at a day, activity or
+// restaurant that isn't there (any more).
+export function applyItineraryDiff(itinerary: Itinerary, diff: ItineraryDiff): Itinerary {
+  return withDays(itinerary, diff.reduce(applyEdit, itinerary.days));
+}
+
+// One readable line per edit, in order. Throws like applyItineraryDiff.
+export function describeItineraryDiff(itinerary: Itinerary, diff: ItineraryDiff): string[] {
+  let days = itinerary.days;
+  return diff.map((edit) => {
+    const next = applyEdit(days, edit);
+    const description = describeEdit(days, edit);
+    days = next;
+    return description;
+  });
+}
@@ -0,0 +1,85 @@
+// Server-sent events: what gemini-chat streams to the chat page, and what
+// Gemini's streaming endpoint sends to gemini-chat.
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+export function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseBlock(block: string): ServerSentEvent | null {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (!line || line.startsWith(":")) continue;
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+    if (field === "event") event = value;
+    if (field === "data") data.push(value);
+  }
+
+  return data.length > 0 ? { event, data: data.join("\n") } : null;
+}
+
+// Turns text into events as it arrives. Chunks can end anywhere, even in the
+// middle of a line, so an incomplete event is held back until the rest of it
+// is pushed.
+export class SseParser {
+  private buffer = "";
+
+  push(chunk: string): ServerSentEvent[] {
+    this.buffer = (this.buffer + chunk).replace(/\r\n/g, "\n");
+    const events: ServerSentEvent[] = [];
+
+    let boundary = this.buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const event = parseBlock(this.buffer.slice(0, boundary));
+      if (event) events.push(event);
+      this.buffer = this.buffer.slice(boundary + 2);
+      boundary = this.buffer.indexOf("\n\n");
+    }
+    return events;
+  }
+
+  // The last event, when the stream ends without a blank line
+  flush(): ServerSentEvent[] {
+    const event = parseBlock(this.buffer);
+    this.buffer = "";
+    return event ? [event] : [];
+  }
+}
+
+// Reads the events of a response body. Aborting `signal` cancels the body,
+// which closes the connection, and ends the loop.
+export async function* readEvents(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SseParser();
+  const cancel = () => {
+    reader.cancel().catch(() => undefined);
+  };
+
+  if (signal?.aborted) cancel();
+  signal?.addEventListener("abort", cancel);
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield* parser.push(decoder.decode(value, { stream: true }));
+    }
+    if (signal?.aborted) return;
+    yield* parser.push(decoder.decode());
+    yield* parser.flush();
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+    reader.releaseLock();
+  }
+}
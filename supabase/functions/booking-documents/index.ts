@@ -0,0 +1,147 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { bookingReference, renderInvoice, renderVoucher, type Seller } from "./pdf.ts";
+
+// Booking vouchers and tax invoices as PDFs.
+//   POST { bookingId, document: "voucher" | "invoice" }                        -> the PDF as a download
+//   POST { bookingId, document: "voucher" | "invoice", format: "attachment" }  -> { filename, contentType, content (base64) }
+// The attachment format is what email APIs expect, so a mailer calling with
+// the service role key can attach the documents to confirmation emails.
+// Customers can only fetch documents for their own confirmed bookings.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'content-disposition',
+};
+
+type DocumentKind = 'voucher' | 'invoice';
+
+const seller: Seller = {
+  name: 'KonkanBliss',
+  address: 'Malvan, Sindhudurg, Maharashtra 416606, India',
+  gstin: Deno.env.get('BUSINESS_GSTIN') ?? null,
+  email: 'hello@konkanbliss.com',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Dates are rendered the same way whichever region the function runs in
+const formatDate = (value: string | Date, timeZone = 'UTC') =>
+  new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric', timeZone });
+
+// The service role (a mailer) may fetch any booking; everyone else goes
+// through RLS as themselves
+async function clientFor(req: Request): Promise<SupabaseClient | null> {
+  const url = Deno.env.get('SUPABASE_URL') ?? '';
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  const authorization = req.headers.get('Authorization') ?? '';
+
+  if (serviceKey && authorization === `Bearer ${serviceKey}`) {
+    return createClient(url, serviceKey);
+  }
+
+  const client = createClient(url, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data: { user } } = await client.auth.getUser();
+  return user ? client : null;
+}
+
+async function renderDocument(client: SupabaseClient, bookingId: string, kind: DocumentKind) {
+  const { data: booking } = await client.from('bookings').select('*').eq('id', bookingId).maybeSingle();
+  if (!booking) return { error: 'Booking not found', status: 404 };
+  if (booking.status !== 'confirmed' && booking.status !== 'completed') {
+    return { error: 'Documents are available once the booking is confirmed', status: 409 };
+  }
+
+  const [{ data: item }, { data: profile }] = await Promise.all([
+    booking.package_id
+      ? client.from('packages').select('title, duration').eq('id', booking.package_id).maybeSingle()
+      : client.from('tour_packages').select('title, duration').eq('id', booking.tour_package_id).maybeSingle(),
+    client.from('profiles').select('full_name').eq('id', booking.user_id).maybeSingle(),
+  ]);
+  const title = item?.title ?? 'KonkanBliss package';
+  const reference = bookingReference(booking.id);
+
+  if (kind === 'voucher') {
+    const pdf = await renderVoucher(seller, {
+      bookingId: booking.id,
+      packageTitle: title,
+      duration: item?.duration ?? null,
+      travelDate: formatDate(booking.booking_date),
+      numberOfPeople: booking.number_of_people,
+      customerName: profile?.full_name ?? null,
+      contactEmail: booking.contact_email,
+      contactPhone: booking.contact_phone,
+      specialRequests: booking.special_requests,
+      status: booking.status,
+    });
+    return { pdf, filename: `konkanbliss-voucher-${reference}.pdf` };
+  }
+
+  const { data: invoice } = await client.from('invoices').select('*').eq('booking_id', booking.id).maybeSingle();
+  if (!invoice) return { error: 'No invoice has been issued for this booking', status: 404 };
+
+  const pdf = await renderInvoice(seller, {
+    invoiceNumber: invoice.invoice_number,
+    issuedAt: formatDate(invoice.issued_at, 'Asia/Kolkata'),
+    bookingId: booking.id,
+    customerName: profile?.full_name ?? null,
+    customerEmail: booking.contact_email,
+    description: `${title}, travel on ${formatDate(booking.booking_date)}`,
+    sacCode: invoice.sac_code,
+    placeOfSupply: invoice.place_of_supply,
+    quantity: booking.number_of_people,
+    gstRate: Number(invoice.gst_rate),
+    taxableAmount: Number(invoice.taxable_amount),
+    cgstAmount: Number(invoice.cgst_amount),
+    sgstAmount: Number(invoice.sgst_amount),
+    totalAmount: Number(invoice.total_amount),
+  });
+  return { pdf, filename: `konkanbliss-invoice-${invoice.invoice_number.replace(/\//g, '-')}.pdf` };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const client = await clientFor(req);
+    if (!client) {
+      return jsonResponse({ error: 'Sign in to download booking documents' }, 401);
+    }
+
+    const { bookingId, document, format } = await req.json();
+    if (!bookingId || (document !== 'voucher' && document !== 'invoice')) {
+      return jsonResponse({ error: 'Pass a bookingId and a document of "voucher" or "invoice"' }, 400);
+    }
+
+    const result = await renderDocument(client, bookingId, document);
+    if ('error' in result) {
+      return jsonResponse({ error: result.error }, result.status);
+    }
+
+    if (format === 'attachment') {
+      return jsonResponse({ filename: result.filename, contentType: 'application/pdf', content: encodeBase64(result.pdf) });
+    }
+
+    // Sent as octet-stream so supabase-js hands the browser a Blob
+    return new Response(result.pdf, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${result.filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error rendering booking document:', error);
+    return jsonResponse({ error: 'Failed to create the document' }, 500);
+  }
+});
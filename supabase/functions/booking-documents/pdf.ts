@@ -0,0 +1,212 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "https://esm.sh/pdf-lib@1.17.1";
+import qrcode from "https://esm.sh/qrcode-generator@1.4.4";
+
+// Renders booking vouchers and tax invoices as PDFs. Kept free of Supabase so
+// the same documents can be attached to emails by any caller.
+
+export interface Seller {
+  name: string;
+  address: string;
+  gstin: string | null;
+  email: string;
+}
+
+export interface VoucherData {
+  bookingId: string;
+  packageTitle: string;
+  duration: string | null;
+  travelDate: string;
+  numberOfPeople: number;
+  customerName: string | null;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  specialRequests: string | null;
+  status: string;
+}
+
+export interface InvoiceData {
+  invoiceNumber: string;
+  issuedAt: string;
+  bookingId: string;
+  customerName: string | null;
+  customerEmail: string | null;
+  description: string;
+  sacCode: string;
+  placeOfSupply: string;
+  quantity: number;
+  gstRate: number;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  totalAmount: number;
+}
+
+const PAGE_SIZE: [number, number] = [595.28, 841.89]; // A4
+const MARGIN = 50;
+const TURQUOISE = rgb(0.08, 0.72, 0.65);
+const GREY = rgb(0.4, 0.4, 0.4);
+const BLACK = rgb(0, 0, 0);
+
+// The standard PDF fonts cannot draw the rupee sign
+export const formatAmount = (amount: number) =>
+  `Rs. ${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// ...nor anything outside Latin-1, which customer names and requests may contain
+const printable = (text: string) => text.replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+
+export const bookingReference = (bookingId: string) => bookingId.slice(0, 8).toUpperCase();
+
+// Writes top to bottom down a page, keeping track of where the next line goes
+class PageWriter {
+  y: number;
+
+  constructor(readonly page: PDFPage, readonly font: PDFFont, readonly bold: PDFFont) {
+    this.y = page.getHeight() - MARGIN;
+  }
+
+  text(text: string, options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; x?: number } = {}) {
+    const size = options.size ?? 11;
+    this.page.drawText(printable(text), {
+      x: options.x ?? MARGIN,
+      y: this.y - size,
+      size,
+      font: options.bold ? this.bold : this.font,
+      color: options.color ?? BLACK,
+    });
+    this.y -= size + 6;
+  }
+
+  // Label on the left, value on the right, on one line
+  row(label: string, value: string, options: { bold?: boolean; x?: number } = {}) {
+    const size = 11;
+    const font = options.bold ? this.bold : this.font;
+    const right = this.page.getWidth() - MARGIN;
+    label = printable(label);
+    value = printable(value);
+    this.page.drawText(label, { x: options.x ?? MARGIN, y: this.y - size, size, font, color: BLACK });
+    this.page.drawText(value, { x: right - font.widthOfTextAtSize(value, size), y: this.y - size, size, font, color: BLACK });
+    this.y -= size + 8;
+  }
+
+  rule() {
+    this.y -= 4;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: this.page.getWidth() - MARGIN, y: this.y },
+      thickness: 0.5,
+      color: GREY,
+    });
+    this.y -= 12;
+  }
+
+  gap(height = 10) {
+    this.y -= height;
+  }
+}
+
+async function createDocument(title: string) {
+  const doc = await PDFDocument.create();
+  doc.setTitle(title);
+  doc.setProducer("KonkanBliss");
+  const page = doc.addPage(PAGE_SIZE);
+  const writer = new PageWriter(
+    page,
+    await doc.embedFont(StandardFonts.Helvetica),
+    await doc.embedFont(StandardFonts.HelveticaBold),
+  );
+  return { doc, page, writer };
+}
+
+function header(writer: PageWriter, seller: Seller, title: string) {
+  writer.text(seller.name, { size: 20, bold: true, color: TURQUOISE });
+  writer.text(seller.address, { size: 9, color: GREY });
+  writer.text(seller.gstin ? `GSTIN ${seller.gstin} | ${seller.email}` : seller.email, { size: 9, color: GREY });
+  writer.gap();
+  writer.text(title, { size: 16, bold: true });
+  writer.rule();
+}
+
+function drawQrCode(page: PDFPage, text: string, x: number, y: number, size: number) {
+  const qr = qrcode(0, "M");
+  qr.addData(text);
+  qr.make();
+
+  const count = qr.getModuleCount();
+  const cell = size / count;
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (qr.isDark(row, col)) {
+        page.drawRectangle({ x: x + col * cell, y: y + size - (row + 1) * cell, width: cell, height: cell, color: BLACK });
+      }
+    }
+  }
+}
+
+export async function renderVoucher(seller: Seller, voucher: VoucherData): Promise<Uint8Array> {
+  const { doc, page, writer } = await createDocument(`Booking voucher ${bookingReference(voucher.bookingId)}`);
+  header(writer, seller, "Booking Voucher");
+
+  // Scanned at check-in to look the booking up
+  const qrSize = 110;
+  drawQrCode(page, voucher.bookingId, page.getWidth() - MARGIN - qrSize, writer.y - qrSize, qrSize);
+
+  writer.text(`Reference ${bookingReference(voucher.bookingId)}`, { size: 13, bold: true });
+  writer.text(`Status: ${voucher.status}`, { color: GREY });
+  writer.gap();
+  writer.text(voucher.packageTitle, { size: 14, bold: true });
+  if (voucher.duration) writer.text(voucher.duration, { color: GREY });
+  writer.gap();
+  writer.text(`Travel date: ${voucher.travelDate}`);
+  writer.text(`Travellers: ${voucher.numberOfPeople}`);
+  writer.gap(20);
+
+  writer.text("Lead traveller", { bold: true });
+  if (voucher.customerName) writer.text(voucher.customerName);
+  if (voucher.contactEmail) writer.text(voucher.contactEmail);
+  if (voucher.contactPhone) writer.text(voucher.contactPhone);
+
+  if (voucher.specialRequests) {
+    writer.gap();
+    writer.text("Special requests", { bold: true });
+    writer.text(voucher.specialRequests.slice(0, 120));
+  }
+
+  writer.gap(20);
+  writer.rule();
+  writer.text("Please show this voucher, printed or on your phone, when you meet your guide.", { size: 9, color: GREY });
+  writer.text(`Booking id ${voucher.bookingId}`, { size: 9, color: GREY });
+
+  return doc.save();
+}
+
+export async function renderInvoice(seller: Seller, invoice: InvoiceData): Promise<Uint8Array> {
+  const { doc, writer } = await createDocument(`Tax invoice ${invoice.invoiceNumber}`);
+  header(writer, seller, "Tax Invoice");
+
+  writer.row("Invoice number", invoice.invoiceNumber);
+  writer.row("Invoice date", invoice.issuedAt);
+  writer.row("Booking reference", bookingReference(invoice.bookingId));
+  writer.row("Place of supply", invoice.placeOfSupply);
+  writer.gap();
+
+  writer.text("Billed to", { bold: true });
+  writer.text(invoice.customerName ?? "Customer");
+  if (invoice.customerEmail) writer.text(invoice.customerEmail);
+  writer.rule();
+
+  writer.text(invoice.description, { bold: true });
+  writer.text(`SAC ${invoice.sacCode} | ${invoice.quantity} ${invoice.quantity === 1 ? "traveller" : "travellers"}`, { size: 9, color: GREY });
+  writer.gap();
+
+  const halfRate = invoice.gstRate / 2;
+  writer.row("Taxable value", formatAmount(invoice.taxableAmount));
+  writer.row(`CGST @ ${halfRate}%`, formatAmount(invoice.cgstAmount));
+  writer.row(`SGST @ ${halfRate}%`, formatAmount(invoice.sgstAmount));
+  writer.rule();
+  writer.row("Total (GST inclusive)", formatAmount(invoice.totalAmount), { bold: true });
+
+  writer.gap(30);
+  writer.text("This is a computer generated invoice and does not need a signature.", { size: 9, color: GREY });
+
+  return doc.save();
+}
@@ -1,5 +1,9 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { parseRefinement, readRefinementContext, refinementInstructions, refinementResponseSchema } from "./refine.ts";
+import { streamChatReply } from "./stream.ts";
+import { citationsFor, groundingInstructions, loadSources, retrieveSources, type Source } from "./retrieve.ts";
+import { citationsIn } from "../_shared/citations.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -15,6 +19,10 @@ interface ChatMessage {
 interface ChatRequest {
   messages: ChatMessage[];
   userLocation?: string;
+  // A saved itinerary ({ title, plan }) the user wants to refine
+  itinerary?: unknown;
+  // Send the reply as server-sent events while it is generated (see stream.ts)
+  stream?: boolean;
 }
 
 serve(async (req) => {
@@ -40,12 +48,12 @@ serve(async (req) => {
   try {
     console.log('📥 Parsing request body...');
     const requestBody = await req.json();
-    console.log('📋 Request body:', JSON.stringify(requestBody, null, 2));
     
-    const { messages, userLocation }: ChatRequest = requestBody;
+    const { messages, userLocation, itinerary, stream }: ChatRequest = requestBody;
+    const refinement = readRefinementContext(itinerary);
 
     if (!messages || !Array.isArray(messages)) {
-      console.log('❌ Invalid messages format:', messages);
+      console.log('❌ Invalid messages format:', typeof messages);
       return new Response(
         JSON.stringify({ error: 'Invalid messages format' }),
         { 
@@ -56,7 +64,10 @@ serve(async (req) => {
     }
 
     console.log(`📨 Processing ${messages.length} messages`);
-    console.log('🌍 User location:', userLocation || 'Not provided');
+    // Metadata only: messages and itineraries are the user's own content
+    console.log('🌍 User location:', userLocation ? 'Provided' : 'Not provided');
+    console.log('🗺️ Itinerary context:', refinement ? `${refinement.plan.days.length} days` : 'None');
+    console.log('📡 Streaming:', stream ? 'Yes' : 'No');
 
     // Check for API key
     const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
@@ -76,6 +87,18 @@ serve(async (req) => {
       );
     }
 
+    // Look up our own records for the question. Follow-ups like "how much is
+    // it?" lean on the question before, so the last two are searched.
+    const question = messages.filter(msg => msg.role === 'user').slice(-2).map(msg => msg.content).join('\n');
+    let sources: Source[] = [];
+    try {
+      sources = retrieveSources(await loadSources(), question);
+    } catch (error) {
+      console.error('⚠️ Retrieval failed, answering without records:', error);
+    }
+    const citations = citationsFor(sources);
+    console.log(`📚 Retrieved ${sources.length} records:`, sources.map(source => source.title));
+
     // Prepare the system prompt for Konkan tourism
     const systemPrompt = `You are KonkanBot, an expert AI travel assistant specializing in the Konkan coast of Maharashtra, India. You have extensive knowledge about:
 
@@ -89,7 +112,7 @@ serve(async (req) => {
 GUIDELINES:
 - Always be enthusiastic and helpful about Konkan tourism
 - Provide specific, actionable travel advice
-- Include practical information like costs, timings, and contact details when relevant
+- Include practical information like costs, timings, and contact details when relevant, taken from the Konkan Explorer records below
 - Suggest seasonal recommendations (best time to visit is October to March)
 - Mention local transportation options and accommodation
 - Be culturally sensitive and promote sustainable tourism
@@ -97,8 +120,12 @@ GUIDELINES:
 - Use emojis to make responses engaging
 - Keep responses concise but informative (max 300 words)
 
+${groundingInstructions(sources)}
+
 ${userLocation ? `The user is currently located in: ${userLocation}` : ''}
 
+${refinement ? refinementInstructions(refinement) : ''}
+
 Respond in a friendly, knowledgeable manner as if you're a local guide who loves sharing the beauty of Konkan with visitors.`;
 
     // Convert chat history to Gemini format
@@ -133,7 +160,8 @@ Respond in a friendly, knowledgeable manner as if you're a local guide who loves
         temperature: 0.7,
         topK: 40,
         topP: 0.95,
-        maxOutputTokens: 1024,
+        maxOutputTokens: refinement ? 2048 : 1024,
+        ...(refinement ? { responseMimeType: 'application/json', responseSchema: refinementResponseSchema } : {}),
       },
       safetySettings: [
         {
@@ -155,6 +183,20 @@ Respond in a friendly, knowledgeable manner as if you're a local guide who loves
       ]
     };
 
+    if (stream) {
+      console.log('📡 Streaming response from Gemini API...');
+      return streamChatReply(
+        `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:streamGenerateContent?alt=sse&key=${GEMINI_API_KEY}`,
+        requestPayload,
+        {
+          refinement,
+          citations,
+          fallback: getFallbackResponse(messages[messages.length - 1]?.content || ''),
+          headers: corsHeaders
+        }
+      );
+    }
+
     console.log('📤 Sending request to Gemini API...');
     
     const geminiResponse = await fetch(geminiUrl, {
@@ -188,7 +230,7 @@ Respond in a friendly, knowledgeable manner as if you're a local guide who loves
     }
 
     const geminiData = await geminiResponse.json();
-    console.log('📋 Gemini API response:', JSON.stringify(geminiData, null, 2));
+    console.log(`📋 Gemini API returned ${geminiData.candidates?.length ?? 0} candidates`);
     
     if (!geminiData.candidates || !geminiData.candidates[0] || !geminiData.candidates[0].content) {
       console.log('❌ Invalid response structure from Gemini API');
@@ -226,9 +268,19 @@ Respond in a friendly, knowledgeable manner as if you're a local guide who loves
       );
     }
 
+    if (refinement) {
+      const { reply, edits } = parseRefinement(botResponse, refinement.plan);
+      console.log(`🗺️ Proposed ${edits.length} itinerary edits`);
+      return new Response(
+        JSON.stringify({ response: reply, edits, citations: citationsIn(reply, citations), success: true }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     return new Response(
       JSON.stringify({ 
         response: botResponse,
+        citations: citationsIn(botResponse, citations),
         success: true 
       }),
       { 
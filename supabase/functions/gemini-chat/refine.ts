@@ -0,0 +1,138 @@
+import { migrateItinerary, type Itinerary } from "../_shared/itinerary.ts";
+import {
+  applyItineraryDiff,
+  itineraryDiffSchema,
+  ItineraryDiffError,
+  type ItineraryDiff,
+} from "../_shared/itineraryDiff.ts";
+
+// Refining a saved itinerary from the chat. The plan rides along with the
+// conversation and the model answers with a reply plus a structured diff,
+// which the app shows for the traveller to accept or dismiss.
+
+export interface RefinementContext {
+  title: string;
+  plan: Itinerary;
+}
+
+export interface Refinement {
+  reply: string;
+  edits: ItineraryDiff;
+}
+
+// Reads `{ title, plan }` from the request body; null when there is no usable plan
+export function readRefinementContext(raw: unknown): RefinementContext | null {
+  if (!raw || typeof raw !== "object") return null;
+  const { title, plan } = raw as Record<string, unknown>;
+  const itinerary = migrateItinerary(plan);
+  if (!itinerary || itinerary.days.length === 0) return null;
+  return { title: typeof title === "string" && title.trim() ? title : "My Konkan trip", plan: itinerary };
+}
+
+const activityProperties = {
+  name: { type: "STRING" },
+  description: { type: "STRING" },
+  time: { type: "STRING" },
+  cost: { type: "NUMBER" },
+};
+
+// The reply in the OpenAPI subset Gemini accepts as `responseSchema`. Gemini
+// has no tagged unions, so every edit field is optional here and
+// itineraryEditSchema sorts out which belong to which type.
+export const refinementResponseSchema = {
+  type: "OBJECT",
+  properties: {
+    reply: { type: "STRING" },
+    edits: {
+      type: "ARRAY",
+      items: {
+        type: "OBJECT",
+        properties: {
+          type: {
+            type: "STRING",
+            enum: ["move_activity", "add_activity", "remove_activity", "update_activity", "add_restaurant", "remove_restaurant"],
+          },
+          day: { type: "INTEGER" },
+          activity: {
+            type: "OBJECT",
+            properties: activityProperties,
+          },
+          activityIndex: { type: "INTEGER" },
+          toDay: { type: "INTEGER" },
+          toIndex: { type: "INTEGER" },
+          index: { type: "INTEGER" },
+          changes: { type: "OBJECT", properties: activityProperties },
+          restaurant: {
+            type: "OBJECT",
+            properties: {
+              name: { type: "STRING" },
+              cuisine: { type: "STRING" },
+            },
+          },
+          restaurantIndex: { type: "INTEGER" },
+        },
+        required: ["type", "day"],
+      },
+    },
+  },
+  required: ["reply", "edits"],
+};
+
+export function refinementInstructions({ title, plan }: RefinementContext): string {
+  return `The user is refining their saved itinerary "${title}". Here it is, with days, activities and restaurants numbered from 0:
+${JSON.stringify(plan.days.map((day, dayIndex) => ({ day: dayIndex, ...day })))}
+
+When the user asks to change the itinerary, answer with JSON { "reply", "edits" }:
+- reply: a short, friendly message saying what you changed and why (max 120 words)
+- edits: the changes, applied in order, each to the plan left by the ones before it:
+  { "type": "move_activity", "day", "activityIndex", "toDay", "toIndex"? }
+  { "type": "add_activity", "day", "activity": { "name", "description", "time", "cost" }, "index"? }
+  { "type": "remove_activity", "day", "activityIndex" }
+  { "type": "update_activity", "day", "activityIndex", "changes": { "name"?, "description"?, "time"?, "cost"? } }
+  { "type": "add_restaurant", "day", "restaurant": { "name", "cuisine" } }
+  { "type": "remove_restaurant", "day", "restaurantIndex" }
+Times look like "9:00 AM - 12:00 PM" and costs are numbers in rupees per person. Keep the times of a day in order when moving or adding activities.
+When the user only asks a question, answer it in reply and leave edits empty.`;
+}
+
+// Gemini can't name a field `activity` as both an index and an object, so the
+// response uses activityIndex/restaurantIndex; this maps them back.
+function fromResponseEdit(edit: Record<string, unknown>) {
+  const { activityIndex, restaurantIndex, ...rest } = edit;
+  if (edit.type === "add_activity" || edit.type === "add_restaurant") return rest;
+  return {
+    ...rest,
+    ...(activityIndex !== undefined ? { activity: activityIndex } : {}),
+    ...(restaurantIndex !== undefined ? { restaurant: restaurantIndex } : {}),
+  };
+}
+
+// Never throws: a reply the diff can't be read from, or a diff that doesn't
+// fit the plan, comes back with no edits.
+export function parseRefinement(raw: string, plan: Itinerary): Refinement {
+  let value: { reply?: unknown; edits?: unknown };
+  try {
+    value = JSON.parse(raw.trim().replace(/^```(?:json)?\s*|\s*```$/g, ""));
+  } catch {
+    return { reply: raw, edits: [] };
+  }
+
+  const reply = typeof value.reply === "string" && value.reply.trim() ? value.reply : "Here's what I'd change.";
+  const edits = itineraryDiffSchema.safeParse(
+    Array.isArray(value.edits) ? value.edits.map((edit) => fromResponseEdit((edit ?? {}) as Record<string, unknown>)) : [],
+  );
+  if (!edits.success) {
+    console.error("Itinerary edits failed validation:", edits.error.issues);
+    return { reply: `${reply}\n\n(I couldn't turn that into changes to your itinerary. Could you rephrase it?)`, edits: [] };
+  }
+
+  try {
+    applyItineraryDiff(plan, edits.data);
+  } catch (error) {
+    if (!(error instanceof ItineraryDiffError)) throw error;
+    console.error("Itinerary edits don't fit the plan:", error.message);
+    return { reply: `${reply}\n\n(I couldn't match those changes to your itinerary. Could you say which day you mean?)`, edits: [] };
+  }
+
+  return { reply, edits: edits.data };
+}
@@ -0,0 +1,169 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { sourceUrl, type Citation, type SourceKind } from "../_shared/citations.ts";
+
+// Grounds KonkanBot in our own records. For every question the destinations,
+// packages, tours, blog posts and reviews that share the most words with it
+// are numbered and put in the prompt, so prices and details come from us and
+// the reply can cite them (see ../_shared/citations.ts).
+
+export interface Source {
+  kind: SourceKind;
+  id: string;
+  title: string;
+  // What the model gets to read
+  text: string;
+  url: string | null;
+}
+
+// Rows read per table; our catalogue is far smaller than this
+const TABLE_LIMIT = 200;
+const SNIPPET_LENGTH = 400;
+export const MAX_SOURCES = 6;
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "are", "was", "what", "which", "where", "when", "who", "how", "can", "could",
+  "should", "would", "will", "with", "about", "from", "that", "this", "there", "their", "them", "they",
+  "you", "your", "our", "any", "some", "much", "many", "does", "did", "have", "has", "best", "good",
+  "tell", "know", "want", "like", "please", "also", "into", "near", "around", "get", "give", "need",
+  "konkan", "trip", "visit", "place", "places",
+]);
+
+const stem = (word: string) => (word.length > 4 && word.endsWith("s") ? word.slice(0, -1) : word);
+
+const words = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 2 && !STOPWORDS.has(word))
+    .map(stem);
+
+export const searchTerms = (question: string) => [...new Set(words(question))];
+
+const snippet = (text: string | null | undefined, length = SNIPPET_LENGTH) => {
+  const clean = (text ?? "").replace(/\s+/g, " ").trim();
+  return clean.length > length ? `${clean.slice(0, length)}…` : clean;
+};
+
+// numeric columns come back as strings from PostgREST
+const rupees = (price: number | string) => `₹${Number(price).toLocaleString("en-IN")}`;
+
+const source = (kind: SourceKind, id: string, title: string, text: string): Source => ({
+  kind,
+  id,
+  title,
+  text,
+  url: sourceUrl(kind, id, title),
+});
+
+// Everything that can be retrieved. A table that can't be read is left out
+// rather than failing the chat.
+export async function loadSources(): Promise<Source[]> {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+  );
+
+  const [destinations, packages, tours, blogs, reviews] = await Promise.all([
+    supabase.from("destinations").select("id, name, description, category").limit(TABLE_LIMIT),
+    supabase.from("packages").select("id, title, description, duration, price, highlights, places_included").limit(TABLE_LIMIT),
+    supabase.from("tour_packages").select("id, title, description, duration, price, destinations, activities, theme, season").limit(TABLE_LIMIT),
+    supabase.from("blogs").select("id, title, excerpt, content, author").order("created_at", { ascending: false }).limit(TABLE_LIMIT),
+    supabase.from("reviews").select("id, package_id, tour_package_id, rating, title, comment").order("created_at", { ascending: false }).limit(TABLE_LIMIT),
+  ]);
+
+  for (const [table, result] of Object.entries({ destinations, packages, tours, blogs, reviews })) {
+    if (result.error) console.error(`⚠️ Could not load ${table} for retrieval:`, result.error);
+  }
+
+  const packageTitles = new Map<string, string>();
+  const sources: Source[] = [];
+
+  for (const row of destinations.data ?? []) {
+    sources.push(source("destination", row.id, row.name, [row.category && `Category: ${row.category}`, snippet(row.description)].filter(Boolean).join(". ")));
+  }
+  for (const row of packages.data ?? []) {
+    packageTitles.set(row.id, row.title);
+    sources.push(source("package", row.id, row.title, [
+      `Price: ${rupees(row.price)} per person`,
+      `Duration: ${row.duration}`,
+      row.places_included?.length ? `Places: ${row.places_included.join(", ")}` : "",
+      row.highlights?.length ? `Highlights: ${row.highlights.join(", ")}` : "",
+      snippet(row.description),
+    ].filter(Boolean).join(". ")));
+  }
+  for (const row of tours.data ?? []) {
+    packageTitles.set(row.id, row.title);
+    sources.push(source("tour_package", row.id, row.title, [
+      `Price: ${rupees(row.price)} per person`,
+      `Duration: ${row.duration}`,
+      `Theme: ${row.theme}, best in ${row.season}`,
+      row.destinations?.length ? `Places: ${row.destinations.join(", ")}` : "",
+      row.activities?.length ? `Activities: ${row.activities.join(", ")}` : "",
+      snippet(row.description),
+    ].filter(Boolean).join(". ")));
+  }
+  for (const row of blogs.data ?? []) {
+    sources.push(source("blog", row.id, row.title, `By ${row.author}. ${snippet(row.excerpt || row.content)}`));
+  }
+  for (const row of reviews.data ?? []) {
+    const packageId = row.package_id ?? row.tour_package_id;
+    const reviewed = packageTitles.get(packageId);
+    if (!reviewed) continue;
+    sources.push({
+      kind: "review",
+      id: row.id,
+      title: `Review of ${reviewed}`,
+      text: [`Rated ${row.rating}/5`, row.title, snippet(row.comment, 250)].filter(Boolean).join(". "),
+      // Reviews are read on the page of the package they are about
+      url: sourceUrl("package", packageId, reviewed),
+    });
+  }
+
+  return sources;
+}
+
+// Title words count three times as much as words in the rest of the text
+const score = (item: Source, terms: string[]) => {
+  const title = new Set(words(item.title));
+  const text = new Set(words(item.text));
+  return terms.reduce((total, term) => total + (title.has(term) ? 3 : text.has(term) ? 1 : 0), 0);
+};
+
+// The best matches for the question, best first
+export const retrieveSources = (sources: Source[], question: string, limit = MAX_SOURCES): Source[] => {
+  const terms = searchTerms(question);
+  if (terms.length === 0) return [];
+  return sources
+    .map((item) => ({ item, score: score(item, terms) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ item }) => item);
+};
+
+export const citationsFor = (sources: Source[]): Citation[] =>
+  sources.map((item, index) => ({ ref: index + 1, kind: item.kind, title: item.title, url: item.url }));
+
+const KIND_LABELS: Record<SourceKind, string> = {
+  destination: "Destination",
+  package: "Package",
+  tour_package: "Tour package",
+  blog: "Blog post",
+  review: "Traveller review",
+};
+
+export function groundingInstructions(sources: Source[]): string {
+  if (sources.length === 0) {
+    return `KONKAN EXPLORER RECORDS: none match this question. Do not quote prices, phone numbers or other contact details; suggest browsing our packages instead.`;
+  }
+
+  const records = sources
+    .map((item, index) => `[${index + 1}] ${KIND_LABELS[item.kind]}: ${item.title}. ${item.text}`)
+    .join("\n");
+
+  return `KONKAN EXPLORER RECORDS (our own data, numbered for citing):
+${records}
+
+When you use one of these records, cite it with its number in square brackets, like [1] or [2, 3].
+Take prices, durations and contact details only from these records. If something isn't in them, say you don't have that detail rather than guessing, and never make up phone numbers.`;
+}
@@ -0,0 +1,78 @@
+import { citationsIn, type Citation } from "../_shared/citations.ts";
+import { formatEvent, readEvents } from "../_shared/sse.ts";
+import { parseRefinement, type RefinementContext } from "./refine.ts";
+
+// Streams a reply from Gemini's streamGenerateContent endpoint to the chat page
+// as server-sent events:
+//   delta    - { text }: the next piece of the answer
+//   done     - { response, edits, citations }: the whole answer, with the
+//              records it cites
+//   fallback - { response, error }: Gemini failed, possibly part-way through;
+//              `response` is a canned answer for when nothing was streamed yet
+// Refinement replies are JSON, so they are collected and only sent as `done`.
+// When the page cancels the request, the call to Gemini is aborted too.
+
+export interface ChatStreamOptions {
+  refinement: RefinementContext | null;
+  // The records in the prompt; only those the answer cites are sent back
+  citations: Citation[];
+  fallback: string;
+  headers: Record<string, string>;
+}
+
+export function streamChatReply(url: string, payload: unknown, { refinement, citations, fallback, headers }: ChatStreamOptions): Response {
+  const upstream = new AbortController();
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => controller.enqueue(encoder.encode(formatEvent(event, data)));
+      let text = "";
+
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+          signal: upstream.signal,
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(`Gemini API error: ${response.status} ${await response.text()}`);
+        }
+
+        for await (const event of readEvents(response.body, upstream.signal)) {
+          const chunk = JSON.parse(event.data)?.candidates?.[0]?.content?.parts?.[0]?.text;
+          if (typeof chunk !== "string" || chunk.length === 0) continue;
+          text += chunk;
+          if (!refinement) send("delta", { text: chunk });
+        }
+
+        if (upstream.signal.aborted) return;
+        if (text.trim().length === 0) throw new Error("Empty response from Gemini API");
+
+        if (refinement) {
+          const { reply, edits } = parseRefinement(text, refinement.plan);
+          console.log(`🗺️ Proposed ${edits.length} itinerary edits`);
+          send("done", { response: reply, edits, citations: citationsIn(reply, citations) });
+        } else {
+          console.log("✅ Streamed response:", text.substring(0, 100) + "...");
+          send("done", { response: text, edits: [], citations: citationsIn(text, citations) });
+        }
+      } catch (error) {
+        if (upstream.signal.aborted) return;
+        console.error("❌ Gemini stream failed:", error);
+        send("fallback", { response: fallback, error: error instanceof Error ? error.message : String(error) });
+      } finally {
+        if (!upstream.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      console.log("🛑 Chat stream cancelled by the client");
+      upstream.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...headers, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
+}
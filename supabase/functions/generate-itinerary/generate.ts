@@ -0,0 +1,137 @@
+import type { ItineraryModel } from "./llm.ts";
+import { BUDGET_BANDS, planItinerary, type Destination } from "./planner.ts";
+import {
+  itineraryPlanSchema,
+  toItinerary,
+  type Itinerary,
+  type TripPreferences,
+} from "../_shared/itinerary.ts";
+
+export type ItinerarySource = "ai" | "planner";
+
+export interface GenerationResult {
+  itinerary: Itinerary;
+  source: ItinerarySource;
+}
+
+// What the group voted for and against, for the prompts. Empty without votes.
+export function groupVotesPrompt(request: TripPreferences, destinations: Destination[]): string {
+  if (!request.groupVotes) return "";
+  const names = (keys: string[]) =>
+    keys.map((key) => destinations.find((d) => d.id === key || d.name.toLowerCase() === key)?.name ?? key).join(", ");
+  const { favoured, rejected } = request.groupVotes;
+  return [
+    favoured.length > 0 && `The group voted for: ${names(favoured)}. Include these where they fit.`,
+    rejected.length > 0 && `The group voted against: ${names(rejected)}. Do not include these.`,
+  ].filter(Boolean).join("\n");
+}
+
+function buildPrompt(request: TripPreferences, destinations: Destination[], draft: Itinerary): string {
+  const places = destinations
+    .map((d) => `- ${d.name} [id: ${d.id}] (${d.category}, ${d.latitude}, ${d.longitude}): ${d.description ?? ""}`)
+    .join("\n");
+
+  return `You are an expert travel planner for the Konkan coast of Maharashtra, India.
+
+Plan a ${request.days}-day trip for ${request.groupType} travelers.
+Interests: ${request.exploreType.join(", ") || "general sightseeing"}.
+Budget band (per person, whole trip): ${request.budgetRange}.
+${request.specialRequests ? `Special requests: ${request.specialRequests}` : ""}
+${groupVotesPrompt(request, destinations)}
+
+Only use these places, and keep each day's places close to each other:
+${places}
+
+Here is a draft plan that already satisfies the geography and budget. Improve the descriptions,
+timings and tips, but keep exactly ${request.days} days and keep the total cost within the budget band:
+${JSON.stringify(draft)}
+
+Return JSON only (no version field): { days: [{ title, activities: [{ name, description, time, cost, destinationId }], restaurants: [{ name, cuisine, contact }], tips }], totalEstimatedCost, bestTimeToVisit, summary }.
+Times look like "9:00 AM - 12:00 PM" and costs are numbers in rupees per person.`;
+}
+
+export function stripCodeFence(text: string): string {
+  return text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+}
+
+// The model only echoes destination ids, so coordinates and categories are
+// copied back from the destinations table by id, falling back to the name.
+export function attachLocations(itinerary: Itinerary, destinations: Destination[]): Itinerary {
+  const byId = new Map(destinations.map((d) => [d.id, d]));
+  const byName = new Map(destinations.map((d) => [d.name.toLowerCase(), d]));
+
+  return {
+    ...itinerary,
+    days: itinerary.days.map((day) => ({
+      ...day,
+      activities: day.activities.map((activity) => {
+        const destination =
+          (activity.destinationId && byId.get(activity.destinationId)) || byName.get(activity.name.toLowerCase());
+        if (!destination) return activity;
+        return {
+          ...activity,
+          destinationId: destination.id,
+          category: activity.category ?? destination.category ?? undefined,
+          latitude: destination.latitude ?? undefined,
+          longitude: destination.longitude ?? undefined,
+        };
+      }),
+    })),
+  };
+}
+
+// Why the model's plan can't be used, or null when it can: the total must be
+// inside the budget band, and every activity must be one of our destinations
+// or one the planner's draft also has (such as a free afternoon).
+function planProblem(itinerary: Itinerary, request: TripPreferences, destinations: Destination[], draft: Itinerary): string | null {
+  const band = BUDGET_BANDS[request.budgetRange] ?? BUDGET_BANDS.moderate;
+  if (itinerary.totalEstimatedCost < band.min || itinerary.totalEstimatedCost > band.max) {
+    return `costs ₹${itinerary.totalEstimatedCost}, outside the ₹${band.min} - ₹${band.max} band`;
+  }
+
+  const known = new Set(destinations.map((d) => d.id));
+  const draftNames = new Set(draft.days.flatMap((day) => day.activities.map((activity) => activity.name.toLowerCase())));
+  const unknown = itinerary.days
+    .flatMap((day) => day.activities)
+    .find((activity) => activity.destinationId ? !known.has(activity.destinationId) : !draftNames.has(activity.name.toLowerCase()));
+  return unknown ? `includes "${unknown.name}", which is not one of the supplied destinations` : null;
+}
+
+// Asks the model for an itinerary and validates it. Any failure (no model, API
+// error, invalid JSON, schema mismatch, wrong number of days, a total outside
+// the budget band, places we don't know) falls back to the deterministic
+// planner so callers always receive a well-formed plan.
+export async function generateItinerary(
+  request: TripPreferences,
+  destinations: Destination[],
+  model: ItineraryModel | null,
+): Promise<GenerationResult> {
+  const draft = planItinerary(request, destinations);
+  if (!model) return { itinerary: draft, source: "planner" };
+
+  try {
+    const raw = await model.generate(buildPrompt(request, destinations, draft));
+    const parsed = itineraryPlanSchema.safeParse(JSON.parse(stripCodeFence(raw)));
+
+    if (!parsed.success) {
+      console.error(`Itinerary from ${model.name} failed validation:`, parsed.error.issues);
+      return { itinerary: draft, source: "planner" };
+    }
+    if (parsed.data.days.length !== request.days) {
+      console.error(`Itinerary from ${model.name} has ${parsed.data.days.length} days, expected ${request.days}`);
+      return { itinerary: draft, source: "planner" };
+    }
+
+    const itinerary = attachLocations(toItinerary(parsed.data), destinations);
+    const problem = planProblem(itinerary, request, destinations, draft);
+    if (problem) {
+      console.error(`Itinerary from ${model.name} ${problem}`);
+      return { itinerary: draft, source: "planner" };
+    }
+
+    return { itinerary, source: "ai" };
+  } catch (error) {
+    console.error(`Itinerary model ${model.name} failed:`, error);
+    return { itinerary: draft, source: "planner" };
+  }
+}
@@ -1,28 +1,88 @@
-
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { generateItinerary } from "./generate.ts";
+import { createItineraryModel } from "./llm.ts";
+import { normaliseInterests, type Destination } from "./planner.ts";
+import { RegenerationError, regenerateItineraryPart, regenerationTargetSchema } from "./regenerate.ts";
+import { migrateItinerary, tripPreferencesSchema } from "../_shared/itinerary.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Used when the destinations table cannot be reached, mirrors the seed data in the migrations.
+const fallbackDestinations: Destination[] = [
+  { id: 'tarkarli-beach', name: 'Tarkarli Beach', description: 'Crystal clear waters perfect for water sports and relaxation', latitude: 16.0167, longitude: 73.4667, category: 'beach', featured: true },
+  { id: 'sindhudurg-fort', name: 'Sindhudurg Fort', description: 'Historic sea fort built by Chhatrapati Shivaji Maharaj', latitude: 16.0333, longitude: 73.5000, category: 'heritage', featured: true },
+  { id: 'malvan-beach', name: 'Malvan Beach', description: 'Famous for scuba diving and authentic Malvani cuisine', latitude: 16.0667, longitude: 73.4667, category: 'beach', featured: true },
+  { id: 'amboli-waterfalls', name: 'Amboli Waterfalls', description: 'Breathtaking waterfalls surrounded by lush greenery', latitude: 15.9500, longitude: 74.0000, category: 'nature', featured: true },
+  { id: 'vengurla-beach', name: 'Vengurla Beach', description: 'Pristine beach with golden sand and coconut groves', latitude: 15.8667, longitude: 73.6333, category: 'beach', featured: false },
+  { id: 'devbagh-beach', name: 'Devbagh Beach', description: 'Secluded beach perfect for peaceful getaways', latitude: 16.0000, longitude: 73.4500, category: 'beach', featured: false },
+  { id: 'sawantwadi-palace', name: 'Sawantwadi Palace', description: 'Beautiful palace showcasing local art and culture', latitude: 15.9000, longitude: 73.8167, category: 'heritage', featured: false },
+  { id: 'redi-beach', name: 'Redi Beach', description: 'Quiet beach with red sand and fishing village charm', latitude: 15.7500, longitude: 73.5833, category: 'beach', featured: false },
+];
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { days, groupType, exploreType, budgetRange, specialRequests } = await req.json();
+    // `regenerate: { plan, target: { day, activity? } }` swaps out one day or
+    // activity of `plan` instead of planning the whole trip
+    const { days, groupType, exploreType, budgetRange, specialRequests, groupVotes, regenerate } = await req.json();
+
+    const parsedRequest = tripPreferencesSchema.safeParse({
+      days,
+      groupType,
+      exploreType: normaliseInterests(exploreType),
+      budgetRange,
+      specialRequests: specialRequests || undefined,
+      groupVotes: groupVotes || undefined,
+    });
+
+    if (!parsedRequest.success) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid trip preferences', details: parsedRequest.error.issues }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    const request = parsedRequest.data;
 
-    // For now, we'll create a mock itinerary. In a real implementation, you would:
-    // 1. Call an AI service like OpenAI, Google Gemini, or Claude
-    // 2. Use the user's preferences to generate a personalized itinerary
-    
-    const mockItinerary = generateMockItinerary(days, groupType, exploreType, budgetRange, specialRequests);
+    const destinations = await loadDestinations();
+
+    if (regenerate) {
+      const plan = migrateItinerary(regenerate.plan);
+      const target = regenerationTargetSchema.safeParse(regenerate.target);
+      if (!plan || !target.success) {
+        return new Response(
+          JSON.stringify({ error: 'Pass the current plan and the day (and optionally activity) to regenerate' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        );
+      }
+
+      try {
+        const { itinerary, source } = await regenerateItineraryPart(request, destinations, plan, target.data, createItineraryModel(Deno.env));
+        return new Response(
+          JSON.stringify({ itinerary, source }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      } catch (error) {
+        if (!(error instanceof RegenerationError)) throw error;
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 422 }
+        );
+      }
+    }
+
+    const { itinerary, source } = await generateItinerary(request, destinations, createItineraryModel(Deno.env));
 
     return new Response(
-      JSON.stringify({ itinerary: mockItinerary }),
+      JSON.stringify({ itinerary, source }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
@@ -34,46 +94,25 @@ serve(async (req) => {
   }
 });
 
-function generateMockItinerary(days: number, groupType: string, exploreType: string, budgetRange: string, specialRequests: string) {
-  const konkanPlaces = [
-    { name: "Tarkarli Beach", type: "beach", activities: ["water sports", "scuba diving", "beach relaxation"] },
-    { name: "Sindhudurg Fort", type: "heritage", activities: ["fort exploration", "history tour", "photography"] },
-    { name: "Malvan", type: "food", activities: ["Malvani cuisine", "seafood", "local markets"] },
-    { name: "Amboli Waterfalls", type: "nature", activities: ["trekking", "waterfall viewing", "nature photography"] },
-    { name: "Vengurla Beach", type: "beach", activities: ["sunset viewing", "coconut groves", "peaceful walks"] },
-    { name: "Devbagh Beach", type: "beach", activities: ["secluded beach", "turtle watching", "peaceful getaway"] },
-  ];
-
-  const restaurants = [
-    { name: "Athithi Bamboo", cuisine: "Malvani", contact: "+91 98765 43210" },
-    { name: "Chaitanya Restaurant", cuisine: "Seafood", contact: "+91 98765 43211" },
-    { name: "Malvan Kinara", cuisine: "Local", contact: "+91 98765 43212" },
-    { name: "Kokan Darbar", cuisine: "Traditional", contact: "+91 98765 43213" },
-  ];
-
-  const itineraryDays = [];
-  
-  for (let i = 0; i < days; i++) {
-    const dayPlaces = konkanPlaces.slice(i % konkanPlaces.length, (i % konkanPlaces.length) + 2);
-    const dayRestaurants = restaurants.slice(i % restaurants.length, (i % restaurants.length) + 2);
-    
-    itineraryDays.push({
-      title: `Exploring ${dayPlaces[0]?.name || 'Konkan Coast'}`,
-      activities: dayPlaces.map(place => ({
-        name: place.name,
-        description: `Visit ${place.name} and enjoy ${place.activities.join(', ')}`,
-        time: i === 0 ? "9:00 AM - 12:00 PM" : "10:00 AM - 1:00 PM",
-        cost: budgetRange === "budget" ? "500" : budgetRange === "moderate" ? "1000" : "2000"
-      })),
-      restaurants: dayRestaurants,
-      tips: `Best time to visit is early morning. ${specialRequests ? 'Note: ' + specialRequests : 'Don\'t forget to try the local Solkadhi drink!'}`
-    });
+async function loadDestinations(): Promise<Destination[]> {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+  );
+
+  const { data, error } = await supabase
+    .from('destinations')
+    .select('id, name, description, latitude, longitude, category, featured');
+
+  if (error || !data || data.length === 0) {
+    console.error('Falling back to built-in destinations:', error);
+    return fallbackDestinations;
   }
 
-  return {
-    days: itineraryDays,
-    totalEstimatedCost: budgetRange === "budget" ? days * 2000 : budgetRange === "moderate" ? days * 5000 : days * 10000,
-    bestTimeToVisit: "October to March",
-    summary: `A ${days}-day ${exploreType} focused trip perfect for ${groupType} travelers within ${budgetRange} budget.`
-  };
+  // decimal columns come back as strings from PostgREST
+  return data.map((row) => ({
+    ...row,
+    latitude: row.latitude === null ? null : Number(row.latitude),
+    longitude: row.longitude === null ? null : Number(row.longitude),
+  }));
 }
@@ -0,0 +1,120 @@
+// Anything that can turn a prompt into raw JSON text. The edge function only
+// talks to this interface, so a stub can stand in for the live API locally.
+export interface ItineraryModel {
+  readonly name: string;
+  generate(prompt: string): Promise<string>;
+}
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+// The itinerary plan shape in the OpenAPI subset Gemini accepts as `responseSchema`.
+// Must be kept in line with itineraryPlanSchema in _shared/itinerary.ts.
+const itineraryResponseSchema = {
+  type: "OBJECT",
+  properties: {
+    days: {
+      type: "ARRAY",
+      items: {
+        type: "OBJECT",
+        properties: {
+          title: { type: "STRING" },
+          activities: {
+            type: "ARRAY",
+            items: {
+              type: "OBJECT",
+              properties: {
+                name: { type: "STRING" },
+                description: { type: "STRING" },
+                time: { type: "STRING" },
+                cost: { type: "NUMBER" },
+                destinationId: { type: "STRING" },
+              },
+              required: ["name", "description", "time", "cost"],
+            },
+          },
+          restaurants: {
+            type: "ARRAY",
+            items: {
+              type: "OBJECT",
+              properties: {
+                name: { type: "STRING" },
+                cuisine: { type: "STRING" },
+                contact: { type: "STRING" },
+              },
+              required: ["name", "cuisine"],
+            },
+          },
+          tips: { type: "STRING" },
+        },
+        required: ["title", "activities", "restaurants", "tips"],
+      },
+    },
+    totalEstimatedCost: { type: "NUMBER" },
+    bestTimeToVisit: { type: "STRING" },
+    summary: { type: "STRING" },
+  },
+  required: ["days", "totalEstimatedCost", "bestTimeToVisit", "summary"],
+};
+
+export class GeminiItineraryModel implements ItineraryModel {
+  readonly name = "gemini-1.5-flash";
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly fetchImpl: FetchLike = fetch,
+  ) {}
+
+  async generate(prompt: string): Promise<string> {
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${this.apiKey}`;
+
+    const response = await this.fetchImpl(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: 0.4,
+          maxOutputTokens: 4096,
+          responseMimeType: "application/json",
+          responseSchema: itineraryResponseSchema,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Gemini API error: ${response.status} ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    const text = data?.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (typeof text !== "string" || text.trim().length === 0) {
+      throw new Error("Empty response from Gemini API");
+    }
+    return text;
+  }
+}
+
+// Returns canned output instead of calling a model.
+export class StubItineraryModel implements ItineraryModel {
+  readonly name = "stub";
+
+  constructor(private readonly respond: (prompt: string) => string | Promise<string>) {}
+
+  async generate(prompt: string): Promise<string> {
+    return await this.respond(prompt);
+  }
+}
+
+// Picks the model from the environment:
+//   ITINERARY_MODEL_PROVIDER=stub  -> StubItineraryModel answering with ITINERARY_STUB_RESPONSE
+//   otherwise                      -> Gemini, or null when GEMINI_API_KEY is not configured
+export function createItineraryModel(env: { get(key: string): string | undefined }): ItineraryModel | null {
+  if (env.get("ITINERARY_MODEL_PROVIDER") === "stub") {
+    const cannedResponse = env.get("ITINERARY_STUB_RESPONSE") ?? "{}";
+    return new StubItineraryModel(() => cannedResponse);
+  }
+
+  const apiKey = env.get("GEMINI_API_KEY");
+  if (!apiKey || apiKey === "your_actual_gemini_api_key_here") return null;
+  return new GeminiItineraryModel(apiKey);
+}
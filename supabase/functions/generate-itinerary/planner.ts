@@ -0,0 +1,532 @@
+// Constraint-based itinerary planner.
+//
+// Turns the rows of the `destinations` table into a day-by-day plan:
+//   1. score every destination against the selected exploration styles and
+//      the group's votes, leaving out places the group voted against,
+//   2. pick enough stops to fill the trip while covering every style,
+//   3. cluster the stops geographically so each day stays in one area,
+//   4. order the stops inside a day with a nearest-neighbour walk,
+//   5. price everything for the chosen budget band and schedule the day.
+//
+// Everything in here is pure so it can be exercised without Deno or Supabase.
+
+import { distanceKm, travelMinutes, type Point } from "../_shared/geo.ts";
+import {
+  activitiesCost,
+  formatClock,
+  toItinerary,
+  type Itinerary,
+  type ItineraryActivity,
+  type ItineraryDay,
+  type ItineraryRestaurant,
+  type TripPreferences,
+} from "../_shared/itinerary.ts";
+
+export interface Destination {
+  id: string;
+  name: string;
+  description: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  category: string | null;
+  featured: boolean | null;
+}
+
+type LocatedDestination = Destination & Point;
+
+// Exploration styles offered by PlannerForm, mapped to destination categories
+// and description keywords that count as a match.
+const INTEREST_RULES: Record<string, { categories: string[]; keywords: RegExp }> = {
+  adventure: { categories: ["adventure"], keywords: /water sports|scuba|diving|trek|adventure|kayak/i },
+  nature: { categories: ["nature"], keywords: /waterfall|forest|greenery|wildlife|mangrove|ghats/i },
+  heritage: { categories: ["heritage"], keywords: /fort|palace|histor|heritage|architecture|culture/i },
+  beaches: { categories: ["beach"], keywords: /beach|sand|coast/i },
+  food: { categories: ["food"], keywords: /cuisine|food|seafood|malvani|market/i },
+  "hidden-gems": { categories: [], keywords: /secluded|quiet|hidden|peaceful|village/i },
+  photography: { categories: [], keywords: /sunset|view|scenic|breathtaking|golden|clear waters/i },
+  spiritual: { categories: ["spiritual", "temple"], keywords: /temple|spiritual|shrine|sacred/i },
+};
+
+// Per-person budget bands, matching the options in PlannerForm.
+export const BUDGET_BANDS: Record<string, { min: number; max: number; tier: number }> = {
+  budget: { min: 2000, max: 5000, tier: 1 },
+  moderate: { min: 5000, max: 10000, tier: 2 },
+  premium: { min: 10000, max: 20000, tier: 3.5 },
+  luxury: { min: 20000, max: 40000, tier: 6 },
+};
+
+const ACTIVITY_BASE_COST: Record<string, number> = {
+  beach: 300,
+  heritage: 100,
+  nature: 200,
+  food: 400,
+  adventure: 600,
+  spiritual: 50,
+};
+
+const VISIT_MINUTES: Record<string, number> = {
+  beach: 180,
+  heritage: 120,
+  nature: 180,
+  food: 90,
+  adventure: 180,
+  spiritual: 60,
+};
+
+const DAILY_FOOD_COST = 400;
+const NIGHTLY_STAY_COST = 800;
+
+const DAY_START_MINUTES = 9 * 60;
+const LUNCH_START_MINUTES = 12 * 60;
+const LUNCH_MINUTES = 60;
+// Stops further than this from a day's area are dropped rather than moved to another day.
+const MAX_DAY_SPREAD_KM = 30;
+
+// There is no restaurants table yet, so recommendations come from this list
+// and are matched to the nearest day cluster.
+const RESTAURANTS: (ItineraryRestaurant & Point)[] = [
+  { name: "Athithi Bamboo", cuisine: "Malvani", contact: "+91 98765 43210", latitude: 16.0206, longitude: 73.4688 },
+  { name: "Chaitanya Restaurant", cuisine: "Seafood", contact: "+91 98765 43211", latitude: 16.0601, longitude: 73.4702 },
+  { name: "Malvan Kinara", cuisine: "Local", contact: "+91 98765 43212", latitude: 16.0582, longitude: 73.4655 },
+  { name: "Kokan Darbar", cuisine: "Traditional", contact: "+91 98765 43213", latitude: 15.9056, longitude: 73.8212 },
+  { name: "Hotel Sagar Kinara", cuisine: "Seafood", contact: "+91 98765 43214", latitude: 15.8612, longitude: 73.6301 },
+  { name: "Amboli Ghat Dhaba", cuisine: "Maharashtrian", contact: "+91 98765 43215", latitude: 15.9588, longitude: 73.9987 },
+];
+
+function centroid(points: Point[]): Point {
+  return {
+    latitude: points.reduce((sum, p) => sum + p.latitude, 0) / points.length,
+    longitude: points.reduce((sum, p) => sum + p.longitude, 0) / points.length,
+  };
+}
+
+function categoryOf(destination: Destination): string {
+  return (destination.category || "general").toLowerCase();
+}
+
+export function normaliseInterests(exploreType: string[] | string | undefined): string[] {
+  const raw = Array.isArray(exploreType) ? exploreType : (exploreType || "").split(",");
+  const interests = raw.map((value) => value.trim().toLowerCase()).filter(Boolean);
+  return [...new Set(interests)];
+}
+
+function interestScore(destination: Destination, interest: string): number {
+  const rule = INTEREST_RULES[interest];
+  if (!rule) return 0;
+
+  let score = 0;
+  if (rule.categories.includes(categoryOf(destination))) score += 2;
+  if (rule.keywords.test(`${destination.name} ${destination.description || ""}`)) score += 1;
+  if (interest === "hidden-gems" && !destination.featured) score += 2;
+  return score;
+}
+
+// Worth more than matching any single interest, so places the group voted
+// for come first
+const FAVOURED_BONUS = 3;
+
+interface GroupVotes {
+  favoured: Set<string>;
+  rejected: Set<string>;
+}
+
+function groupVotesOf(request: TripPreferences): GroupVotes {
+  return {
+    favoured: new Set(request.groupVotes?.favoured ?? []),
+    rejected: new Set(request.groupVotes?.rejected ?? []),
+  };
+}
+
+function votedFor(keys: Set<string>, destination: Destination): boolean {
+  return keys.has(destination.id) || keys.has(destination.name.toLowerCase());
+}
+
+function totalScore(destination: Destination, interests: string[], votes?: GroupVotes): number {
+  const score = interests.reduce((sum, interest) => sum + interestScore(destination, interest), 0);
+  const featuredBonus = destination.featured && !interests.includes("hidden-gems") ? 0.5 : 0;
+  const votedBonus = votes && votedFor(votes.favoured, destination) ? FAVOURED_BONUS : 0;
+  return score + featuredBonus + votedBonus;
+}
+
+function stopsPerDay(groupType: string): number {
+  return groupType === "family" || groupType === "large-group" ? 2 : 3;
+}
+
+// Picks the stops for the whole trip. The best match for every selected
+// interest is taken first so no exploration style is silently dropped, then
+// the remaining slots are filled by overall score.
+function selectStops(
+  destinations: LocatedDestination[],
+  interests: string[],
+  slots: number,
+  votes?: GroupVotes,
+): LocatedDestination[] {
+  const ranked = destinations
+    .filter((destination) => !votes || !votedFor(votes.rejected, destination))
+    .sort((a, b) => totalScore(b, interests, votes) - totalScore(a, interests, votes) || a.name.localeCompare(b.name));
+  const selected: LocatedDestination[] = [];
+
+  for (const interest of interests) {
+    const best = ranked
+      .filter((destination) => !selected.includes(destination) && interestScore(destination, interest) > 0)
+      .sort((a, b) => interestScore(b, interest) - interestScore(a, interest))[0];
+    if (best && selected.length < slots) selected.push(best);
+  }
+
+  for (const destination of ranked) {
+    if (selected.length >= slots) break;
+    if (!selected.includes(destination)) selected.push(destination);
+  }
+
+  return selected;
+}
+
+// k-means over latitude/longitude with a deterministic farthest-point
+// initialisation, followed by a rebalancing pass so no day is overloaded.
+// `stops` must be in priority order: when a cluster is overfull and its extra
+// stops have no nearby cluster to move to, the lowest-priority ones are dropped.
+export function clusterStops<T extends Point>(stops: T[], clusterCount: number, maxPerCluster: number): T[][] {
+  if (stops.length === 0 || clusterCount <= 0) return [];
+  const k = Math.min(clusterCount, stops.length);
+  const priority = (stop: T) => stops.indexOf(stop);
+
+  const centres: Point[] = [stops.reduce((north, stop) => (stop.latitude > north.latitude ? stop : north))];
+  while (centres.length < k) {
+    const farthest = stops.reduce((best, stop) => {
+      const distance = Math.min(...centres.map((centre) => distanceKm(centre, stop)));
+      const bestDistance = Math.min(...centres.map((centre) => distanceKm(centre, best)));
+      return distance > bestDistance ? stop : best;
+    });
+    centres.push({ latitude: farthest.latitude, longitude: farthest.longitude });
+  }
+
+  let assignment: number[] = [];
+  for (let iteration = 0; iteration < 20; iteration++) {
+    const next = stops.map((stop) => {
+      let bestIndex = 0;
+      centres.forEach((centre, index) => {
+        if (distanceKm(centre, stop) < distanceKm(centres[bestIndex], stop)) bestIndex = index;
+      });
+      return bestIndex;
+    });
+
+    const converged = next.every((cluster, index) => cluster === assignment[index]);
+    assignment = next;
+    centres.forEach((_, index) => {
+      const members = stops.filter((__, stopIndex) => assignment[stopIndex] === index);
+      if (members.length > 0) centres[index] = centroid(members);
+    });
+    if (converged) break;
+  }
+
+  const clusters: T[][] = centres.map((_, index) => stops.filter((__, stopIndex) => assignment[stopIndex] === index));
+
+  for (const cluster of clusters) {
+    while (cluster.length > maxPerCluster) {
+      const centre = centroid(cluster);
+      const outermost = cluster.reduce((far, stop) => (distanceKm(centre, stop) > distanceKm(centre, far) ? stop : far));
+      const target = clusters
+        .filter((other) => other !== cluster && other.length > 0 && other.length < maxPerCluster)
+        .map((other) => ({ other, distance: distanceKm(centroid(other), outermost) }))
+        .filter(({ distance }) => distance <= MAX_DAY_SPREAD_KM)
+        .sort((a, b) => a.distance - b.distance)[0];
+
+      if (target) {
+        target.other.push(outermost);
+        cluster.splice(cluster.indexOf(outermost), 1);
+      } else {
+        const leastWanted = cluster.reduce((low, stop) => (priority(stop) > priority(low) ? stop : low));
+        cluster.splice(cluster.indexOf(leastWanted), 1);
+      }
+    }
+  }
+
+  return clusters.filter((cluster) => cluster.length > 0);
+}
+
+// Orders stops by repeatedly visiting the nearest unvisited one.
+export function orderByNearestNeighbour<T extends Point>(stops: T[], start?: Point): T[] {
+  const remaining = [...stops];
+  const ordered: T[] = [];
+  let current: Point | undefined = start;
+
+  while (remaining.length > 0) {
+    let nextIndex = 0;
+    if (current) {
+      remaining.forEach((stop, index) => {
+        if (distanceKm(current as Point, stop) < distanceKm(current as Point, remaining[nextIndex])) nextIndex = index;
+      });
+    }
+    const [next] = remaining.splice(nextIndex, 1);
+    ordered.push(next);
+    current = next;
+  }
+
+  return ordered;
+}
+
+function roundToFifty(amount: number): number {
+  return Math.max(0, Math.round(amount / 50) * 50);
+}
+
+function describeActivity(destination: Destination, interests: string[]): string {
+  const matched = interests.filter((interest) => interestScore(destination, interest) > 0);
+  const base = destination.description || `Explore ${destination.name}`;
+  return matched.length > 0 ? `${base}. Great for: ${matched.join(", ")}.` : `${base}.`;
+}
+
+function scheduleDay(stops: LocatedDestination[], interests: string[], tier: number, previousStop?: Point): ItineraryActivity[] {
+  let clock = DAY_START_MINUTES;
+  let hadLunch = false;
+  let position = previousStop;
+
+  return stops.map((stop) => {
+    if (position) clock += travelMinutes(position, stop);
+    if (!hadLunch && clock >= LUNCH_START_MINUTES) {
+      clock += LUNCH_MINUTES;
+      hadLunch = true;
+    }
+
+    const category = categoryOf(stop);
+    const start = clock;
+    const end = start + (VISIT_MINUTES[category] ?? 120);
+    clock = end;
+    position = stop;
+
+    return {
+      name: stop.name,
+      description: describeActivity(stop, interests),
+      time: `${formatClock(start)} - ${formatClock(end)}`,
+      cost: roundToFifty((ACTIVITY_BASE_COST[category] ?? 250) * tier),
+      category,
+      destinationId: stop.id,
+      latitude: stop.latitude,
+      longitude: stop.longitude,
+    };
+  });
+}
+
+function nearestRestaurants(area: Point, count: number): ItineraryRestaurant[] {
+  return [...RESTAURANTS]
+    .sort((a, b) => distanceKm(area, a) - distanceKm(area, b))
+    .slice(0, count)
+    .map(({ name, cuisine, contact }) => ({ name, cuisine, contact }));
+}
+
+function dayTips(activities: ItineraryActivity[], groupType: string, specialRequests?: string): string {
+  const categories = new Set(activities.map((activity) => activity.category));
+  const tips: string[] = [];
+
+  if (categories.has("beach")) tips.push("Water sports usually wind down by 5 PM, so head to the beach early.");
+  if (categories.has("heritage")) tips.push("Hire a local guide at heritage sites for the stories behind the walls.");
+  if (categories.has("nature")) tips.push("Wear shoes with good grip; trails can be slippery.");
+  if (groupType === "family") tips.push("Keep the afternoon light so the kids can rest.");
+  if (groupType === "large-group") tips.push("Book transport in advance to keep the group together.");
+  if (tips.length === 0) tips.push("Don't forget to try the local Solkadhi drink!");
+  if (specialRequests) tips.push(`Note: ${specialRequests}`);
+
+  return tips.join(" ");
+}
+
+function bestTimeToVisit(activities: ItineraryActivity[]): string {
+  const natureHeavy = activities.filter((activity) => activity.category === "nature").length > activities.length / 3;
+  return natureHeavy
+    ? "October to March (visit June to September for the waterfalls at their fullest)"
+    : "October to March";
+}
+
+// Brings the plan inside the budget band and returns its total, which is
+// always the activity costs plus food and stays. Over the top of the band
+// every cost is scaled down; under the bottom, food and stays are upgraded to
+// fill the gap, since entry fees don't change with the budget.
+function fitToBudget(days: ItineraryDay[], fixedCosts: number, band: { min: number; max: number }): number {
+  const activityCosts = () => activitiesCost(days.flatMap((day) => day.activities));
+  const total = activityCosts() + fixedCosts;
+  let fixed = fixedCosts;
+
+  if (total > band.max) {
+    const scale = band.max / total;
+    days.forEach((day) => {
+      day.activities.forEach((activity) => {
+        activity.cost = roundToFifty(activity.cost * scale);
+      });
+    });
+    // Rounding can tip the total back over; food and stays absorb that
+    fixed = Math.max(0, Math.min(roundToFifty(fixedCosts * scale), band.max - activityCosts()));
+  } else if (total < band.min) {
+    fixed = band.min - activityCosts();
+  }
+
+  return activityCosts() + fixed;
+}
+
+// Where plans start when there is nothing else to go by
+const MALVAN: Point = { latitude: 16.0167, longitude: 73.4667 };
+
+function leisureDay(area: Point, request: TripPreferences): ItineraryDay {
+  return {
+    title: "Leisure Day on the Konkan Coast",
+    activities: [
+      {
+        name: "Free time to explore",
+        description: "Revisit a favourite spot, shop at the local market or simply relax by the sea.",
+        time: `${formatClock(DAY_START_MINUTES + 60)} - ${formatClock(LUNCH_START_MINUTES)}`,
+        cost: 0,
+        category: "leisure",
+      },
+    ],
+    restaurants: nearestRestaurants(area, 2),
+    tips: dayTips([], request.groupType, request.specialRequests),
+  };
+}
+
+function buildDay(ordered: LocatedDestination[], request: TripPreferences, interests: string[], tier: number): ItineraryDay {
+  const activities = scheduleDay(ordered, interests, tier);
+  return {
+    title: `Exploring ${ordered.map((stop) => stop.name).join(" & ")}`,
+    activities,
+    restaurants: nearestRestaurants(centroid(ordered), 2),
+    tips: dayTips(activities, request.groupType, request.specialRequests),
+  };
+}
+
+export function planItinerary(request: TripPreferences, destinations: Destination[]): Itinerary {
+  const tripDays = Math.max(1, Math.floor(request.days));
+  const interests = normaliseInterests(request.exploreType);
+  const band = BUDGET_BANDS[request.budgetRange] ?? BUDGET_BANDS.moderate;
+  const perDay = stopsPerDay(request.groupType);
+
+  const located = destinations.filter(
+    (destination): destination is LocatedDestination =>
+      typeof destination.latitude === "number" && typeof destination.longitude === "number",
+  );
+
+  const candidates = selectStops(located, interests, tripDays * perDay, groupVotesOf(request));
+  const clusters = clusterStops(candidates, tripDays, perDay).sort(
+    (a, b) => centroid(b).latitude - centroid(a).latitude,
+  );
+  const placeCount = clusters.reduce((sum, cluster) => sum + cluster.length, 0);
+
+  const days: ItineraryDay[] = [];
+  let lastStop: Point | undefined;
+
+  for (let dayIndex = 0; dayIndex < tripDays; dayIndex++) {
+    const cluster = clusters[dayIndex];
+
+    if (!cluster) {
+      // Fewer areas than days: spend the extra days slowly around the area just visited.
+      days.push(leisureDay(lastStop ?? MALVAN, request));
+      continue;
+    }
+
+    const ordered = orderByNearestNeighbour(cluster, lastStop);
+    lastStop = ordered[ordered.length - 1];
+    days.push(buildDay(ordered, request, interests, band.tier));
+  }
+
+  const nights = Math.max(0, tripDays - 1);
+  const fixedCosts = tripDays * DAILY_FOOD_COST * band.tier + nights * NIGHTLY_STAY_COST * band.tier;
+  const totalEstimatedCost = fitToBudget(days, fixedCosts, band);
+  const allActivities = days.flatMap((day) => day.activities);
+  const styles = interests.length > 0 ? interests.join(", ") : "sightseeing";
+  const bandLabel = `₹${band.min.toLocaleString("en-IN")} - ₹${band.max.toLocaleString("en-IN")}`;
+
+  return toItinerary({
+    days,
+    totalEstimatedCost,
+    bestTimeToVisit: bestTimeToVisit(allActivities),
+    summary: `A ${tripDays}-day ${styles} trip for ${request.groupType} travelers, visiting ${placeCount} places grouped by area to keep driving short, estimated at ₹${totalEstimatedCost.toLocaleString("en-IN")} per person, within your ${bandLabel} budget.`,
+  });
+}
+
+// Partial replanning: swap one day or one activity of an existing plan and
+// leave everything else alone. Places already in the plan are never suggested
+// again, so the replacement is always something new.
+
+function placeKeys(activity: ItineraryActivity): string[] {
+  return [activity.destinationId, activity.name.toLowerCase()].filter((key): key is string => Boolean(key));
+}
+
+export function plannedPlaces(plan: Itinerary): Set<string> {
+  return new Set(plan.days.flatMap((day) => day.activities.flatMap(placeKeys)));
+}
+
+function locatedStops(activities: ItineraryActivity[]): Point[] {
+  return activities
+    .filter((activity) => activity.latitude !== undefined && activity.longitude !== undefined)
+    .map((activity) => ({ latitude: activity.latitude!, longitude: activity.longitude! }));
+}
+
+// The area a day is spent in, or failing that the nearest day's area
+function dayArea(plan: Itinerary, dayIndex: number): Point | undefined {
+  const byDistance = plan.days
+    .map((day, index) => ({ stops: locatedStops(day.activities), distance: Math.abs(index - dayIndex) }))
+    .filter(({ stops }) => stops.length > 0)
+    .sort((a, b) => a.distance - b.distance);
+  return byDistance[0] && centroid(byDistance[0].stops);
+}
+
+function unplannedDestinations(plan: Itinerary, destinations: Destination[]): LocatedDestination[] {
+  const planned = plannedPlaces(plan);
+  return destinations.filter(
+    (destination): destination is LocatedDestination =>
+      typeof destination.latitude === "number" &&
+      typeof destination.longitude === "number" &&
+      !planned.has(destination.id) &&
+      !planned.has(destination.name.toLowerCase()),
+  );
+}
+
+export function replanDay(request: TripPreferences, destinations: Destination[], plan: Itinerary, dayIndex: number): ItineraryDay {
+  const interests = normaliseInterests(request.exploreType);
+  const band = BUDGET_BANDS[request.budgetRange] ?? BUDGET_BANDS.moderate;
+  const perDay = stopsPerDay(request.groupType);
+
+  // Pick up where the day before left off, to keep the drive short
+  const previousStops = dayIndex > 0 ? locatedStops(plan.days[dayIndex - 1].activities) : [];
+  const previousStop = previousStops[previousStops.length - 1];
+  const anchor = previousStop ?? dayArea(plan, dayIndex) ?? MALVAN;
+
+  const candidates = selectStops(unplannedDestinations(plan, destinations), interests, perDay * 3, groupVotesOf(request));
+  const clusters = clusterStops(candidates, Math.ceil(candidates.length / perDay), perDay);
+  const cluster = clusters.sort((a, b) => distanceKm(anchor, centroid(a)) - distanceKm(anchor, centroid(b)))[0];
+
+  if (!cluster) return leisureDay(anchor, request);
+  return buildDay(orderByNearestNeighbour(cluster, previousStop), request, interests, band.tier);
+}
+
+// Returns null when every nearby place is already in the plan
+export function replanActivity(
+  request: TripPreferences,
+  destinations: Destination[],
+  plan: Itinerary,
+  dayIndex: number,
+  activityIndex: number,
+): ItineraryActivity | null {
+  const interests = normaliseInterests(request.exploreType);
+  const band = BUDGET_BANDS[request.budgetRange] ?? BUDGET_BANDS.moderate;
+  const votes = groupVotesOf(request);
+  const day = plan.days[dayIndex];
+  const current = day.activities[activityIndex];
+
+  const otherStops = locatedStops(day.activities.filter((_, index) => index !== activityIndex));
+  const area = otherStops.length > 0 ? centroid(otherStops) : locatedStops([current])[0] ?? dayArea(plan, dayIndex) ?? MALVAN;
+
+  const best = unplannedDestinations(plan, destinations)
+    .filter((destination) => distanceKm(area, destination) <= MAX_DAY_SPREAD_KM && !votedFor(votes.rejected, destination))
+    .sort((a, b) => totalScore(b, interests, votes) - totalScore(a, interests, votes) || distanceKm(area, a) - distanceKm(area, b))[0];
+  if (!best) return null;
+
+  const category = categoryOf(best);
+  return {
+    name: best.name,
+    description: describeActivity(best, interests),
+    // Takes over the slot of the activity it replaces
+    time: current.time,
+    cost: roundToFifty((ACTIVITY_BASE_COST[category] ?? 250) * band.tier),
+    category,
+    destinationId: best.id,
+    latitude: best.latitude,
+    longitude: best.longitude,
+  };
+}
@@ -0,0 +1,178 @@
+import { z } from "zod";
+import { attachLocations, groupVotesPrompt, stripCodeFence, type GenerationResult } from "./generate.ts";
+import type { ItineraryModel } from "./llm.ts";
+import { plannedPlaces, replanActivity, replanDay, type Destination } from "./planner.ts";
+import {
+  itineraryPlanSchema,
+  toItinerary,
+  withDays,
+  type Itinerary,
+  type ItineraryActivity,
+  type ItineraryDay,
+  type TripPreferences,
+} from "../_shared/itinerary.ts";
+
+// Regenerates one day, or one activity of a day, of an existing plan. The rest
+// of the plan is given to the model as fixed context and comes back untouched.
+// As with whole plans, the deterministic planner's suggestion is the draft and
+// the fallback.
+
+export const regenerationTargetSchema = z.object({
+  // Zero-based, like the plan's arrays
+  day: z.number().int().min(0),
+  activity: z.number().int().min(0).optional(),
+});
+
+export type RegenerationTarget = z.infer<typeof regenerationTargetSchema>;
+
+export class RegenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RegenerationError";
+  }
+}
+
+function describeTarget(plan: Itinerary, target: RegenerationTarget): string {
+  const day = plan.days[target.day];
+  return target.activity === undefined
+    ? `day ${target.day + 1} ("${day.title}")`
+    : `activity ${target.activity + 1} ("${day.activities[target.activity].name}") of day ${target.day + 1}`;
+}
+
+// Places in the rest of the plan. The day or activity being replaced may
+// keep its own places, so they don't count.
+function placesOutsideTarget(plan: Itinerary, target: RegenerationTarget): Set<string> {
+  const days = plan.days.map((day, index) => {
+    if (index !== target.day) return day;
+    const activities = target.activity === undefined ? [] : day.activities.filter((_, activityIndex) => activityIndex !== target.activity);
+    return { ...day, activities };
+  });
+  return plannedPlaces({ ...plan, days });
+}
+
+function buildPrompt(
+  request: TripPreferences,
+  destinations: Destination[],
+  plan: Itinerary,
+  target: RegenerationTarget,
+  draft: ItineraryDay,
+): string {
+  const planned = placesOutsideTarget(plan, target);
+  const places = destinations
+    .filter((d) => !planned.has(d.id) && !planned.has(d.name.toLowerCase()))
+    .map((d) => `- ${d.name} [id: ${d.id}] (${d.category}, ${d.latitude}, ${d.longitude}): ${d.description ?? ""}`)
+    .join("\n");
+
+  const shape = target.activity === undefined
+    ? "exactly one day: the new version of that day"
+    : `exactly one day whose activities hold exactly one activity: the replacement, in the same time slot ("${plan.days[target.day].activities[target.activity].time}"). Give that day an empty restaurants list and empty tips`;
+
+  return `You are an expert travel planner for the Konkan coast of Maharashtra, India.
+
+A ${request.days}-day trip for ${request.groupType} travelers has already been planned.
+Interests: ${request.exploreType.join(", ") || "general sightseeing"}.
+Budget band (per person, whole trip): ${request.budgetRange}.
+${request.specialRequests ? `Special requests: ${request.specialRequests}` : ""}
+${groupVotesPrompt(request, destinations)}
+
+The traveller wants a different ${describeTarget(plan, target)}. Everything else in the plan is fixed:
+${JSON.stringify(plan)}
+
+Only suggest places from this list, which leaves out everything planned elsewhere in the trip, and keep them close to the rest of that day:
+${places}
+
+Here is a draft that already fits the geography and budget. Improve on it:
+${JSON.stringify(draft)}
+
+Return JSON only (no version field) in the usual shape { days, totalEstimatedCost, bestTimeToVisit, summary }, where days holds ${shape}.
+Times look like "9:00 AM - 12:00 PM" and costs are numbers in rupees per person.`;
+}
+
+function replace(plan: Itinerary, target: RegenerationTarget, day: ItineraryDay | null, activity: ItineraryActivity | null): Itinerary {
+  const days = plan.days.map((existing, index) => {
+    if (index !== target.day) return existing;
+    if (day) return day;
+    return {
+      ...existing,
+      activities: existing.activities.map((current, activityIndex) => (activityIndex === target.activity ? activity! : current)),
+    };
+  });
+  return withDays(plan, days);
+}
+
+// The model's answer, or null when it is unusable or repeats a place planned elsewhere
+async function askModel(
+  model: ItineraryModel,
+  request: TripPreferences,
+  destinations: Destination[],
+  plan: Itinerary,
+  target: RegenerationTarget,
+  draft: ItineraryDay,
+): Promise<ItineraryDay | null> {
+  const raw = await model.generate(buildPrompt(request, destinations, plan, target, draft));
+  const parsed = itineraryPlanSchema.safeParse(JSON.parse(stripCodeFence(raw)));
+
+  if (!parsed.success) {
+    console.error(`Regenerated part from ${model.name} failed validation:`, parsed.error.issues);
+    return null;
+  }
+
+  const [day] = attachLocations(toItinerary(parsed.data), destinations).days;
+  if (parsed.data.days.length !== 1 || (target.activity !== undefined && day.activities.length !== 1)) {
+    console.error(`Regenerated part from ${model.name} has the wrong number of days or activities`);
+    return null;
+  }
+
+  const planned = placesOutsideTarget(plan, target);
+  const repeats = day.activities.some(
+    (activity) => (activity.destinationId && planned.has(activity.destinationId)) || planned.has(activity.name.toLowerCase()),
+  );
+  if (repeats) {
+    console.error(`Regenerated part from ${model.name} repeats a place planned elsewhere`);
+    return null;
+  }
+
+  return day;
+}
+
+export async function regenerateItineraryPart(
+  request: TripPreferences,
+  destinations: Destination[],
+  plan: Itinerary,
+  target: RegenerationTarget,
+  model: ItineraryModel | null,
+): Promise<GenerationResult> {
+  const day = plan.days[target.day];
+  if (!day || (target.activity !== undefined && !day.activities[target.activity])) {
+    throw new RegenerationError("That part of the itinerary does not exist");
+  }
+
+  let draft: ItineraryDay;
+  let draftActivity: ItineraryActivity | null = null;
+  if (target.activity === undefined) {
+    draft = replanDay(request, destinations, plan, target.day);
+  } else {
+    draftActivity = replanActivity(request, destinations, plan, target.day, target.activity);
+    if (!draftActivity) throw new RegenerationError("There are no other places nearby to suggest");
+    draft = { ...day, activities: [draftActivity] };
+  }
+
+  const fallback = replace(plan, target, draftActivity ? null : draft, draftActivity);
+  if (!model) return { itinerary: fallback, source: "planner" };
+
+  try {
+    const answer = await askModel(model, request, destinations, plan, target, draft);
+    if (!answer) return { itinerary: fallback, source: "planner" };
+
+    return {
+      itinerary: target.activity === undefined
+        ? replace(plan, target, answer, null)
+        // The replacement stays in the slot it replaces, whatever time the model gave
+        : replace(plan, target, null, { ...answer.activities[0], time: day.activities[target.activity].time }),
+      source: "ai",
+    };
+  } catch (error) {
+    console.error(`Itinerary model ${model.name} failed:`, error);
+    return { itinerary: fallback, source: "planner" };
+  }
+}
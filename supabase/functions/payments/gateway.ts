@@ -0,0 +1,200 @@
+// Anything that can take a payment for a booking. The payments function only
+// talks to this interface, so a fake gateway can stand in for a real one
+// locally. Amounts are always in the smallest currency unit (paise).
+export interface PaymentGateway {
+  readonly name: string;
+  // Key the browser checkout needs to open the gateway's payment form
+  readonly publicKey: string | null;
+  createOrder(order: OrderRequest): Promise<GatewayOrder>;
+  capture(paymentId: string, amount: number, currency: string): Promise<void>;
+  // Returns the gateway's id for the refund
+  refund(paymentId: string, amount: number): Promise<string>;
+  // Returns the event when the signature matches, null otherwise
+  verifyWebhook(body: string, signature: string | null): Promise<PaymentEvent | null>;
+}
+
+export interface OrderRequest {
+  amount: number;
+  currency: string;
+  receipt: string;
+  notes?: Record<string, string>;
+}
+
+export interface GatewayOrder {
+  id: string;
+  amount: number;
+  currency: string;
+}
+
+export type PaymentEvent =
+  | { type: "authorized" | "captured"; orderId: string; paymentId: string; amount: number }
+  | { type: "failed"; orderId: string; paymentId: string; amount: number; reason: string | null };
+
+export interface WebhookDelivery {
+  body: string;
+  signature: string;
+}
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+const encoder = new TextEncoder();
+
+async function hmacSha256Hex(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// Razorpay webhooks are an event name plus the payment entity; the fake
+// gateway sends the same shape so both share this parser.
+function parseRazorpayEvent(body: string): PaymentEvent | null {
+  const { event, payload } = JSON.parse(body);
+  const payment = payload?.payment?.entity;
+  if (!payment?.order_id) return null;
+
+  const base = { orderId: payment.order_id, paymentId: payment.id, amount: payment.amount };
+  switch (event) {
+    case "payment.authorized":
+      return { type: "authorized", ...base };
+    case "payment.captured":
+      return { type: "captured", ...base };
+    case "payment.failed":
+      return { type: "failed", ...base, reason: payment.error_description ?? null };
+    default:
+      return null;
+  }
+}
+
+async function verifyRazorpayStyle(secret: string, body: string, signature: string | null) {
+  if (!signature) return null;
+  const expected = await hmacSha256Hex(secret, body);
+  return timingSafeEqual(expected, signature) ? parseRazorpayEvent(body) : null;
+}
+
+export class RazorpayGateway implements PaymentGateway {
+  readonly name = "razorpay";
+
+  constructor(
+    private readonly keyId: string,
+    private readonly keySecret: string,
+    private readonly webhookSecret: string,
+    private readonly fetchImpl: FetchLike = fetch,
+  ) {}
+
+  get publicKey() {
+    return this.keyId;
+  }
+
+  private async request(path: string, body: unknown) {
+    const response = await this.fetchImpl(`https://api.razorpay.com/v1${path}`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Basic ${btoa(`${this.keyId}:${this.keySecret}`)}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Razorpay API error: ${response.status} ${await response.text()}`);
+    }
+    return response.json();
+  }
+
+  async createOrder(order: OrderRequest): Promise<GatewayOrder> {
+    const created = await this.request("/orders", order);
+    return { id: created.id, amount: created.amount, currency: created.currency };
+  }
+
+  async capture(paymentId: string, amount: number, currency: string): Promise<void> {
+    await this.request(`/payments/${paymentId}/capture`, { amount, currency });
+  }
+
+  async refund(paymentId: string, amount: number): Promise<string> {
+    const refund = await this.request(`/payments/${paymentId}/refund`, { amount });
+    return refund.id;
+  }
+
+  verifyWebhook(body: string, signature: string | null) {
+    return verifyRazorpayStyle(this.webhookSecret, body, signature);
+  }
+}
+
+// Creates orders and signs webhooks locally instead of talking to a real
+// gateway, so the whole booking to payment flow works offline.
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = "fake";
+  readonly publicKey = null;
+
+  constructor(private readonly webhookSecret: string) {}
+
+  createOrder(order: OrderRequest): Promise<GatewayOrder> {
+    return Promise.resolve({ id: `order_fake_${crypto.randomUUID()}`, amount: order.amount, currency: order.currency });
+  }
+
+  capture(paymentId: string, amount: number, currency: string): Promise<void> {
+    console.log(`[fake payments] captured ${paymentId} for ${amount} ${currency}`);
+    return Promise.resolve();
+  }
+
+  refund(paymentId: string, amount: number): Promise<string> {
+    console.log(`[fake payments] refunded ${amount} of ${paymentId}`);
+    return Promise.resolve(`rfnd_fake_${crypto.randomUUID()}`);
+  }
+
+  verifyWebhook(body: string, signature: string | null) {
+    return verifyRazorpayStyle(this.webhookSecret, body, signature);
+  }
+
+  // The signed webhooks a real gateway would send for a checkout attempt:
+  // authorized then captured when it succeeds, a single failure otherwise
+  async simulateCheckout(orderId: string, amount: number, succeed: boolean): Promise<WebhookDelivery[]> {
+    const payment = { id: `pay_fake_${crypto.randomUUID()}`, order_id: orderId, amount };
+    const events = succeed
+      ? [
+        { event: "payment.authorized", payload: { payment: { entity: { ...payment, status: "authorized" } } } },
+        { event: "payment.captured", payload: { payment: { entity: { ...payment, status: "captured" } } } },
+      ]
+      : [
+        {
+          event: "payment.failed",
+          payload: { payment: { entity: { ...payment, status: "failed", error_description: "Declined in the sandbox" } } },
+        },
+      ];
+
+    return Promise.all(events.map(async (event) => {
+      const body = JSON.stringify(event);
+      return { body, signature: await hmacSha256Hex(this.webhookSecret, body) };
+    }));
+  }
+}
+
+// Picks the gateway from the environment:
+//   PAYMENT_GATEWAY=fake -> FakePaymentGateway, signing with FAKE_PAYMENT_WEBHOOK_SECRET
+//   otherwise            -> Razorpay, or null when the RAZORPAY_* secrets are not configured
+export function createPaymentGateway(env: { get(key: string): string | undefined }): PaymentGateway | null {
+  if (env.get("PAYMENT_GATEWAY") === "fake") {
+    return new FakePaymentGateway(env.get("FAKE_PAYMENT_WEBHOOK_SECRET") ?? "fake-webhook-secret");
+  }
+
+  const keyId = env.get("RAZORPAY_KEY_ID");
+  const keySecret = env.get("RAZORPAY_KEY_SECRET");
+  const webhookSecret = env.get("RAZORPAY_WEBHOOK_SECRET");
+  if (!keyId || !keySecret || !webhookSecret) return null;
+  return new RazorpayGateway(keyId, keySecret, webhookSecret);
+}
+
+export const toSmallestUnit = (amount: number) => Math.round(amount * 100);
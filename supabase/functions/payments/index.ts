@@ -0,0 +1,338 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { createPaymentGateway, FakePaymentGateway, toSmallestUnit, type PaymentGateway } from "./gateway.ts";
+
+// Payments for bookings.
+//   POST { action: "create-order", bookingId }          -> order for the browser checkout
+//   POST { action: "simulate", orderId, succeed }       -> fake gateway only, runs a sandbox checkout
+//   POST { action: "refund", refundId }                 -> admins only, pays out a pending refund
+//   POST /payments/webhook (signed by the gateway)      -> records the outcome
+// A booking only moves from pending to confirmed once a verified webhook
+// reports the payment as captured.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const CURRENCY = 'INR';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Bypasses RLS; only used after the caller or the webhook signature has been checked
+const adminClient = () => createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const userClient = (req: Request) => createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+  { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+);
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const gateway = createPaymentGateway(Deno.env);
+  if (!gateway) {
+    console.error('No payment gateway configured');
+    return jsonResponse({ error: 'Payments are not configured' }, 500);
+  }
+
+  try {
+    if (new URL(req.url).pathname.endsWith('/webhook')) {
+      const handled = await handleWebhook(gateway, adminClient(), await req.text(), req.headers.get('x-razorpay-signature'));
+      return handled ? jsonResponse({ ok: true }) : jsonResponse({ error: 'Invalid webhook signature' }, 401);
+    }
+
+    const client = userClient(req);
+    const { data: { user } } = await client.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Sign in to pay for a booking' }, 401);
+    }
+
+    const body = await req.json();
+    switch (body.action) {
+      case 'create-order':
+        return await createOrder(gateway, client, user.id, body.bookingId);
+      case 'simulate':
+        return await simulate(gateway, user.id, body.orderId, body.succeed !== false);
+      case 'refund':
+        return await issueRefund(gateway, client, user.id, body.refundId);
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error handling payment request:', error);
+    return jsonResponse({ error: 'Payment request failed' }, 500);
+  }
+});
+
+async function createOrder(gateway: PaymentGateway, client: SupabaseClient, userId: string, bookingId: string) {
+  // Read through the caller's client so RLS only finds their own bookings
+  const { data: booking } = await client.from('bookings').select('*').eq('id', bookingId).maybeSingle();
+  if (!booking) {
+    return jsonResponse({ error: 'Booking not found' }, 404);
+  }
+  if (booking.status !== 'pending') {
+    return jsonResponse({ error: `This booking is already ${booking.status}` }, 409);
+  }
+
+  // Charge the current catalogue price rather than whatever total the browser wrote
+  const totalAmount = await bookingTotal(client, booking);
+  if (totalAmount === null) {
+    return jsonResponse({ error: 'This package is no longer available' }, 409);
+  }
+
+  const admin = adminClient();
+
+  // One payable order per booking: an open one for the same amount is handed
+  // out again, one for an outdated amount is retired before a new one is raised
+  const { data: openOrders } = await admin
+    .from('payments')
+    .select('*')
+    .eq('booking_id', booking.id)
+    .in('status', ['created', 'authorized']);
+  if (openOrders?.some((payment) => payment.status === 'authorized')) {
+    return jsonResponse({ error: 'A payment for this booking is already being processed' }, 409);
+  }
+  const openOrder = openOrders?.[0];
+  if (openOrder && openOrder.amount === toSmallestUnit(totalAmount)) {
+    return jsonResponse({
+      gateway: openOrder.gateway,
+      keyId: gateway.publicKey,
+      orderId: openOrder.gateway_order_id,
+      amount: openOrder.amount,
+      currency: openOrder.currency,
+      bookingId: booking.id,
+    });
+  }
+  if (openOrder) {
+    await admin
+      .from('payments')
+      .update({ status: 'failed', failure_reason: 'Replaced by an order at the current price', updated_at: new Date().toISOString() })
+      .eq('id', openOrder.id)
+      .eq('status', 'created');
+  }
+
+  const order = await gateway.createOrder({
+    amount: toSmallestUnit(totalAmount),
+    currency: CURRENCY,
+    receipt: booking.id,
+    notes: { booking_id: booking.id },
+  });
+
+  const { error } = await admin.from('payments').insert({
+    booking_id: booking.id,
+    user_id: userId,
+    gateway: gateway.name,
+    gateway_order_id: order.id,
+    amount: order.amount,
+    currency: order.currency,
+    status: 'created',
+  });
+  // idx_payments_one_open_order: another request raised an order first
+  if (error?.code === '23505') {
+    return jsonResponse({ error: 'A payment for this booking is already in progress' }, 409);
+  }
+  if (error) throw error;
+
+  if (Number(booking.total_amount) !== totalAmount) {
+    await admin.from('bookings').update({ total_amount: totalAmount }).eq('id', booking.id);
+  }
+
+  return jsonResponse({
+    gateway: gateway.name,
+    keyId: gateway.publicKey,
+    orderId: order.id,
+    amount: order.amount,
+    currency: order.currency,
+    bookingId: booking.id,
+  });
+}
+
+interface PricedBooking {
+  package_id: string | null;
+  tour_package_id: string | null;
+  number_of_people: number;
+}
+
+// Catalogue price times party size, in rupees; null when the package is gone
+async function bookingTotal(client: SupabaseClient, booking: PricedBooking) {
+  const { data: item } = booking.package_id
+    ? await client.from('packages').select('price').eq('id', booking.package_id).maybeSingle()
+    : await client.from('tour_packages').select('price').eq('id', booking.tour_package_id).maybeSingle();
+  if (!item) return null;
+  return Math.round(Number(item.price) * booking.number_of_people * 100) / 100;
+}
+
+async function simulate(gateway: PaymentGateway, userId: string, orderId: string, succeed: boolean) {
+  if (!(gateway instanceof FakePaymentGateway)) {
+    return jsonResponse({ error: 'Sandbox payments are only available with the fake gateway' }, 400);
+  }
+
+  const admin = adminClient();
+  const { data: payment } = await admin.from('payments').select('*').eq('gateway_order_id', orderId).maybeSingle();
+  if (!payment || payment.user_id !== userId) {
+    return jsonResponse({ error: 'Payment not found' }, 404);
+  }
+
+  // Deliver the signed events through the same path as real webhooks
+  for (const delivery of await gateway.simulateCheckout(orderId, payment.amount, succeed)) {
+    await handleWebhook(gateway, admin, delivery.body, delivery.signature);
+  }
+
+  const { data: updated } = await admin.from('payments').select('status').eq('id', payment.id).single();
+  return jsonResponse({ status: updated?.status });
+}
+
+async function issueRefund(gateway: PaymentGateway, client: SupabaseClient, userId: string, refundId: string) {
+  const { data: isAdmin } = await client.rpc('is_admin', { user_id: userId });
+  if (!isAdmin) {
+    return jsonResponse({ error: 'Only admins can issue refunds' }, 403);
+  }
+
+  const admin = adminClient();
+  // Claimed before the gateway is called, so two clicks cannot both pay it out
+  const { data: refund } = await admin
+    .from('refunds')
+    .update({ status: 'processing', updated_at: new Date().toISOString() })
+    .eq('id', refundId)
+    .in('status', ['pending', 'failed'])
+    .select('*, payments(gateway_payment_id)')
+    .maybeSingle();
+  if (!refund) {
+    const { data: existing } = await admin.from('refunds').select('status').eq('id', refundId).maybeSingle();
+    if (!existing) {
+      return jsonResponse({ error: 'Refund not found' }, 404);
+    }
+    return jsonResponse({
+      error: existing.status === 'processing' ? 'This refund is already being issued' : 'This refund has already been issued',
+    }, 409);
+  }
+
+  try {
+    const gatewayRefundId = await gateway.refund(refund.payments.gateway_payment_id, refund.amount);
+    await admin.from('refunds').update({
+      status: 'processed',
+      gateway_refund_id: gatewayRefundId,
+      processed_by: userId,
+      processed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    }).eq('id', refund.id);
+    return jsonResponse({ status: 'processed' });
+  } catch (error) {
+    console.error(`Error refunding ${refund.id}:`, error);
+    await admin.from('refunds').update({ status: 'failed', updated_at: new Date().toISOString() }).eq('id', refund.id);
+    return jsonResponse({ error: 'The gateway rejected the refund' }, 502);
+  }
+}
+
+// Returns false when the signature does not verify. Unknown orders and
+// repeated events are acknowledged so the gateway stops retrying them.
+async function handleWebhook(gateway: PaymentGateway, admin: SupabaseClient, body: string, signature: string | null) {
+  const event = await gateway.verifyWebhook(body, signature);
+  if (!event) return false;
+
+  const { data: payment } = await admin.from('payments').select('*').eq('gateway_order_id', event.orderId).maybeSingle();
+  if (!payment) {
+    console.error(`Webhook for unknown order ${event.orderId}`);
+    return true;
+  }
+  if (event.amount !== payment.amount) {
+    console.error(`Webhook amount ${event.amount} does not match order ${event.orderId} (${payment.amount})`);
+    return true;
+  }
+  if (payment.status === 'captured') return true;
+
+  const updatePayment = (fields: Record<string, unknown>) => admin
+    .from('payments')
+    .update({ ...fields, gateway_payment_id: event.paymentId, updated_at: new Date().toISOString() })
+    .eq('id', payment.id);
+
+  const refundInFull = (reason: string) => admin.from('refunds').insert({
+    booking_id: payment.booking_id,
+    payment_id: payment.id,
+    user_id: payment.user_id,
+    amount: payment.amount,
+    refund_percent: 100,
+    reason,
+  });
+
+  switch (event.type) {
+    case 'authorized':
+      // A failed or replaced order is not charged; the gateway releases
+      // authorisations that are never captured
+      if (payment.status === 'failed') {
+        console.error(`Not capturing ${event.orderId}, which had already failed or been replaced`);
+        break;
+      }
+      await updatePayment({ status: 'authorized' });
+      await gateway.capture(event.paymentId, payment.amount, payment.currency);
+      break;
+
+    case 'captured': {
+      const wasReplaced = payment.status === 'failed';
+      await updatePayment({ status: 'captured' });
+
+      // Money taken on an order we had given up on never confirms the booking
+      if (wasReplaced) {
+        console.error(`Captured ${event.orderId}, which had already failed or been replaced`);
+        await refundInFull('Paid on an order that had failed or been replaced');
+        break;
+      }
+
+      // The booking must still cost what was paid; changing it while the
+      // order was open would otherwise confirm a bigger trip at the old price
+      const { data: booking, error: bookingError } = await admin.from('bookings').select('*').eq('id', payment.booking_id).single();
+      if (bookingError) throw bookingError;
+      const totalAmount = await bookingTotal(admin, booking);
+      if (booking.status === 'pending' && (totalAmount === null || toSmallestUnit(totalAmount) !== payment.amount)) {
+        console.error(`Captured ${event.orderId} for ${payment.amount}, but booking ${payment.booking_id} now costs ${totalAmount}`);
+        await refundInFull('Booking no longer matched the amount paid');
+        break;
+      }
+
+      // Only the booking as it was priced above is confirmed
+      const { data: confirmed, error } = await admin
+        .from('bookings')
+        .update({ status: 'confirmed', updated_at: new Date().toISOString() })
+        .eq('id', booking.id)
+        .eq('status', 'pending')
+        .eq('number_of_people', booking.number_of_people)
+        .eq(booking.package_id ? 'package_id' : 'tour_package_id', booking.package_id ?? booking.tour_package_id)
+        .select('id');
+
+      // Usually the departure filled up between booking and paying, so the
+      // booking is called off and the whole payment queued for a refund
+      if (error) {
+        console.error(`Captured ${event.orderId} but could not confirm booking ${payment.booking_id}:`, error);
+        await admin
+          .from('bookings')
+          .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+          .eq('id', payment.booking_id)
+          .eq('status', 'pending');
+        await refundInFull('Could not be confirmed after payment');
+      } else if (!confirmed || confirmed.length === 0) {
+        // Cancelled or changed while the payment was in flight, or already
+        // paid by another order: the booking stays as it is and the money goes back
+        console.error(`Captured ${event.orderId} for booking ${payment.booking_id}, which was no longer pending as priced`);
+        await refundInFull('Booking was no longer pending, or had changed, when the payment arrived');
+      }
+      break;
+    }
+
+    case 'failed':
+      await updatePayment({ status: 'failed', failure_reason: event.reason });
+      break;
+  }
+
+  return true;
+}
@@ -0,0 +1,52 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { Webhook } from "https://esm.sh/standardwebhooks@1.0.0";
+import { createSmsSender, otpMessage } from "./sms.ts";
+
+// Supabase Auth "Send SMS" hook. Auth generates the one-time code for phone
+// sign-in and calls this function to deliver it, which lets us choose the SMS
+// gateway ourselves (see createSmsSender).
+
+interface SendSmsPayload {
+  user: { phone: string };
+  sms: { otp: string };
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: { http_code: 405, message: 'Method not allowed' } }, 405);
+  }
+
+  const payload = await req.text();
+
+  let hook: SendSmsPayload;
+  try {
+    // The secret is configured as "v1,whsec_<base64>"; the verifier wants only the base64 part
+    const secret = (Deno.env.get('SEND_SMS_HOOK_SECRET') ?? '').replace('v1,whsec_', '');
+    hook = new Webhook(secret).verify(payload, Object.fromEntries(req.headers)) as SendSmsPayload;
+  } catch (error) {
+    console.error('Rejected send-sms hook call:', error);
+    return jsonResponse({ error: { http_code: 401, message: 'Invalid hook signature' } }, 401);
+  }
+
+  const sender = createSmsSender(Deno.env);
+  if (!sender) {
+    console.error('No SMS provider configured');
+    return jsonResponse({ error: { http_code: 500, message: 'SMS login is not configured' } }, 500);
+  }
+
+  try {
+    // Auth stores numbers without the leading "+"
+    const to = hook.user.phone.startsWith('+') ? hook.user.phone : `+${hook.user.phone}`;
+    await sender.send(to, otpMessage(hook.sms.otp));
+    return jsonResponse({});
+  } catch (error) {
+    console.error(`Error sending SMS via ${sender.name}:`, error);
+    return jsonResponse({ error: { http_code: 500, message: 'Failed to send SMS' } }, 500);
+  }
+});
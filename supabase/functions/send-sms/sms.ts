@@ -0,0 +1,65 @@
+// Anything that can deliver a text message. The send-sms hook only talks to
+// this interface, so a fake sender can stand in for a real gateway locally.
+export interface SmsSender {
+  readonly name: string;
+  send(to: string, body: string): Promise<void>;
+}
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export class TwilioSmsSender implements SmsSender {
+  readonly name = "twilio";
+
+  constructor(
+    private readonly accountSid: string,
+    private readonly authToken: string,
+    private readonly from: string,
+    private readonly fetchImpl: FetchLike = fetch,
+  ) {}
+
+  async send(to: string, body: string): Promise<void> {
+    const url = `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`;
+
+    const response = await this.fetchImpl(url, {
+      method: "POST",
+      headers: {
+        "Authorization": `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({ To: to, From: this.from, Body: body }).toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Twilio API error: ${response.status} ${await response.text()}`);
+    }
+  }
+}
+
+// Logs messages instead of sending them, so OTP codes can be read from the
+// function logs during local development.
+export class FakeSmsSender implements SmsSender {
+  readonly name = "fake";
+  readonly sent: { to: string; body: string }[] = [];
+
+  send(to: string, body: string): Promise<void> {
+    this.sent.push({ to, body });
+    console.log(`[fake sms] to ${to}: ${body}`);
+    return Promise.resolve();
+  }
+}
+
+// Picks the sender from the environment:
+//   SMS_PROVIDER=fake  -> FakeSmsSender
+//   otherwise          -> Twilio, or null when the TWILIO_* secrets are not configured
+export function createSmsSender(env: { get(key: string): string | undefined }): SmsSender | null {
+  if (env.get("SMS_PROVIDER") === "fake") return new FakeSmsSender();
+
+  const accountSid = env.get("TWILIO_ACCOUNT_SID");
+  const authToken = env.get("TWILIO_AUTH_TOKEN");
+  const from = env.get("TWILIO_FROM_NUMBER");
+  if (!accountSid || !authToken || !from) return null;
+  return new TwilioSmsSender(accountSid, authToken, from);
+}
+
+export const otpMessage = (otp: string) =>
+  `${otp} is your KonkanBliss login code. It expires in 5 minutes. Do not share it with anyone.`;
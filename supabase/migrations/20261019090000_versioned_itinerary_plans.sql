@@ -0,0 +1,37 @@
+/*
+  # Versioned itinerary plans
+
+  1. Changes
+    - `itineraries.generated_plan` becomes `jsonb` instead of `text`
+    - New `itineraries.plan_version` column recording the itinerary schema version
+
+  2. Data migration
+    - Existing plans that are valid JSON are kept as-is and marked version 1
+    - Free-text plans are wrapped as `{ "legacyText": ... }`
+    - The app upgrades version 1 plans on read (see `migrateItinerary`)
+*/
+
+CREATE OR REPLACE FUNCTION try_parse_jsonb(value text)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  RETURN value::jsonb;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$;
+
+ALTER TABLE itineraries
+  ALTER COLUMN generated_plan TYPE jsonb
+  USING COALESCE(try_parse_jsonb(generated_plan), jsonb_build_object('legacyText', generated_plan));
+
+ALTER TABLE itineraries
+  ADD COLUMN IF NOT EXISTS plan_version integer NOT NULL DEFAULT 1;
+
+UPDATE itineraries
+SET plan_version = (generated_plan->>'version')::integer
+WHERE jsonb_typeof(generated_plan->'version') = 'number';
+
+DROP FUNCTION try_parse_jsonb(text);
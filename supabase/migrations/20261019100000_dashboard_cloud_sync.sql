@@ -0,0 +1,90 @@
+/*
+  # Cloud sync for the dashboard
+
+  1. New Tables
+    - `experiences` - travel experiences shared from the dashboard
+
+  2. Changes to `itineraries`
+    - `status` (draft / active / completed) shown on dashboard cards
+    - `updated_at` and `revision` for optimistic concurrency
+    - `legacy_id` remembering the localStorage id of imported items
+
+  3. Sync
+    - `revision` is bumped by a trigger on every update; clients update with
+      `revision = <last seen>` and merge when another device got there first
+    - `(user_id, legacy_id)` is unique so the one-time localStorage import can
+      be retried safely
+    - Both tables are added to the realtime publication
+
+  4. Security
+    - Enable RLS on `experiences`; users manage only their own rows
+*/
+
+CREATE TABLE IF NOT EXISTS experiences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  title text NOT NULL,
+  location text NOT NULL,
+  experience_date date NOT NULL DEFAULT CURRENT_DATE,
+  rating integer NOT NULL DEFAULT 5 CHECK (rating >= 1 AND rating <= 5),
+  photos text[] DEFAULT '{}',
+  description text DEFAULT '',
+  tags text[] DEFAULT '{}',
+  legacy_id text,
+  revision integer NOT NULL DEFAULT 1,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT experiences_user_legacy_unique UNIQUE (user_id, legacy_id)
+);
+
+ALTER TABLE experiences
+ADD CONSTRAINT experiences_user_id_fkey FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE;
+
+ALTER TABLE itineraries
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'active' CHECK (status IN ('draft', 'active', 'completed')),
+  ADD COLUMN IF NOT EXISTS legacy_id text,
+  ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+ALTER TABLE itineraries
+ADD CONSTRAINT itineraries_user_legacy_unique UNIQUE (user_id, legacy_id);
+
+-- Every update bumps the revision so concurrent edits can be detected
+CREATE OR REPLACE FUNCTION bump_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.revision := OLD.revision + 1;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER experiences_bump_revision
+  BEFORE UPDATE ON experiences
+  FOR EACH ROW EXECUTE FUNCTION bump_revision();
+
+CREATE TRIGGER itineraries_bump_revision
+  BEFORE UPDATE ON itineraries
+  FOR EACH ROW EXECUTE FUNCTION bump_revision();
+
+ALTER TABLE experiences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own experiences"
+  ON experiences
+  FOR SELECT
+  TO public
+  USING (uid() = user_id);
+
+CREATE POLICY "Users can manage own experiences"
+  ON experiences
+  FOR ALL
+  TO public
+  USING (uid() = user_id)
+  WITH CHECK (uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_experiences_user_id ON experiences(user_id);
+CREATE INDEX IF NOT EXISTS idx_itineraries_user_id ON itineraries(user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE experiences, itineraries;
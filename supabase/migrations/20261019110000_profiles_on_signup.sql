@@ -0,0 +1,71 @@
+/*
+  # Create profiles on sign-up
+
+  1. Tables
+    - `profiles` - one row per auth user holding `full_name` and `phone`
+      (created here if the project does not have it yet)
+
+  2. Triggers
+    - `on_auth_user_created` inserts the profile as soon as the auth user
+      exists, copying `full_name` and `phone` from the sign-up metadata. This
+      also works when email confirmation is on and the client has no session
+      to write the row itself.
+
+  3. Security
+    - Enable RLS on `profiles`; users can read and update only their own row
+*/
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  full_name text,
+  phone text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own profile" ON profiles;
+CREATE POLICY "Users can view own profile"
+  ON profiles
+  FOR SELECT
+  TO public
+  USING (uid() = id);
+
+DROP POLICY IF EXISTS "Users can update own profile" ON profiles;
+CREATE POLICY "Users can update own profile"
+  ON profiles
+  FOR UPDATE
+  TO public
+  USING (uid() = id);
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id, full_name, phone)
+  VALUES (
+    NEW.id,
+    NULLIF(NEW.raw_user_meta_data->>'full_name', ''),
+    COALESCE(NULLIF(NEW.raw_user_meta_data->>'phone', ''), NEW.phone)
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION handle_new_user() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- Backfill accounts created before the trigger existed
+INSERT INTO profiles (id, full_name, phone)
+SELECT id, NULLIF(raw_user_meta_data->>'full_name', ''), phone
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,131 @@
+/*
+  # Admin console
+
+  1. New Tables
+    - `audit_log` - one row per insert, update or delete made to the catalogue
+      and bookings, recording who made it, the row before and after, and
+      which fields changed
+
+  2. Triggers
+    - `record_audit()` runs after every write to `packages`, `tour_packages`,
+      `destinations`, `package_images` and `bookings`. It runs in the
+      database, so edits made outside the admin console are recorded too.
+
+  3. Security
+    - Admins (`is_admin(uid())`) can manage `packages` and `tour_packages`
+    - Admins can view every profile, so the console can show who booked and
+      who made a change
+    - Enable RLS on `audit_log`; only admins can read it and nobody can write
+      to it directly
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid,
+  table_name text NOT NULL,
+  record_id uuid,
+  action text NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data jsonb,
+  new_data jsonb,
+  changed_fields text[],
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view audit log"
+  ON audit_log
+  FOR SELECT
+  TO public
+  USING (is_admin(uid()));
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_table_record ON audit_log(table_name, record_id);
+
+CREATE OR REPLACE FUNCTION record_audit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row jsonb := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END;
+  new_row jsonb := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END;
+  changed text[];
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(key ORDER BY key) INTO changed
+    FROM jsonb_each(new_row) AS n(key, value)
+    WHERE key <> 'updated_at' AND n.value IS DISTINCT FROM old_row->key;
+
+    -- Nothing but the timestamp changed
+    IF changed IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (actor_id, table_name, record_id, action, old_data, new_data, changed_fields)
+  VALUES (
+    uid(),
+    TG_TABLE_NAME,
+    COALESCE(new_row->>'id', old_row->>'id')::uuid,
+    TG_OP,
+    old_row,
+    new_row,
+    changed
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_audit() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS audit_packages ON packages;
+CREATE TRIGGER audit_packages
+  AFTER INSERT OR UPDATE OR DELETE ON packages
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+DROP TRIGGER IF EXISTS audit_tour_packages ON tour_packages;
+CREATE TRIGGER audit_tour_packages
+  AFTER INSERT OR UPDATE OR DELETE ON tour_packages
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+DROP TRIGGER IF EXISTS audit_destinations ON destinations;
+CREATE TRIGGER audit_destinations
+  AFTER INSERT OR UPDATE OR DELETE ON destinations
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+DROP TRIGGER IF EXISTS audit_package_images ON package_images;
+CREATE TRIGGER audit_package_images
+  AFTER INSERT OR UPDATE OR DELETE ON package_images
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+DROP TRIGGER IF EXISTS audit_bookings ON bookings;
+CREATE TRIGGER audit_bookings
+  AFTER INSERT OR UPDATE OR DELETE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+-- Catalogue write access for admins
+DROP POLICY IF EXISTS "Admins can manage packages" ON packages;
+CREATE POLICY "Admins can manage packages"
+  ON packages
+  FOR ALL
+  TO public
+  USING (is_admin(uid()))
+  WITH CHECK (is_admin(uid()));
+
+DROP POLICY IF EXISTS "Admins can manage tour packages" ON tour_packages;
+CREATE POLICY "Admins can manage tour packages"
+  ON tour_packages
+  FOR ALL
+  TO public
+  USING (is_admin(uid()))
+  WITH CHECK (is_admin(uid()));
+
+DROP POLICY IF EXISTS "Admins can view all profiles" ON profiles;
+CREATE POLICY "Admins can view all profiles"
+  ON profiles
+  FOR SELECT
+  TO public
+  USING (is_admin(uid()));
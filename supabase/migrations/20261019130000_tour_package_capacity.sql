@@ -0,0 +1,107 @@
+/*
+  # Tour package capacity
+
+  1. Functions
+    - `tour_package_availability(tour_package_id, from_date, to_date)` -
+      seats taken by confirmed bookings and seats left on each date in the
+      range that has any. Dates not returned are fully open. Runs as the
+      definer so customers can see availability without seeing each other's
+      bookings.
+
+  2. Triggers
+    - `enforce_tour_package_capacity()` runs before a tour package booking is
+      created or changed while pending or confirmed. It locks the tour
+      package row, so concurrent bookings for the same package are checked
+      one at a time, and rejects the write if the party no longer fits into
+      `max_participants` minus the seats already confirmed for that date.
+      Packages without `max_participants` are unlimited.
+
+  3. Indexes
+    - `bookings(tour_package_id, booking_date)` for the capacity lookups
+*/
+
+CREATE INDEX IF NOT EXISTS idx_bookings_tour_package_date ON bookings(tour_package_id, booking_date);
+
+CREATE OR REPLACE FUNCTION tour_package_availability(
+  tour_package_id uuid,
+  from_date date,
+  to_date date
+)
+RETURNS TABLE (booking_date date, seats_taken integer, seats_left integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    b.booking_date,
+    SUM(b.number_of_people)::integer AS seats_taken,
+    GREATEST(tp.max_participants - SUM(b.number_of_people), 0)::integer AS seats_left
+  FROM bookings b
+  JOIN tour_packages tp ON tp.id = b.tour_package_id
+  WHERE b.tour_package_id = tour_package_availability.tour_package_id
+    AND b.status = 'confirmed'
+    AND b.booking_date BETWEEN from_date AND to_date
+  GROUP BY b.booking_date, tp.max_participants
+  ORDER BY b.booking_date;
+$$;
+
+REVOKE EXECUTE ON FUNCTION tour_package_availability(uuid, date, date) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION tour_package_availability(uuid, date, date) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_tour_package_capacity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  capacity integer;
+  taken integer;
+BEGIN
+  IF NEW.tour_package_id IS NULL OR NEW.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Cancelling, completing or editing the notes never needs a new seat
+  IF TG_OP = 'UPDATE'
+    AND OLD.status IN ('pending', 'confirmed')
+    AND NEW.tour_package_id = OLD.tour_package_id
+    AND NEW.booking_date = OLD.booking_date
+    AND NEW.number_of_people <= OLD.number_of_people
+    AND NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- The row lock makes concurrent bookings for this package wait their turn
+  SELECT max_participants INTO capacity
+  FROM tour_packages
+  WHERE id = NEW.tour_package_id
+  FOR UPDATE;
+
+  IF capacity IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(number_of_people), 0) INTO taken
+  FROM bookings
+  WHERE tour_package_id = NEW.tour_package_id
+    AND booking_date = NEW.booking_date
+    AND status = 'confirmed'
+    AND id <> NEW.id;
+
+  IF taken + NEW.number_of_people > capacity THEN
+    RAISE EXCEPTION 'Only % of % seats left on %', GREATEST(capacity - taken, 0), capacity, NEW.booking_date
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION enforce_tour_package_capacity() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS enforce_tour_package_capacity ON bookings;
+CREATE TRIGGER enforce_tour_package_capacity
+  BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION enforce_tour_package_capacity();
@@ -0,0 +1,102 @@
+/*
+  # Booking payments
+
+  1. New Tables
+    - `payments` - one row per gateway order raised for a booking, moving
+      from `created` through `authorized` to `captured` (or `failed`) as the
+      gateway's webhooks arrive. Amounts are in paise. A booking has at most
+      one `created` order at a time.
+
+  2. Triggers
+    - `protect_booking_status()` stops customers from setting their own
+      booking status. They can create pending bookings and cancel them; only
+      admins and the payments function (service role) can confirm or
+      complete one. While an order is open (`created` or `authorized`) they
+      cannot change the party size, package or amount it was raised for.
+    - `payments` writes are recorded in the audit trail
+
+  3. Security
+    - Enable RLS on `payments`; customers can read their own, admins can read
+      all. Only the payments function writes to it.
+*/
+
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  gateway text NOT NULL,
+  gateway_order_id text NOT NULL UNIQUE,
+  gateway_payment_id text,
+  amount integer NOT NULL CHECK (amount > 0),
+  currency text NOT NULL DEFAULT 'INR',
+  status text NOT NULL DEFAULT 'created' CHECK (status IN ('created', 'authorized', 'captured', 'failed')),
+  failure_reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own payments"
+  ON payments
+  FOR SELECT
+  TO public
+  USING (uid() = user_id);
+
+CREATE POLICY "Admins can view all payments"
+  ON payments
+  FOR SELECT
+  TO public
+  USING (is_admin(uid()));
+
+CREATE INDEX IF NOT EXISTS idx_payments_booking_id ON payments(booking_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_one_open_order
+  ON payments(booking_id) WHERE status = 'created';
+
+CREATE OR REPLACE FUNCTION protect_booking_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- No user means the service role, i.e. the payments function
+  IF uid() IS NULL OR is_admin(uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status IS DISTINCT FROM 'pending' THEN
+    RAISE EXCEPTION 'New bookings must be pending' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'cancelled' THEN
+    RAISE EXCEPTION 'Bookings are confirmed once payment is received' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- An open order was priced for this party and package
+  IF TG_OP = 'UPDATE'
+    AND (NEW.number_of_people IS DISTINCT FROM OLD.number_of_people
+      OR NEW.total_amount IS DISTINCT FROM OLD.total_amount
+      OR NEW.package_id IS DISTINCT FROM OLD.package_id
+      OR NEW.tour_package_id IS DISTINCT FROM OLD.tour_package_id)
+    AND EXISTS (SELECT 1 FROM payments WHERE booking_id = OLD.id AND status IN ('created', 'authorized')) THEN
+    RAISE EXCEPTION 'This booking has a payment in progress and cannot be changed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION protect_booking_status() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS protect_booking_status ON bookings;
+CREATE TRIGGER protect_booking_status
+  BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION protect_booking_status();
+
+DROP TRIGGER IF EXISTS audit_payments ON payments;
+CREATE TRIGGER audit_payments
+  AFTER INSERT OR UPDATE OR DELETE ON payments
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
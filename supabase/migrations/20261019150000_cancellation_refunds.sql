@@ -0,0 +1,269 @@
+/*
+  # Cancellations and refunds
+
+  1. New Tables
+    - `cancellation_policies` - how much of a booking is refunded depending on
+      how many days before the travel date it is cancelled:
+        * `full_refund_min_days` or more days before -> full refund
+        * `partial_refund_min_days` or more days before -> `partial_refund_percent`
+        * anything later -> no refund
+      One policy can be marked `is_default`; it applies to every package that
+      does not pick its own.
+    - `refunds` - money owed back to a customer for a cancelled booking,
+      one per captured payment. `pending` until an admin issues it through
+      the payments function, which claims it as `processing` while the
+      gateway is called. Amounts are in paise, like `payments`.
+
+  2. Changes
+    - `packages.cancellation_policy_id` and `tour_packages.cancellation_policy_id`
+
+  3. Functions
+    - `booking_cancellation_quote(booking_id)` - the refund the caller would
+      get for cancelling now, so the app can show it before they confirm
+    - `cancel_booking(booking_id, reason, full_refund)` - cancels the booking
+      and records the refund the policy allows in one transaction. Only
+      admins may pass `full_refund`, for cancellations on our side.
+    - `protect_booking_status()` now only lets customers cancel through
+      `cancel_booking`, so the policy cannot be skipped by updating the
+      booking directly. Once a booking has left `pending`, or while it has an
+      open payment order, customers can no longer change its date, party
+      size, package or amount either.
+
+  4. Security
+    - Enable RLS on both tables. Anyone can read the policies and admins can
+      manage them. Customers can read their own refunds, admins all of them.
+*/
+
+CREATE TABLE IF NOT EXISTS cancellation_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  description text,
+  full_refund_min_days integer NOT NULL CHECK (full_refund_min_days >= 0),
+  partial_refund_min_days integer NOT NULL CHECK (partial_refund_min_days >= 0),
+  partial_refund_percent integer NOT NULL DEFAULT 0 CHECK (partial_refund_percent BETWEEN 0 AND 100),
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT cancellation_policies_tiers_check CHECK (partial_refund_min_days <= full_refund_min_days)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cancellation_policies_one_default
+  ON cancellation_policies(is_default) WHERE is_default;
+
+ALTER TABLE cancellation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view cancellation policies"
+  ON cancellation_policies
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Admins can manage cancellation policies"
+  ON cancellation_policies
+  FOR ALL
+  TO public
+  USING (is_admin(uid()))
+  WITH CHECK (is_admin(uid()));
+
+INSERT INTO cancellation_policies (title, description, full_refund_min_days, partial_refund_min_days, partial_refund_percent, is_default)
+VALUES
+  ('Standard', 'Full refund more than 7 days before travel, 50% from 2 to 7 days, none after that', 8, 2, 50, true),
+  ('Flexible', 'Full refund up to 2 days before travel, 50% the day before', 2, 1, 50, false),
+  ('Strict', 'Full refund more than 14 days before travel, 50% from 7 to 14 days, none after that', 15, 7, 50, false);
+
+ALTER TABLE packages ADD COLUMN IF NOT EXISTS cancellation_policy_id uuid REFERENCES cancellation_policies(id) ON DELETE SET NULL;
+ALTER TABLE tour_packages ADD COLUMN IF NOT EXISTS cancellation_policy_id uuid REFERENCES cancellation_policies(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  payment_id uuid NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  amount integer NOT NULL CHECK (amount > 0),
+  refund_percent integer NOT NULL CHECK (refund_percent BETWEEN 0 AND 100),
+  reason text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'processed', 'failed')),
+  gateway_refund_id text,
+  processed_by uuid,
+  processed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own refunds"
+  ON refunds
+  FOR SELECT
+  TO public
+  USING (uid() = user_id);
+
+CREATE POLICY "Admins can view all refunds"
+  ON refunds
+  FOR SELECT
+  TO public
+  USING (is_admin(uid()));
+
+CREATE INDEX IF NOT EXISTS idx_refunds_status ON refunds(status);
+CREATE INDEX IF NOT EXISTS idx_refunds_booking_id ON refunds(booking_id);
+
+DROP TRIGGER IF EXISTS audit_cancellation_policies ON cancellation_policies;
+CREATE TRIGGER audit_cancellation_policies
+  AFTER INSERT OR UPDATE OR DELETE ON cancellation_policies
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+DROP TRIGGER IF EXISTS audit_refunds ON refunds;
+CREATE TRIGGER audit_refunds
+  AFTER INSERT OR UPDATE OR DELETE ON refunds
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+CREATE OR REPLACE FUNCTION booking_cancellation_quote(booking_id uuid)
+RETURNS TABLE (policy_title text, days_before integer, refund_percent integer, paid_amount integer, refund_amount integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  booking bookings;
+  policy cancellation_policies;
+BEGIN
+  SELECT * INTO booking FROM bookings b WHERE b.id = booking_cancellation_quote.booking_id;
+  IF NOT FOUND OR (booking.user_id IS DISTINCT FROM uid() AND NOT is_admin(uid())) THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT cp.* INTO policy
+  FROM cancellation_policies cp
+  WHERE cp.id = COALESCE(
+    (SELECT p.cancellation_policy_id FROM packages p WHERE p.id = booking.package_id),
+    (SELECT tp.cancellation_policy_id FROM tour_packages tp WHERE tp.id = booking.tour_package_id)
+  );
+  IF NOT FOUND THEN
+    SELECT cp.* INTO policy FROM cancellation_policies cp WHERE cp.is_default;
+  END IF;
+
+  -- Travel dates are local to the Konkan
+  days_before := booking.booking_date - (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  policy_title := policy.title;
+
+  -- With no policy configured at all, err on the customer's side
+  refund_percent := CASE
+    WHEN policy.id IS NULL THEN 100
+    WHEN days_before >= policy.full_refund_min_days THEN 100
+    WHEN days_before >= policy.partial_refund_min_days THEN policy.partial_refund_percent
+    ELSE 0
+  END;
+
+  -- Each payment is refunded on its own; ones already refunded in full
+  -- (such as a second payment for the same booking) are left out
+  SELECT
+    COALESCE(SUM(pay.amount), 0)::integer,
+    COALESCE(SUM(pay.amount * booking_cancellation_quote.refund_percent / 100), 0)::integer
+  INTO paid_amount, refund_amount
+  FROM payments pay
+  WHERE pay.booking_id = booking.id
+    AND pay.status = 'captured'
+    AND NOT EXISTS (SELECT 1 FROM refunds r WHERE r.payment_id = pay.id);
+
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_booking(booking_id uuid, reason text DEFAULT NULL, full_refund boolean DEFAULT false)
+RETURNS TABLE (refund_percent integer, refund_amount integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  booking bookings;
+  quote record;
+  caller_is_admin boolean := is_admin(uid());
+BEGIN
+  -- Locked so two cancellations of the same booking cannot both refund it
+  SELECT * INTO booking FROM bookings b WHERE b.id = cancel_booking.booking_id FOR UPDATE;
+  IF NOT FOUND OR (booking.user_id IS DISTINCT FROM uid() AND NOT caller_is_admin) THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This booking is already %', booking.status USING ERRCODE = 'check_violation';
+  END IF;
+  IF full_refund AND NOT caller_is_admin THEN
+    RAISE EXCEPTION 'Only admins can grant a full refund' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO quote FROM booking_cancellation_quote(booking.id);
+  IF quote.days_before < 0 AND NOT caller_is_admin THEN
+    RAISE EXCEPTION 'Bookings cannot be cancelled after the travel date' USING ERRCODE = 'check_violation';
+  END IF;
+
+  refund_percent := CASE WHEN full_refund THEN 100 ELSE quote.refund_percent END;
+
+  PERFORM set_config('app.cancelling_booking', booking.id::text, true);
+  UPDATE bookings SET status = 'cancelled', updated_at = now() WHERE id = booking.id;
+
+  -- One refund per captured payment, so none is ever more than its payment
+  WITH queued AS (
+    INSERT INTO refunds (booking_id, payment_id, user_id, amount, refund_percent, reason)
+    SELECT booking.id, pay.id, booking.user_id, pay.amount * cancel_booking.refund_percent / 100, cancel_booking.refund_percent, cancel_booking.reason
+    FROM payments pay
+    WHERE pay.booking_id = booking.id
+      AND pay.status = 'captured'
+      AND pay.amount * cancel_booking.refund_percent / 100 > 0
+      AND NOT EXISTS (SELECT 1 FROM refunds r WHERE r.payment_id = pay.id)
+    RETURNING amount
+  )
+  SELECT COALESCE(SUM(queued.amount), 0)::integer INTO refund_amount FROM queued;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION booking_cancellation_quote(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION cancel_booking(uuid, text, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION booking_cancellation_quote(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_booking(uuid, text, boolean) TO authenticated;
+
+CREATE OR REPLACE FUNCTION protect_booking_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- No user means the service role, i.e. the payments function
+  IF uid() IS NULL OR is_admin(uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status IS DISTINCT FROM 'pending' THEN
+    RAISE EXCEPTION 'New bookings must be pending' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- cancel_booking() marks the one booking it is allowed to change
+  IF TG_OP = 'UPDATE'
+    AND NEW.status IS DISTINCT FROM OLD.status
+    AND current_setting('app.cancelling_booking', true) IS DISTINCT FROM OLD.id::text THEN
+    RAISE EXCEPTION 'Use cancel_booking() to cancel a booking; confirmation follows payment'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- What was paid for is fixed once the booking leaves pending or an order is
+  -- raised for it: a later date would earn a bigger refund, a bigger party
+  -- would travel unpaid
+  IF TG_OP = 'UPDATE'
+    AND (OLD.status IS DISTINCT FROM 'pending'
+      OR EXISTS (SELECT 1 FROM payments WHERE booking_id = OLD.id AND status IN ('created', 'authorized')))
+    AND (NEW.booking_date IS DISTINCT FROM OLD.booking_date
+      OR NEW.number_of_people IS DISTINCT FROM OLD.number_of_people
+      OR NEW.total_amount IS DISTINCT FROM OLD.total_amount
+      OR NEW.package_id IS DISTINCT FROM OLD.package_id
+      OR NEW.tour_package_id IS DISTINCT FROM OLD.tour_package_id) THEN
+    RAISE EXCEPTION 'Paid or paying bookings cannot be changed; cancel and book again'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,109 @@
+/*
+  # Booking invoices
+
+  1. New Tables
+    - `invoices` - the tax invoice for a confirmed booking, with the GST
+      components worked out once when it is issued so a downloaded invoice
+      never changes. Package prices are GST inclusive, so the taxable value is
+      backed out of the booking total. Customers are unregistered, which
+      makes the place of supply our own state (Maharashtra), so the tax is
+      split into CGST and SGST.
+
+  2. Triggers
+    - `issue_booking_invoice()` issues the invoice (`issue_invoice()`) when a
+      booking becomes confirmed, numbered `KB/<financial year>/<serial>`
+    - Existing confirmed and completed bookings are invoiced by this migration
+
+  3. Security
+    - Enable RLS on `invoices`; customers can read their own, admins can read
+      all. Only the trigger writes to it: `issue_invoice()` and the trigger
+      function cannot be called by anyone else, so invoice totals and serials
+      cannot be forged or burned through the API.
+*/
+
+CREATE SEQUENCE IF NOT EXISTS invoice_number_seq;
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  invoice_number text NOT NULL UNIQUE,
+  -- Tour operator services
+  sac_code text NOT NULL DEFAULT '998552',
+  place_of_supply text NOT NULL DEFAULT 'Maharashtra (27)',
+  gst_rate numeric(5,2) NOT NULL,
+  taxable_amount numeric(10,2) NOT NULL,
+  cgst_amount numeric(10,2) NOT NULL,
+  sgst_amount numeric(10,2) NOT NULL,
+  total_amount numeric(10,2) NOT NULL,
+  issued_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own invoices"
+  ON invoices
+  FOR SELECT
+  TO public
+  USING (uid() = user_id);
+
+CREATE POLICY "Admins can view all invoices"
+  ON invoices
+  FOR SELECT
+  TO public
+  USING (is_admin(uid()));
+
+CREATE OR REPLACE FUNCTION issue_invoice(booking bookings)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  gst_rate numeric := 5.00;
+  issued date := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  -- Indian financial years run April to March
+  fy_start integer := EXTRACT(year FROM issued)::integer - CASE WHEN EXTRACT(month FROM issued) < 4 THEN 1 ELSE 0 END;
+  total numeric := COALESCE(booking.total_amount, 0);
+  taxable numeric := round(total / (1 + gst_rate / 100), 2);
+  cgst numeric := round((total - taxable) / 2, 2);
+BEGIN
+  INSERT INTO invoices (booking_id, user_id, invoice_number, gst_rate, taxable_amount, cgst_amount, sgst_amount, total_amount)
+  VALUES (
+    booking.id,
+    booking.user_id,
+    format('KB/%s-%s/%s', fy_start, lpad(((fy_start + 1) % 100)::text, 2, '0'), lpad(nextval('invoice_number_seq')::text, 6, '0')),
+    gst_rate,
+    taxable,
+    cgst,
+    total - taxable - cgst,
+    total
+  )
+  ON CONFLICT (booking_id) DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_booking_invoice()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM issue_invoice(NEW);
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION issue_invoice(bookings) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION issue_booking_invoice() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS issue_booking_invoice ON bookings;
+CREATE TRIGGER issue_booking_invoice
+  AFTER INSERT OR UPDATE OF status ON bookings
+  FOR EACH ROW
+  WHEN (NEW.status = 'confirmed')
+  EXECUTE FUNCTION issue_booking_invoice();
+
+-- Invoice bookings confirmed before invoices existed
+SELECT issue_invoice(b) FROM bookings b WHERE b.status IN ('confirmed', 'completed') ORDER BY b.created_at;
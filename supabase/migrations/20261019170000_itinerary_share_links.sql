@@ -0,0 +1,94 @@
+/*
+  # Shareable itinerary links
+
+  1. Changes to `itineraries`
+    - `share_slug` - random, unguessable slug for the public `/trip/:slug`
+      page; null while the itinerary is private
+    - `shared_at` - when the current link was created
+
+  2. Functions
+    - `share_itinerary(itinerary_id)` returns the itinerary's slug, creating
+      one if it has none. Owner only.
+    - `revoke_itinerary_share(itinerary_id)` clears the slug so the old link
+      stops working. Sharing again creates a new slug. Owner only.
+    - `shared_itinerary(slug)` returns the public fields of a shared
+      itinerary. Anyone may call it, signed in or not; it never returns the
+      owner or any itinerary that isn't shared, so `itineraries` itself stays
+      private under its existing RLS policies.
+*/
+
+ALTER TABLE itineraries
+  ADD COLUMN IF NOT EXISTS share_slug text UNIQUE,
+  ADD COLUMN IF NOT EXISTS shared_at timestamptz;
+
+CREATE OR REPLACE FUNCTION share_itinerary(itinerary_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  slug text;
+BEGIN
+  -- 122 random bits from gen_random_uuid(), without the dashes
+  UPDATE itineraries i
+  SET share_slug = COALESCE(i.share_slug, replace(gen_random_uuid()::text, '-', '')),
+      shared_at = COALESCE(i.shared_at, now())
+  WHERE i.id = share_itinerary.itinerary_id
+    AND i.user_id = uid()
+  RETURNING i.share_slug INTO slug;
+
+  IF slug IS NULL THEN
+    RAISE EXCEPTION 'Itinerary not found';
+  END IF;
+
+  RETURN slug;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_itinerary_share(itinerary_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE itineraries i
+  SET share_slug = NULL,
+      shared_at = NULL
+  WHERE i.id = revoke_itinerary_share.itinerary_id
+    AND i.user_id = uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Itinerary not found';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION shared_itinerary(slug text)
+RETURNS TABLE (
+  title text,
+  duration text,
+  budget text,
+  group_type text,
+  interests text[],
+  generated_plan jsonb,
+  plan_version integer,
+  updated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.title, i.duration, i.budget, i.group_type, i.interests, i.generated_plan, i.plan_version, i.updated_at
+  FROM itineraries i
+  WHERE i.share_slug = shared_itinerary.slug;
+$$;
+
+REVOKE EXECUTE ON FUNCTION share_itinerary(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION revoke_itinerary_share(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION shared_itinerary(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION share_itinerary(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_itinerary_share(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION shared_itinerary(text) TO anon, authenticated;
@@ -0,0 +1,11 @@
+/*
+  # Itinerary start dates
+
+  1. Changes to `itineraries`
+    - `start_date` - the date of day 1, chosen when the trip is exported to a
+      calendar. Remembered so re-exports after editing the plan land on the
+      same dates. Null until the traveller picks one.
+*/
+
+ALTER TABLE itineraries
+  ADD COLUMN IF NOT EXISTS start_date date;
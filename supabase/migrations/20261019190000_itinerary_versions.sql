@@ -0,0 +1,105 @@
+/*
+  # Itinerary version history
+
+  1. New Tables
+    - `itinerary_versions` - an immutable snapshot of an itinerary after each
+      save: its title, status, trip preferences, plan and start date, with
+      who saved it and which fields changed
+
+  2. Triggers
+    - `record_itinerary_version()` runs after every insert and update of
+      `itineraries`. Updates that only touch sharing or bookkeeping columns
+      (`share_slug`, `shared_at`, `legacy_id`) are not versions.
+    - Restoring an old version is an ordinary update, so it becomes a new
+      version itself and can be undone the same way
+
+  3. Backfill
+    - Existing itineraries get their current state as their first version
+
+  4. Security
+    - Enable RLS on `itinerary_versions`; owners can read the history of their
+      own itineraries and nobody can write to it directly
+*/
+
+CREATE TABLE IF NOT EXISTS itinerary_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  itinerary_id uuid NOT NULL REFERENCES itineraries(id) ON DELETE CASCADE,
+  revision integer NOT NULL,
+  title text NOT NULL,
+  status text NOT NULL,
+  duration text NOT NULL,
+  budget text NOT NULL,
+  group_type text NOT NULL,
+  interests text[] NOT NULL DEFAULT '{}',
+  generated_plan jsonb NOT NULL,
+  plan_version integer NOT NULL,
+  start_date date,
+  changed_by uuid,
+  changed_fields text[],
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT itinerary_versions_revision_unique UNIQUE (itinerary_id, revision)
+);
+
+ALTER TABLE itinerary_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own itinerary versions"
+  ON itinerary_versions
+  FOR SELECT
+  TO public
+  USING (EXISTS (
+    SELECT 1 FROM itineraries
+    WHERE itineraries.id = itinerary_versions.itinerary_id
+      AND itineraries.user_id = uid()
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_itinerary_versions_itinerary ON itinerary_versions(itinerary_id, revision DESC);
+
+CREATE OR REPLACE FUNCTION record_itinerary_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed text[];
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(key ORDER BY key) INTO changed
+    FROM jsonb_each(to_jsonb(NEW)) AS n(key, value)
+    WHERE key IN ('title', 'status', 'duration', 'budget', 'group_type', 'interests', 'generated_plan', 'start_date')
+      AND n.value IS DISTINCT FROM to_jsonb(OLD)->key;
+
+    IF changed IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO itinerary_versions (
+    itinerary_id, revision, title, status, duration, budget, group_type, interests,
+    generated_plan, plan_version, start_date, changed_by, changed_fields
+  )
+  VALUES (
+    NEW.id, NEW.revision, NEW.title, NEW.status, NEW.duration, NEW.budget, NEW.group_type, NEW.interests,
+    NEW.generated_plan, NEW.plan_version, NEW.start_date, COALESCE(uid(), NEW.user_id), changed
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_itinerary_version() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS itineraries_record_version ON itineraries;
+CREATE TRIGGER itineraries_record_version
+  AFTER INSERT OR UPDATE ON itineraries
+  FOR EACH ROW EXECUTE FUNCTION record_itinerary_version();
+
+INSERT INTO itinerary_versions (
+  itinerary_id, revision, title, status, duration, budget, group_type, interests,
+  generated_plan, plan_version, start_date, changed_by, created_at
+)
+SELECT
+  id, revision, title, status, duration, budget, group_type, interests,
+  generated_plan, plan_version, start_date, user_id, COALESCE(updated_at, created_at)
+FROM itineraries
+ON CONFLICT (itinerary_id, revision) DO NOTHING;
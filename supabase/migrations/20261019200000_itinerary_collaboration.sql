@@ -0,0 +1,279 @@
+/*
+  # Collaborative itineraries
+
+  1. New Tables
+    - `itinerary_members` - people an owner invited to an itinerary, by email,
+      as a `viewer` or an `editor`. `user_id` is filled in once the invitee
+      signs in with that email (see `accept_itinerary_invites`), so people
+      without an account yet can be invited too.
+    - `itinerary_comments` - comments on an activity of an itinerary. They
+      point at the activity by name, so they stay with it when it is moved
+      to another day.
+
+  2. Functions
+    - `can_view_itinerary(itinerary_id)` / `can_edit_itinerary(itinerary_id)`
+      answer for the signed-in user, whether owner or accepted member;
+      policies use them so `itineraries` and `itinerary_members` don't query
+      each other under RLS. The versions taking any `user_id` are internal,
+      so nobody can probe who has access to whose itinerary.
+    - `accept_itinerary_invites()` links pending invites for the signed-in
+      user's email to their account, once that email is confirmed, and
+      returns how many were accepted
+    - `sign_itinerary_comment()` fills in the author's name on new comments
+
+  3. Security
+    - Members can view shared itineraries and their version history; editors
+      can update them too. Only owners can delete, share by link, or change
+      who owns the itinerary (enforced by `guard_itinerary_owner_fields`).
+    - Owners manage members; members can see each other and leave
+    - Anyone who can view an itinerary can comment on it; authors can delete
+      their own comments and owners can delete any
+
+  4. Realtime
+    - Members and comments are added to the realtime publication, so
+      collaborators see new comments and invites live. Itineraries already are.
+*/
+
+CREATE TABLE IF NOT EXISTS itinerary_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  itinerary_id uuid NOT NULL REFERENCES itineraries(id) ON DELETE CASCADE,
+  email text NOT NULL CHECK (email = lower(email)),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'editor')),
+  invited_by uuid,
+  accepted_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT itinerary_members_email_unique UNIQUE (itinerary_id, email)
+);
+
+CREATE TABLE IF NOT EXISTS itinerary_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  itinerary_id uuid NOT NULL REFERENCES itineraries(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT uid(),
+  author_name text NOT NULL DEFAULT '',
+  activity_name text NOT NULL,
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_itinerary_members_user_id ON itinerary_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_itinerary_comments_itinerary ON itinerary_comments(itinerary_id, created_at);
+
+CREATE OR REPLACE FUNCTION can_view_itinerary(itinerary_id uuid, user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM itineraries i
+    WHERE i.id = can_view_itinerary.itinerary_id AND i.user_id = can_view_itinerary.user_id
+  ) OR EXISTS (
+    SELECT 1 FROM itinerary_members m
+    WHERE m.itinerary_id = can_view_itinerary.itinerary_id AND m.user_id = can_view_itinerary.user_id
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_itinerary(itinerary_id uuid, user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM itineraries i
+    WHERE i.id = can_edit_itinerary.itinerary_id AND i.user_id = can_edit_itinerary.user_id
+  ) OR EXISTS (
+    SELECT 1 FROM itinerary_members m
+    WHERE m.itinerary_id = can_edit_itinerary.itinerary_id
+      AND m.user_id = can_edit_itinerary.user_id
+      AND m.role = 'editor'
+  );
+$$;
+
+-- The signed-in user's access, for policies and the app
+CREATE OR REPLACE FUNCTION can_view_itinerary(itinerary_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT can_view_itinerary(itinerary_id, uid());
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_itinerary(itinerary_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT can_edit_itinerary(itinerary_id, uid());
+$$;
+
+CREATE OR REPLACE FUNCTION accept_itinerary_invites()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_email text;
+  accepted integer;
+BEGIN
+  -- An unconfirmed address proves nothing about who owns it
+  SELECT lower(email) INTO user_email
+  FROM auth.users
+  WHERE id = uid() AND email_confirmed_at IS NOT NULL;
+  IF user_email IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE itinerary_members
+  SET user_id = uid(), accepted_at = now()
+  WHERE email = user_email AND user_id IS NULL;
+
+  GET DIAGNOSTICS accepted = ROW_COUNT;
+  RETURN accepted;
+END;
+$$;
+
+-- Comments are signed with the author's profile name, or their email
+CREATE OR REPLACE FUNCTION sign_itinerary_comment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(NULLIF(p.full_name, ''), u.email, '')
+  INTO NEW.author_name
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.id = u.id
+  WHERE u.id = NEW.user_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS itinerary_comments_sign ON itinerary_comments;
+CREATE TRIGGER itinerary_comments_sign
+  BEFORE INSERT ON itinerary_comments
+  FOR EACH ROW EXECUTE FUNCTION sign_itinerary_comment();
+
+REVOKE EXECUTE ON FUNCTION can_view_itinerary(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION can_edit_itinerary(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sign_itinerary_comment() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION can_view_itinerary(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION can_edit_itinerary(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION accept_itinerary_invites() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION can_view_itinerary(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION can_edit_itinerary(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION accept_itinerary_invites() TO authenticated;
+
+-- Editors change the plan, not who owns or publishes it
+CREATE OR REPLACE FUNCTION guard_itinerary_owner_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF uid() IS DISTINCT FROM OLD.user_id AND (
+    NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.share_slug IS DISTINCT FROM OLD.share_slug
+    OR NEW.shared_at IS DISTINCT FROM OLD.shared_at
+  ) THEN
+    RAISE EXCEPTION 'Only the owner can change who owns or shares this itinerary';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS itineraries_guard_owner_fields ON itineraries;
+CREATE TRIGGER itineraries_guard_owner_fields
+  BEFORE UPDATE ON itineraries
+  FOR EACH ROW EXECUTE FUNCTION guard_itinerary_owner_fields();
+
+-- Itineraries and their history
+DROP POLICY IF EXISTS "Members can view shared itineraries" ON itineraries;
+CREATE POLICY "Members can view shared itineraries"
+  ON itineraries
+  FOR SELECT
+  TO public
+  USING (can_view_itinerary(id));
+
+DROP POLICY IF EXISTS "Editors can update shared itineraries" ON itineraries;
+CREATE POLICY "Editors can update shared itineraries"
+  ON itineraries
+  FOR UPDATE
+  TO public
+  USING (can_edit_itinerary(id))
+  WITH CHECK (can_edit_itinerary(id));
+
+DROP POLICY IF EXISTS "Users can view own itinerary versions" ON itinerary_versions;
+CREATE POLICY "Members can view itinerary versions"
+  ON itinerary_versions
+  FOR SELECT
+  TO public
+  USING (can_view_itinerary(itinerary_id));
+
+-- Members
+ALTER TABLE itinerary_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage itinerary members"
+  ON itinerary_members
+  FOR ALL
+  TO public
+  USING (EXISTS (
+    SELECT 1 FROM itineraries
+    WHERE itineraries.id = itinerary_members.itinerary_id
+      AND itineraries.user_id = uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM itineraries
+    WHERE itineraries.id = itinerary_members.itinerary_id
+      AND itineraries.user_id = uid()
+  ));
+
+CREATE POLICY "Members can view fellow members"
+  ON itinerary_members
+  FOR SELECT
+  TO public
+  USING (can_view_itinerary(itinerary_id));
+
+CREATE POLICY "Members can leave itineraries"
+  ON itinerary_members
+  FOR DELETE
+  TO public
+  USING (user_id = uid());
+
+-- Comments
+ALTER TABLE itinerary_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view comments"
+  ON itinerary_comments
+  FOR SELECT
+  TO public
+  USING (can_view_itinerary(itinerary_id));
+
+CREATE POLICY "Members can add comments"
+  ON itinerary_comments
+  FOR INSERT
+  TO public
+  WITH CHECK (user_id = uid() AND can_view_itinerary(itinerary_id));
+
+CREATE POLICY "Authors and owners can delete comments"
+  ON itinerary_comments
+  FOR DELETE
+  TO public
+  USING (
+    user_id = uid()
+    OR EXISTS (
+      SELECT 1 FROM itineraries
+      WHERE itineraries.id = itinerary_comments.itinerary_id
+        AND itineraries.user_id = uid()
+    )
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE itinerary_members, itinerary_comments;
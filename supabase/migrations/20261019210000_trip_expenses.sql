@@ -0,0 +1,147 @@
+/*
+  # Trip expense ledger
+
+  1. New Tables
+    - `trip_participants` - the people splitting a trip's costs, by name. They
+      don't need an account, so friends who never sign in can still be in the
+      split. Names are unique per itinerary, ignoring case.
+    - `trip_expenses` - money actually spent on a trip: who paid, how much,
+      a category, and which participants share it equally. `activity_name`
+      links an expense to the itinerary activity it pays for, so estimated
+      and actual spend can be compared.
+
+  2. Integrity
+    - `paid_by` and every id in `split_among` must be a participant of the
+      expense's own itinerary: a composite foreign key covers `paid_by`, and
+      `check_trip_expense_split()` the array, which foreign keys can't
+    - `protect_split_participants()` stops a participant who shares an
+      expense from being removed, as the foreign key does for payers
+
+  3. Security
+    - Everyone who can view an itinerary can see its ledger; owners and
+      editors can change it (see `can_view_itinerary` / `can_edit_itinerary`)
+    - A participant who paid for something can't be removed until that
+      expense is changed or deleted
+
+  4. Realtime
+    - Both tables are added to the realtime publication so the group sees
+      new expenses as they are recorded
+*/
+
+CREATE TABLE IF NOT EXISTS trip_participants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  itinerary_id uuid NOT NULL REFERENCES itineraries(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT trip_participants_id_itinerary_unique UNIQUE (id, itinerary_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trip_participants_name
+  ON trip_participants(itinerary_id, lower(name));
+
+CREATE TABLE IF NOT EXISTS trip_expenses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  itinerary_id uuid NOT NULL REFERENCES itineraries(id) ON DELETE CASCADE,
+  description text NOT NULL CHECK (length(trim(description)) > 0),
+  category text NOT NULL DEFAULT 'other'
+    CHECK (category IN ('food', 'stay', 'transport', 'activities', 'shopping', 'other')),
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  paid_by uuid NOT NULL,
+  split_among uuid[] NOT NULL CHECK (cardinality(split_among) > 0),
+  activity_name text,
+  spent_on date,
+  created_by uuid DEFAULT uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT trip_expenses_paid_by_fkey
+    -- Checked at the end of the statement, so deleting the itinerary can
+    -- remove participants and expenses in any order
+    FOREIGN KEY (paid_by, itinerary_id) REFERENCES trip_participants(id, itinerary_id) ON DELETE NO ACTION
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_expenses_itinerary ON trip_expenses(itinerary_id, created_at);
+
+CREATE OR REPLACE FUNCTION check_trip_expense_split()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM unnest(NEW.split_among) AS shared(participant_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM trip_participants p
+      WHERE p.id = shared.participant_id AND p.itinerary_id = NEW.itinerary_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Expenses can only be split among the trip''s participants'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trip_expenses_check_split ON trip_expenses;
+CREATE TRIGGER trip_expenses_check_split
+  BEFORE INSERT OR UPDATE OF split_among, itinerary_id ON trip_expenses
+  FOR EACH ROW EXECUTE FUNCTION check_trip_expense_split();
+
+-- Runs as the definer so expenses the caller can't see still count. When the
+-- whole itinerary is being deleted its expenses go too, so anything goes.
+CREATE OR REPLACE FUNCTION protect_split_participants()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM itineraries i WHERE i.id = OLD.itinerary_id)
+    AND EXISTS (
+      SELECT 1 FROM trip_expenses e
+      WHERE e.itinerary_id = OLD.itinerary_id AND OLD.id = ANY (e.split_among)
+    ) THEN
+    RAISE EXCEPTION 'This participant shares an expense' USING ERRCODE = 'foreign_key_violation';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION protect_split_participants() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS trip_participants_protect_split ON trip_participants;
+CREATE TRIGGER trip_participants_protect_split
+  BEFORE DELETE ON trip_participants
+  FOR EACH ROW EXECUTE FUNCTION protect_split_participants();
+
+-- Participants
+ALTER TABLE trip_participants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view trip participants"
+  ON trip_participants
+  FOR SELECT
+  TO public
+  USING (can_view_itinerary(itinerary_id));
+
+CREATE POLICY "Editors can manage trip participants"
+  ON trip_participants
+  FOR ALL
+  TO public
+  USING (can_edit_itinerary(itinerary_id))
+  WITH CHECK (can_edit_itinerary(itinerary_id));
+
+-- Expenses
+ALTER TABLE trip_expenses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view trip expenses"
+  ON trip_expenses
+  FOR SELECT
+  TO public
+  USING (can_view_itinerary(itinerary_id));
+
+CREATE POLICY "Editors can manage trip expenses"
+  ON trip_expenses
+  FOR ALL
+  TO public
+  USING (can_edit_itinerary(itinerary_id))
+  WITH CHECK (can_edit_itinerary(itinerary_id));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE trip_participants, trip_expenses;
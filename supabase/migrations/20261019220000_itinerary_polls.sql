@@ -0,0 +1,161 @@
+/*
+  # Group polls on shared itineraries
+
+  1. New Tables
+    - `itinerary_polls` - a question put to everyone on an itinerary, such as
+      "Where should we go on day 2?". `day_index` (zero-based) is the day the
+      winners are meant for, `closes_at` the voting deadline, and `locked_at`
+      is set once the winners have been put into the itinerary.
+    - `itinerary_poll_options` - the candidates: a place from `destinations`
+      or a free-text activity
+    - `itinerary_poll_votes` - one up (1) or down (-1) vote per person per
+      option
+
+  2. Functions
+    - `poll_is_open(poll_id)` - not locked and before its deadline
+
+  3. Security
+    - Everyone who can view an itinerary can see its polls, propose options
+      and vote while a poll is open. They can take back their own votes and
+      options.
+    - Owners and editors create, close and lock polls, and can remove any
+      option
+    - `itinerary_id` is repeated on options and votes, tied to the poll by
+      foreign keys, so realtime can filter on it
+
+  4. Realtime
+    - All three tables are added to the realtime publication
+*/
+
+CREATE TABLE IF NOT EXISTS itinerary_polls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  itinerary_id uuid NOT NULL REFERENCES itineraries(id) ON DELETE CASCADE,
+  question text NOT NULL CHECK (length(trim(question)) > 0),
+  day_index integer CHECK (day_index >= 0),
+  closes_at timestamptz,
+  locked_at timestamptz,
+  created_by uuid DEFAULT uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT itinerary_polls_id_itinerary_unique UNIQUE (id, itinerary_id)
+);
+
+CREATE TABLE IF NOT EXISTS itinerary_poll_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id uuid NOT NULL,
+  itinerary_id uuid NOT NULL,
+  kind text NOT NULL DEFAULT 'activity' CHECK (kind IN ('activity', 'destination')),
+  label text NOT NULL CHECK (length(trim(label)) > 0),
+  destination_id uuid REFERENCES destinations(id) ON DELETE SET NULL,
+  proposed_by uuid DEFAULT uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT itinerary_poll_options_poll_fkey
+    FOREIGN KEY (poll_id, itinerary_id) REFERENCES itinerary_polls(id, itinerary_id) ON DELETE CASCADE,
+  CONSTRAINT itinerary_poll_options_id_poll_unique UNIQUE (id, poll_id)
+);
+
+CREATE TABLE IF NOT EXISTS itinerary_poll_votes (
+  option_id uuid NOT NULL,
+  poll_id uuid NOT NULL,
+  itinerary_id uuid NOT NULL,
+  user_id uuid NOT NULL DEFAULT uid(),
+  value smallint NOT NULL CHECK (value IN (-1, 1)),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (option_id, user_id),
+  CONSTRAINT itinerary_poll_votes_option_fkey
+    FOREIGN KEY (option_id, poll_id) REFERENCES itinerary_poll_options(id, poll_id) ON DELETE CASCADE,
+  CONSTRAINT itinerary_poll_votes_poll_fkey
+    FOREIGN KEY (poll_id, itinerary_id) REFERENCES itinerary_polls(id, itinerary_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_itinerary_polls_itinerary ON itinerary_polls(itinerary_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_itinerary_poll_options_poll ON itinerary_poll_options(poll_id);
+CREATE INDEX IF NOT EXISTS idx_itinerary_poll_votes_poll ON itinerary_poll_votes(poll_id);
+
+CREATE OR REPLACE FUNCTION poll_is_open(poll_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM itinerary_polls p
+    WHERE p.id = poll_is_open.poll_id
+      AND p.locked_at IS NULL
+      AND (p.closes_at IS NULL OR p.closes_at > now())
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION poll_is_open(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION poll_is_open(uuid) TO authenticated;
+
+-- Polls
+ALTER TABLE itinerary_polls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view polls"
+  ON itinerary_polls
+  FOR SELECT
+  TO public
+  USING (can_view_itinerary(itinerary_id));
+
+CREATE POLICY "Editors can manage polls"
+  ON itinerary_polls
+  FOR ALL
+  TO public
+  USING (can_edit_itinerary(itinerary_id))
+  WITH CHECK (can_edit_itinerary(itinerary_id));
+
+-- Options
+ALTER TABLE itinerary_poll_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view poll options"
+  ON itinerary_poll_options
+  FOR SELECT
+  TO public
+  USING (can_view_itinerary(itinerary_id));
+
+CREATE POLICY "Members can propose poll options"
+  ON itinerary_poll_options
+  FOR INSERT
+  TO public
+  WITH CHECK (
+    proposed_by = uid()
+    AND can_view_itinerary(itinerary_id)
+    AND poll_is_open(poll_id)
+  );
+
+CREATE POLICY "Proposers and editors can remove poll options"
+  ON itinerary_poll_options
+  FOR DELETE
+  TO public
+  USING (proposed_by = uid() OR can_edit_itinerary(itinerary_id));
+
+-- Votes
+ALTER TABLE itinerary_poll_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view poll votes"
+  ON itinerary_poll_votes
+  FOR SELECT
+  TO public
+  USING (can_view_itinerary(itinerary_id));
+
+CREATE POLICY "Members can vote on open polls"
+  ON itinerary_poll_votes
+  FOR INSERT
+  TO public
+  WITH CHECK (user_id = uid() AND can_view_itinerary(itinerary_id) AND poll_is_open(poll_id));
+
+CREATE POLICY "Members can change their vote on open polls"
+  ON itinerary_poll_votes
+  FOR UPDATE
+  TO public
+  USING (user_id = uid() AND poll_is_open(poll_id))
+  WITH CHECK (user_id = uid() AND poll_is_open(poll_id));
+
+CREATE POLICY "Members can take back their vote on open polls"
+  ON itinerary_poll_votes
+  FOR DELETE
+  TO public
+  USING (user_id = uid() AND poll_is_open(poll_id));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE itinerary_polls, itinerary_poll_options, itinerary_poll_votes;